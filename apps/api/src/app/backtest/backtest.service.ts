@@ -7,6 +7,7 @@ import {
   BacktestResult,
   BacktestProgress,
   OHLCV,
+  FundingRate,
   Timeframe,
   MultiTimeframeData,
 } from '@trading-system/core';
@@ -76,7 +77,11 @@ export class BacktestService {
       currency: dto.currency || 'USDT',
       commissionPercent: dto.commissionPercent || 0.0006,
       slippagePercent: dto.slippagePercent || 0.0003,
+      fees: dto.fees,
+      slippage: dto.slippage,
       fillModel: dto.fillModel || 'realistic',
+      executionTiming: dto.executionTiming || 'next_open',
+      funding: dto.funding,
       dataSource: 'local',
     };
 
@@ -134,6 +139,38 @@ export class BacktestService {
       }
     }
 
+    // Świece 1m rozstrzygają kolejność SL/TP wewnątrz świecy (fillModel 'realistic'),
+    // wyznaczają cenę wykonania dla executionTiming 'next_bar_vwap' i wolumen dla VWAP
+    const usesVwap = strategy.indicators.some((indicator) =>
+      ['VWAP', 'AVWAP'].includes(indicator.type.toUpperCase())
+    );
+    const needsIntrabar =
+      config.fillModel === 'realistic' || config.executionTiming === 'next_bar_vwap' || usesVwap;
+    if (needsIntrabar && timeframe !== '1m' && !multiTfData?.has('1m')) {
+      multiTfData = multiTfData ?? new Map();
+
+      this.logger.log('Loading 1m candles for intrabar resolution');
+      const intrabarData = await this.marketDataService.getHistoricalData(
+        symbol,
+        '1m',
+        config.startDate,
+        config.endDate
+      );
+      multiTfData.set('1m', intrabarData);
+      this.logger.log(`Loaded ${intrabarData.length} candles for 1m`);
+    }
+
+    // Historia funding rate dla kontraktów perpetual
+    let fundingRates: FundingRate[] | undefined;
+    if (config.funding?.enabled) {
+      fundingRates = await this.marketDataService.getFundingRates(
+        symbol,
+        config.startDate,
+        config.endDate
+      );
+      this.logger.log(`Loaded ${fundingRates.length} funding rates`);
+    }
+
     // Create backtest engine
     const engine = new BacktestEngine(strategy, config);
     
@@ -146,7 +183,15 @@ export class BacktestService {
     this.progressSubjects.set(backtestId, progressSubject);
 
     // Run backtest asynchronously
-    this.executeBacktest(engine, data, symbol, backtestId, progressSubject, multiTfData);
+    this.executeBacktest(
+      engine,
+      data,
+      symbol,
+      backtestId,
+      progressSubject,
+      multiTfData,
+      fundingRates
+    );
 
     return {
       backtestId,
@@ -160,14 +205,15 @@ export class BacktestService {
     symbol: string,
     backtestId: string,
     progressSubject: Subject<BacktestProgress>,
-    multiTfData?: MultiTimeframeData
+    multiTfData?: MultiTimeframeData,
+    fundingRates?: FundingRate[]
   ): Promise<void> {
     try {
       this.logger.log(`Executing backtest ${backtestId}...`);
       
       const result = await engine.run(data, symbol, (progress) => {
         progressSubject.next(progress);
-      }, multiTfData);
+      }, multiTfData, fundingRates);
 
       // Override backtest ID
       result.id = backtestId;
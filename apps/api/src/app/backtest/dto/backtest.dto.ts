@@ -8,5 +8,24 @@ export class RunBacktestDto {
   currency?: string;
   commissionPercent?: number;
   slippagePercent?: number;
+  fees?: {
+    makerPercent?: number;
+    takerPercent?: number;
+    fixedPerTrade?: number;
+    tiers?: { minVolume: number; makerPercent: number; takerPercent: number }[];
+    tierWindowDays?: number;
+  };
+  slippage?: {
+    model: 'fixed' | 'volume' | 'atr';
+    impactFactor?: number;
+    maxPercent?: number;
+    atrFraction?: number;
+  };
   fillModel?: 'optimistic' | 'pessimistic' | 'realistic';
+  executionTiming?: 'same_close' | 'next_open' | 'next_bar_vwap';
+  funding?: {
+    enabled: boolean;
+    intervalHours?: number;
+    defaultRate?: number;
+  };
 }
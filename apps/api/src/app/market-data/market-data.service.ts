@@ -2,6 +2,7 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import {
   OHLCV,
+  FundingRate,
   Timeframe,
   BybitClient,
   ExchangeConfig,
@@ -9,6 +10,7 @@ import {
   generateSyntheticData,
   getSupportedSymbols,
   fetchCachedCandles,
+  fetchCachedFundingRates,
   getCacheStats,
   aggregateOHLCV,
 } from '@trading-system/core';
@@ -148,6 +150,27 @@ export class MarketDataService {
     return data;
   }
 
+  /**
+   * Pobierz historię funding rate (cache MongoDB, brakujące dane z Bybit)
+   * Przy braku danych zwraca pustą tablicę - backtest użyje stawki domyślnej
+   */
+  async getFundingRates(symbol: string, startDate: Date, endDate: Date): Promise<FundingRate[]> {
+    try {
+      return await fetchCachedFundingRates(
+        symbol,
+        startDate,
+        endDate,
+        { mongoUri: this.mongoUri },
+        (message) => {
+          this.logger.debug(message);
+        }
+      );
+    } catch (error) {
+      this.logger.warn(`Failed to fetch funding rates: ${(error as Error).message}`);
+      return [];
+    }
+  }
+
   getAvailableSymbols(): string[] {
     return getSupportedSymbols();
   }
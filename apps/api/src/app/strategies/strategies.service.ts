@@ -2,6 +2,7 @@ import { Injectable, NotFoundException } from '@nestjs/common';
 import { randomUUID } from 'crypto';
 import {
   StrategySchema,
+  validateStrategy,
   // Single Source of Truth - strategie z core
   PIVOT_SMMA_V3_STRATEGY,
   SMA_CROSSOVER_RSI_STRATEGY,
@@ -238,6 +239,11 @@ export class StrategiesService {
       errors.push('Risk management configuration is required');
     }
 
+    // Walidacja referencji (SL/TP na wskaźnikach itp.) - tylko dla kompletnego schematu
+    if (errors.length === 0) {
+      errors.push(...validateStrategy(schema as StrategySchema).errors);
+    }
+
     return { valid: errors.length === 0, errors };
   }
 
@@ -9,6 +9,7 @@ import {
   BacktestEngine,
   BacktestConfig,
   BacktestResult,
+  MultiTimeframeData,
   OHLCV,
   StrategySchema,
   Timeframe,
@@ -584,9 +585,18 @@ async function main(): Promise<void> {
   console.log('  🚀 Uruchamianie backtestu...');
   const engine = new BacktestEngine(strategy, backtestConfig);
 
-  const result = await engine.run(data, symbol, (progress) => {
-    process.stdout.write(`\r     Postęp: ${progress}%`);
-  });
+  // Pobrane świece 1m (baza) - rozstrzyganie wewnątrz świecy i VWAP z wolumenu 1m
+  const multiTfData: MultiTimeframeData | undefined =
+    marketData.raw1m.length > 0 ? new Map([['1m' as Timeframe, marketData.raw1m]]) : undefined;
+
+  const result = await engine.run(
+    data,
+    symbol,
+    (progress) => {
+      process.stdout.write(`\r     Postęp: ${progress}%`);
+    },
+    multiTfData
+  );
   console.log('     Postęp: 100% ✓                    ');
 
   // Wyświetl wyniki
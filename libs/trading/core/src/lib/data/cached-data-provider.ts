@@ -10,7 +10,7 @@
 
 import { BybitClient } from '../exchange/bybit-client';
 import { CandleCache, getCandleCache, isCacheAvailable } from './candle-cache';
-import { OHLCV, Timeframe, timeframeToMs } from '../types/ohlcv';
+import { FundingRate, OHLCV, Timeframe, timeframeToMs } from '../types/ohlcv';
 
 /**
  * Callback do raportowania postępu
@@ -209,6 +209,76 @@ export async function fetchCachedCandles(
   }
 }
 
+/**
+ * Pobierz historię funding rate z cache lub API
+ *
+ * Stawek jest kilka dziennie, więc przy niepełnym pokryciu zakresu
+ * pobierany jest brakujący początek/koniec w całości.
+ */
+export async function fetchCachedFundingRates(
+  symbol: string,
+  startDate: Date,
+  endDate: Date,
+  options: CachedDataProviderOptions = {},
+  onProgress?: DataProgressCallback
+): Promise<FundingRate[]> {
+  // Maksymalna przerwa między rozliczeniami (Bybit: co 8h lub częściej)
+  const maxGapMs = 8 * 60 * 60 * 1000;
+
+  const cacheAvailable = !options.forceRefresh && (await isCacheAvailable());
+
+  if (!cacheAvailable) {
+    onProgress?.('⚠️ Cache niedostępny, pobieram funding rate bezpośrednio z Bybit...');
+
+    const client = new BybitClient({ testnet: options.testnet || false });
+    await client.connect();
+    return client.fetchFundingRateHistory(symbol, startDate, endDate);
+  }
+
+  const cache = getCandleCache(
+    options.mongoUri ? { mongoUri: options.mongoUri } : undefined
+  );
+  await cache.connect();
+
+  const cachedRates = await cache.getFundingRates(symbol, startDate, endDate);
+
+  // Brakujące zakresy na początku i końcu
+  const missingRanges: Array<{ start: Date; end: Date }> = [];
+  if (cachedRates.length === 0) {
+    missingRanges.push({ start: startDate, end: endDate });
+  } else {
+    const first = cachedRates[0].timestamp;
+    const last = cachedRates[cachedRates.length - 1].timestamp;
+    if (first - startDate.getTime() > maxGapMs) {
+      missingRanges.push({ start: startDate, end: new Date(first) });
+    }
+    if (endDate.getTime() - last > maxGapMs) {
+      missingRanges.push({ start: new Date(last + 1), end: endDate });
+    }
+  }
+
+  if (missingRanges.length === 0 || options.cacheOnly) {
+    onProgress?.(`📦 Funding rate z cache (${cachedRates.length} stawek)`);
+    return cachedRates;
+  }
+
+  onProgress?.(`🔄 Pobieram funding rate z Bybit (${missingRanges.length} zakresów)...`);
+
+  const client = new BybitClient({ testnet: options.testnet || false });
+  await client.connect();
+
+  for (const range of missingRanges) {
+    await client.fetchFundingRateHistory(symbol, range.start, range.end, async (rates) => {
+      await cache.saveFundingRates(symbol, rates);
+    });
+  }
+
+  const allRates = await cache.getFundingRates(symbol, startDate, endDate);
+  onProgress?.(`✅ Funding rate: ${allRates.length} stawek`);
+
+  return allRates;
+}
+
 /**
  * Wyczyść cache dla danego symbolu/timeframe
  */
@@ -6,7 +6,7 @@
  */
 
 import { MongoClient, Db, Collection, Document } from 'mongodb';
-import { OHLCV, Timeframe, timeframeToMs } from '../types/ohlcv';
+import { FundingRate, OHLCV, Timeframe, timeframeToMs } from '../types/ohlcv';
 
 /**
  * Dokument świecy w MongoDB
@@ -23,6 +23,16 @@ interface CandleDocument extends Document {
   createdAt: Date;
 }
 
+/**
+ * Dokument stawki funding w MongoDB
+ */
+interface FundingRateDocument extends Document {
+  symbol: string;
+  timestamp: number;
+  rate: number;
+  createdAt: Date;
+}
+
 /**
  * Metadane zakresu dat dla symbol/timeframe
  */
@@ -56,6 +66,7 @@ export class CandleCache {
   private db: Db | null = null;
   private candlesCollection: Collection<CandleDocument> | null = null;
   private metadataCollection: Collection<CandleMetadata> | null = null;
+  private fundingCollection: Collection<FundingRateDocument> | null = null;
 
   constructor(private config: CandleCacheConfig) {}
 
@@ -70,6 +81,7 @@ export class CandleCache {
     this.db = this.client.db(this.config.dbName || 'trading');
     this.candlesCollection = this.db.collection<CandleDocument>('candles');
     this.metadataCollection = this.db.collection<CandleMetadata>('candle_metadata');
+    this.fundingCollection = this.db.collection<FundingRateDocument>('funding_rates');
   }
 
   /**
@@ -82,6 +94,7 @@ export class CandleCache {
       this.db = null;
       this.candlesCollection = null;
       this.metadataCollection = null;
+      this.fundingCollection = null;
     }
   }
 
@@ -199,6 +212,55 @@ export class CandleCache {
     return savedCount;
   }
 
+  /**
+   * Pobierz historię funding rate z cache
+   */
+  async getFundingRates(
+    symbol: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<FundingRate[]> {
+    if (!this.fundingCollection) {
+      throw new Error('Cache not connected');
+    }
+
+    const docs = await this.fundingCollection
+      .find({
+        symbol,
+        timestamp: { $gte: startDate.getTime(), $lte: endDate.getTime() },
+      })
+      .sort({ timestamp: 1 })
+      .toArray();
+
+    return docs.map((doc) => ({
+      timestamp: doc.timestamp,
+      rate: doc.rate,
+    }));
+  }
+
+  /**
+   * Zapisz historię funding rate do cache
+   */
+  async saveFundingRates(symbol: string, rates: FundingRate[]): Promise<number> {
+    if (!this.fundingCollection) {
+      throw new Error('Cache not connected');
+    }
+
+    if (rates.length === 0) return 0;
+
+    const result = await this.fundingCollection.bulkWrite(
+      rates.map((funding) => ({
+        updateOne: {
+          filter: { symbol, timestamp: funding.timestamp },
+          update: { $set: { rate: funding.rate, createdAt: new Date() } },
+          upsert: true,
+        },
+      }))
+    );
+
+    return result.upsertedCount + result.modifiedCount;
+  }
+
   /**
    * Pobierz metadane zakresu dat
    */
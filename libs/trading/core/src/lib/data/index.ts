@@ -37,6 +37,7 @@ export {
 
 export {
   fetchCachedCandles,
+  fetchCachedFundingRates,
   clearCandleCache,
   getCacheStats,
   type CachedDataProviderOptions,
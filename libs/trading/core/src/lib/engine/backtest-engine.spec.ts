@@ -1,5 +1,6 @@
-import { BacktestEngine, runBacktest } from './backtest-engine';
-import { StrategySchema } from '../types/strategy';
+import { BacktestEngine, runBacktest, runPortfolioBacktest } from './backtest-engine';
+import { StrategyExecutor } from './strategy-executor';
+import { ConditionGroup, StrategySchema } from '../types/strategy';
 import { BacktestConfig } from '../types/backtest';
 import { OHLCV } from '../types/ohlcv';
 
@@ -92,6 +93,45 @@ function createTestStrategy(): StrategySchema {
   };
 }
 
+// Strategia z wejściem long na każdej świecy (riskManagement scalane z domyślnym)
+const ALWAYS_LONG_CONDITIONS: ConditionGroup = {
+  operator: 'AND',
+  conditions: [{ type: 'greater_than', left: 'close', right: 0 }],
+};
+
+const ALWAYS_LONG_ENTRY: StrategySchema['entrySignals'] = {
+  long: { conditions: ALWAYS_LONG_CONDITIONS },
+};
+
+function createAlwaysLongStrategy(
+  overrides: Partial<Omit<StrategySchema, 'riskManagement'>> & {
+    riskManagement?: Partial<StrategySchema['riskManagement']>;
+  } = {}
+): StrategySchema {
+  const { riskManagement, ...rest } = overrides;
+  return {
+    id: 'always-long',
+    version: '1.0.0',
+    name: 'Always Long',
+    status: 'testing',
+    dataRequirements: {
+      primaryTimeframe: '4h',
+      lookbackPeriods: 5,
+      symbols: ['BTCUSDT'],
+    },
+    indicators: [],
+    entrySignals: ALWAYS_LONG_ENTRY,
+    exitSignals: {},
+    ...rest,
+    riskManagement: {
+      riskPerTrade: 1,
+      maxPositionSize: 40,
+      maxOpenPositions: 1,
+      ...riskManagement,
+    },
+  };
+}
+
 function createTestConfig(): BacktestConfig {
   const now = Date.now();
   return {
@@ -219,6 +259,38 @@ describe('runBacktest helper', () => {
     expect(result).toBeDefined();
     expect(result.status).toBe('completed');
   });
+
+  it('should pass funding rate history to the engine', async () => {
+    const strategy = createAlwaysLongStrategy({ exitSignals: { timeout: { bars: 3 } } });
+    // Bez historii stawek funding domyślny wynosi 0
+    const config: BacktestConfig = {
+      ...createTestConfig(),
+      funding: { enabled: true, defaultRate: 0 },
+    };
+    const data = generateTestData(50, 100, config.startDate.getTime());
+    const rates = data.map((candle) => ({ timestamp: candle.timestamp, rate: 0.001 }));
+
+    const single = await runBacktest(
+      strategy,
+      config,
+      data,
+      'BTCUSDT',
+      undefined,
+      undefined,
+      rates
+    );
+    const portfolio = await runPortfolioBacktest(
+      strategy,
+      config,
+      new Map([['BTCUSDT', data]]),
+      undefined,
+      undefined,
+      new Map([['BTCUSDT', rates]])
+    );
+
+    expect(single.metrics?.totalFunding).toBeLessThan(0);
+    expect(portfolio.metrics?.totalFunding).toBeCloseTo(single.metrics?.totalFunding ?? 0, 8);
+  });
 });
 
 describe('BacktestEngine edge cases', () => {
@@ -310,3 +382,521 @@ describe('BacktestEngine edge cases', () => {
     expect(result.trades.length).toBeGreaterThanOrEqual(1);
   });
 });
+
+describe('BacktestEngine timeout exits', () => {
+  function createTimeoutStrategy(
+    timeout: StrategySchema['exitSignals']['timeout']
+  ): StrategySchema {
+    return createAlwaysLongStrategy({
+      exitSignals: { timeout },
+      riskManagement: { riskPerTrade: 2, maxPositionSize: 10 },
+    });
+  }
+
+  it('should close positions after the configured number of bars', async () => {
+    const config = createTestConfig();
+    const data = generateTestData(100, 100, config.startDate.getTime());
+
+    const result = await runBacktest(createTimeoutStrategy({ bars: 3 }), config, data, 'BTCUSDT');
+    const timedOut = result.trades.filter((t) => t.exitReason === 'timeout');
+
+    expect(timedOut.length).toBeGreaterThan(1);
+    timedOut.forEach((trade) => {
+      expect(trade.holdingTime).toBe(3 * 14400000);
+    });
+  });
+
+  it('should accept timeout in minutes as a plain number', async () => {
+    const config = createTestConfig();
+    const data = generateTestData(100, 100, config.startDate.getTime());
+
+    const result = await runBacktest(createTimeoutStrategy(480), config, data, 'BTCUSDT');
+    const timedOut = result.trades.filter((t) => t.exitReason === 'timeout');
+
+    expect(timedOut.length).toBeGreaterThan(1);
+    timedOut.forEach((trade) => {
+      expect(trade.holdingTime).toBe(2 * 14400000);
+    });
+  });
+
+  it('should only time out losing positions with onlyIfLosing', async () => {
+    const config = { ...createTestConfig(), slippagePercent: 0 };
+    const data = generateTestData(100, 100, config.startDate.getTime());
+
+    const result = await runBacktest(
+      createTimeoutStrategy({ bars: 2, onlyIfLosing: true }),
+      config,
+      data,
+      'BTCUSDT'
+    );
+    const timedOut = result.trades.filter((t) => t.exitReason === 'timeout');
+
+    expect(timedOut.length).toBeGreaterThan(0);
+    timedOut.forEach((trade) => {
+      expect(trade.pnl).toBeLessThan(0);
+      expect(trade.holdingTime).toBeGreaterThanOrEqual(2 * 14400000);
+    });
+  });
+});
+
+describe('BacktestEngine strategy validation', () => {
+  it('should fail when the stop loss references a missing indicator', async () => {
+    const strategy = createTestStrategy();
+    strategy.exitSignals.stopLoss = { type: 'indicator', reference: 'ema200', value: 0 };
+    const config = createTestConfig();
+    const data = generateTestData(200, 100, config.startDate.getTime());
+
+    const result = await runBacktest(strategy, config, data, 'BTCUSDT');
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toContain('ema200');
+  });
+});
+
+describe('BacktestEngine risk limits', () => {
+  function createRiskStrategy(
+    riskManagement: Partial<StrategySchema['riskManagement']>,
+    exitSignals: StrategySchema['exitSignals'] = { timeout: { bars: 2 } }
+  ): StrategySchema {
+    return createAlwaysLongStrategy({
+      exitSignals,
+      riskManagement: { riskPerTrade: 2, maxPositionSize: 100, ...riskManagement },
+    });
+  }
+
+  it('should halt trading and flatten positions after max drawdown', async () => {
+    const config = createTestConfig();
+    const data = generateTestData(200, 100, config.startDate.getTime());
+
+    const result = await runBacktest(
+      // Bez wyjść - pozycja otwarta w chwili zatrzymania
+      createRiskStrategy({ maxDrawdown: 3, closeOnMaxDrawdown: true }, {}),
+      config,
+      data,
+      'BTCUSDT'
+    );
+
+    expect(result.haltEvents).toHaveLength(1);
+    const [halt] = result.haltEvents ?? [];
+    expect(halt.type).toBe('max_drawdown');
+    expect(halt.value).toBeGreaterThanOrEqual(3);
+    expect(halt.closedPositions).toBe(1);
+    expect(result.trades.every((t) => t.entryTime < halt.timestamp)).toBe(true);
+    expect(result.trades[result.trades.length - 1].exitReason).toBe('risk_limit');
+  });
+
+  it('should block new entries until the next UTC day after max daily loss', async () => {
+    const config: BacktestConfig = { ...createTestConfig(), executionTiming: 'next_open' };
+    const data = generateTestData(200, 100, config.startDate.getTime());
+
+    const result = await runBacktest(
+      createRiskStrategy({ maxDailyLoss: 1 }),
+      config,
+      data,
+      'BTCUSDT'
+    );
+    const halts = result.haltEvents ?? [];
+
+    expect(halts.length).toBeGreaterThan(0);
+    halts.forEach((halt) => {
+      expect(halt.type).toBe('max_daily_loss');
+      expect(halt.resumesAt).toBe(Math.floor(halt.timestamp / 86400000 + 1) * 86400000);
+      // Wejście na otwarciu świecy, której zamknięcie uruchomiło limit, nastąpiło przed nim
+      const blocked = result.trades.filter(
+        (t) => t.entryTime > halt.timestamp && t.entryTime < (halt.resumesAt ?? 0)
+      );
+      expect(blocked).toHaveLength(0);
+    });
+  });
+});
+
+describe('BacktestEngine execution timing', () => {
+  const strategy = createAlwaysLongStrategy({
+    exitSignals: { timeout: { bars: 2 } },
+    riskManagement: { riskPerTrade: 2, maxPositionSize: 100 },
+  });
+
+  async function firstTrade(executionTiming?: BacktestConfig['executionTiming']) {
+    const config = { ...createTestConfig(), slippagePercent: 0, executionTiming };
+    const data = generateTestData(50, 100, config.startDate.getTime());
+    const result = await runBacktest(strategy, config, data, 'BTCUSDT');
+    const trade = result.trades[0];
+    const entryCandle = data.find((candle) => candle.timestamp === trade.entryTime);
+    return { result, data, trade, entryCandle };
+  }
+
+  it('should keep filling at the signal close when executionTiming is not set', async () => {
+    const { result, data, trade } = await firstTrade();
+
+    expect(result.executionTiming).toBe('same_close');
+    expect(trade.entryTime).toBe(data[5].timestamp);
+    expect(trade.entryPrice).toBe(data[5].close);
+  });
+
+  it('should fill at the next open with next_open', async () => {
+    const { result, data, trade, entryCandle } = await firstTrade('next_open');
+
+    expect(result.executionTiming).toBe('next_open');
+    expect(trade.entryTime).toBe(data[6].timestamp);
+    expect(trade.entryPrice).toBe(entryCandle?.open);
+  });
+
+  it('should fill at the signal close with same_close', async () => {
+    const { result, data, trade } = await firstTrade('same_close');
+
+    expect(result.executionTiming).toBe('same_close');
+    expect(trade.entryTime).toBe(data[5].timestamp);
+    expect(trade.entryPrice).toBe(data[5].close);
+  });
+
+  it('should fill at the next bar typical price without 1m data with next_bar_vwap', async () => {
+    const { trade, entryCandle } = await firstTrade('next_bar_vwap');
+
+    expect(entryCandle).toBeDefined();
+    const hlc3 = entryCandle ? (entryCandle.high + entryCandle.low + entryCandle.close) / 3 : 0;
+    expect(trade.entryPrice).toBeCloseTo(hlc3, 8);
+  });
+});
+
+describe('BacktestEngine portfolio backtests', () => {
+  function createPortfolioStrategy(maxOpenPositions: number): StrategySchema {
+    return createAlwaysLongStrategy({
+      dataRequirements: {
+        primaryTimeframe: '4h',
+        lookbackPeriods: 5,
+        symbols: ['BTCUSDT', 'ETHUSDT'],
+      },
+      exitSignals: { timeout: { bars: 3 } },
+      riskManagement: { riskPerTrade: 2, maxPositionSize: 20, maxOpenPositions },
+    });
+  }
+
+  function createPortfolioData(config: BacktestConfig): Map<string, OHLCV[]> {
+    const start = config.startDate.getTime();
+    return new Map([
+      ['BTCUSDT', generateTestData(100, 100, start)],
+      // Świece przesunięte o 2h - oś czasu łączy oba symbole
+      ['ETHUSDT', generateTestData(100, 50, start + 2 * 3600000)],
+    ]);
+  }
+
+  it('should trade all symbols on a merged timeline with shared capital', async () => {
+    const config = createTestConfig();
+
+    const result = await runPortfolioBacktest(
+      createPortfolioStrategy(2),
+      config,
+      createPortfolioData(config)
+    );
+
+    expect(result.status).toBe('completed');
+    expect(result.symbols).toEqual(['BTCUSDT', 'ETHUSDT']);
+    expect(result.trades.some((t) => t.symbol === 'BTCUSDT')).toBe(true);
+    expect(result.trades.some((t) => t.symbol === 'ETHUSDT')).toBe(true);
+    expect(result.equityCurve).toHaveLength(2 * (100 - 5));
+    expect(result.equityCurve.some((point) => point.openPositions === 2)).toBe(true);
+  });
+
+  it('should respect maxOpenPositions across symbols', async () => {
+    const config = createTestConfig();
+
+    const result = await runPortfolioBacktest(
+      createPortfolioStrategy(1),
+      config,
+      createPortfolioData(config)
+    );
+
+    expect(result.equityCurve.every((point) => point.openPositions <= 1)).toBe(true);
+    const sorted = [...result.trades].sort((a, b) => a.entryTime - b.entryTime);
+    for (let i = 1; i < sorted.length; i++) {
+      expect(sorted[i].entryTime).toBeGreaterThanOrEqual(sorted[i - 1].exitTime);
+    }
+  });
+
+  it('should count pending entry orders against maxOpenPositions', async () => {
+    const config = createTestConfig();
+    const strategy = createPortfolioStrategy(1);
+    strategy.entrySignals = {
+      long: {
+        conditions: ALWAYS_LONG_CONDITIONS,
+        order: { type: 'limit', price: 'close', expiryBars: 3 },
+      },
+    };
+
+    const result = await runPortfolioBacktest(strategy, config, createPortfolioData(config));
+
+    expect(result.trades.length).toBeGreaterThan(1);
+    expect(result.equityCurve.every((point) => point.openPositions <= 1)).toBe(true);
+  });
+
+  it('should report per-symbol metrics and equity curves', async () => {
+    const config = createTestConfig();
+
+    const result = await runPortfolioBacktest(
+      createPortfolioStrategy(2),
+      config,
+      createPortfolioData(config)
+    );
+    const btc = result.symbolResults['BTCUSDT'];
+    const eth = result.symbolResults['ETHUSDT'];
+
+    expect(btc.trades.length + eth.trades.length).toBe(result.trades.length);
+    expect(btc.metrics.totalTrades + eth.metrics.totalTrades).toBe(result.metrics?.totalTrades);
+    expect(btc.equityCurve).toHaveLength(result.equityCurve.length);
+
+    const symbolPnl = (btc.equityCurve[btc.equityCurve.length - 1].equity - config.initialCapital)
+      + (eth.equityCurve[eth.equityCurve.length - 1].equity - config.initialCapital);
+    const portfolioEquity = result.equityCurve[result.equityCurve.length - 1].equity;
+    expect(symbolPnl).toBeCloseTo(portfolioEquity - config.initialCapital, 6);
+  });
+
+  it('should fail when a listed symbol has no data', async () => {
+    const config = createTestConfig();
+    const data = createPortfolioData(config);
+    data.delete('ETHUSDT');
+
+    const result = await new BacktestEngine(createPortfolioStrategy(2), config).runPortfolio(data);
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toContain('ETHUSDT');
+  });
+});
+
+describe('BacktestEngine opposite signals', () => {
+  // Long na rosnącej świecy, short na spadającej - sygnały przeciwne co kilka świec
+  function createOppositeStrategy(
+    oppositeSignal?: StrategySchema['entrySignals']['oppositeSignal'],
+    maxOpenPositions = 1
+  ): StrategySchema {
+    return createAlwaysLongStrategy({
+      entrySignals: {
+        long: {
+          conditions: {
+            operator: 'AND',
+            conditions: [{ type: 'greater_than', left: 'close', right: 'open' }],
+          },
+        },
+        short: {
+          conditions: {
+            operator: 'AND',
+            conditions: [{ type: 'less_than', left: 'close', right: 'open' }],
+          },
+        },
+        oppositeSignal,
+      },
+      riskManagement: { maxOpenPositions },
+    });
+  }
+
+  async function runOpposite(strategy: StrategySchema) {
+    const config: BacktestConfig = { ...createTestConfig(), executionTiming: 'same_close' };
+    const data = generateTestData(60, 100, config.startDate.getTime());
+    return runBacktest(strategy, config, data, 'BTCUSDT');
+  }
+
+  it('should ignore opposite signals by default', async () => {
+    const result = await runOpposite(createOppositeStrategy());
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].exitReason).toBe('manual');
+  });
+
+  it('should close the open position without reversing in close mode', async () => {
+    const result = await runOpposite(createOppositeStrategy('close'));
+    const closed = result.trades.filter((t) => t.exitReason === 'opposite_signal');
+
+    expect(closed.length).toBeGreaterThan(0);
+    for (const trade of closed) {
+      expect(result.trades.some((t) => t.entryTime === trade.exitTime)).toBe(false);
+    }
+  });
+
+  it('should close and open the opposite side on the same bar in reverse mode', async () => {
+    const result = await runOpposite(createOppositeStrategy('reverse'));
+    const reversed = result.trades.filter((t) => t.exitReason === 'opposite_signal');
+
+    expect(reversed.length).toBeGreaterThan(1);
+    for (const trade of reversed) {
+      const next = result.trades.find((t) => t.entryTime === trade.exitTime);
+      expect(next?.side).toBe(trade.side === 'long' ? 'short' : 'long');
+    }
+  });
+
+  it('should hold long and short legs at the same time in hedge mode', async () => {
+    const result = await runOpposite(createOppositeStrategy('hedge', 2));
+    const [long] = result.trades.filter((t) => t.side === 'long');
+    const [short] = result.trades.filter((t) => t.side === 'short');
+
+    expect(long && short).toBeTruthy();
+    expect(short.entryTime).toBeLessThan(long.exitTime);
+    expect(long.entryTime).toBeLessThan(short.exitTime);
+    expect(result.trades.every((t) => t.exitReason !== 'opposite_signal')).toBe(true);
+  });
+
+  it('should reject hedge mode with a single open position allowed', async () => {
+    const result = await runOpposite(createOppositeStrategy('hedge', 1));
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toContain('maxOpenPositions');
+  });
+});
+
+describe('BacktestEngine entry rules', () => {
+  const BAR_MS = 14400000;
+
+  // Long na każdej świecy, wyjście po jednej świecy
+  function createRulesStrategy(
+    rules: NonNullable<StrategySchema['entrySignals']['rules']>
+  ): StrategySchema {
+    return createAlwaysLongStrategy({
+      entrySignals: { ...ALWAYS_LONG_ENTRY, rules },
+      exitSignals: { timeout: { bars: 1 } },
+    });
+  }
+
+  async function runRules(rules: NonNullable<StrategySchema['entrySignals']['rules']>) {
+    const config: BacktestConfig = { ...createTestConfig(), executionTiming: 'same_close' };
+    const data = generateTestData(80, 100, config.startDate.getTime());
+    const result = await runBacktest(createRulesStrategy(rules), config, data, 'BTCUSDT');
+    return { result, data };
+  }
+
+  it('should wait the cooldown bars after an exit before entering again', async () => {
+    const { result } = await runRules({ cooldownBars: 2 });
+    const { trades } = result;
+
+    expect(trades.length).toBeGreaterThan(3);
+    for (let i = 1; i < trades.length; i++) {
+      expect((trades[i].entryTime - trades[i - 1].exitTime) / BAR_MS).toBe(3);
+    }
+  });
+
+  it('should limit the number of entries per UTC day', async () => {
+    const { result } = await runRules({ maxTradesPerDay: 2 });
+    const perDay = new Map<number, number>();
+    for (const trade of result.trades) {
+      const day = Math.floor(trade.entryTime / (24 * 3600000));
+      perDay.set(day, (perDay.get(day) ?? 0) + 1);
+    }
+
+    expect(result.trades.length).toBeGreaterThan(2);
+    expect(Math.max(...perDay.values())).toBe(2);
+  });
+
+  it('should block re-entry in the same direction until the reset condition is met', async () => {
+    const { result, data } = await runRules({
+      reentryReset: {
+        long: {
+          operator: 'AND',
+          conditions: [{ type: 'less_than', left: 'close', right: 'open' }],
+        },
+      },
+    });
+    const { trades } = result;
+
+    expect(trades.length).toBeGreaterThan(1);
+    for (let i = 1; i < trades.length; i++) {
+      // Warunek sprawdzany na zamknięciu świec od świecy wyjścia do świecy wejścia
+      const between = data.filter(
+        (c) => c.timestamp >= trades[i - 1].exitTime && c.timestamp <= trades[i].entryTime
+      );
+      expect(between.some((c) => c.close < c.open)).toBe(true);
+    }
+  });
+});
+
+describe('BacktestEngine position-aware exits', () => {
+  const BAR_MS = 14400000;
+
+  function heldFor(bars: number) {
+    return {
+      conditions: {
+        operator: 'AND' as const,
+        conditions: [
+          { type: 'greater_than' as const, left: 'position.barsHeld', right: bars - 1 },
+        ],
+      },
+    };
+  }
+
+  async function runExits(exitSignals: StrategySchema['exitSignals']) {
+    const config: BacktestConfig = { ...createTestConfig(), executionTiming: 'same_close' };
+    const data = generateTestData(60, 100, config.startDate.getTime());
+    return runBacktest(createAlwaysLongStrategy({ exitSignals }), config, data, 'BTCUSDT');
+  }
+
+  it('should exit on signal conditions referencing the open position', async () => {
+    const result = await runExits({ signalExit: heldFor(3) });
+    const exits = result.trades.filter((t) => t.exitReason === 'signal');
+
+    expect(exits.length).toBeGreaterThan(3);
+    exits.forEach((trade) => expect(trade.holdingTime).toBe(3 * BAR_MS));
+  });
+
+  it('should exit on temporal conditions on the same bars as live executeOne', async () => {
+    const exitSignals: StrategySchema['exitSignals'] = {
+      signalExit: {
+        conditions: {
+          operator: 'AND',
+          conditions: [
+            {
+              type: 'true_for',
+              left: 'close',
+              right: 'open',
+              params: { condition: 'greater_than', bars: 2 },
+            },
+          ],
+        },
+      },
+    };
+    const config: BacktestConfig = { ...createTestConfig(), executionTiming: 'same_close' };
+    const data = generateTestData(60, 100, config.startDate.getTime());
+    const result = await runBacktest(
+      createAlwaysLongStrategy({ exitSignals }),
+      config,
+      data,
+      'BTCUSDT'
+    );
+
+    // Live - pozycja otwierana i zamykana na zamknięciu świecy sygnału (od świecy startIndex)
+    const live = new StrategyExecutor(createAlwaysLongStrategy({ exitSignals }));
+    const liveExits: number[] = [];
+    data.forEach((candle, i) => {
+      const { signal } = live.executeOne(candle, data.slice(0, i), 'BTCUSDT');
+      if (i < 5) {
+        return;
+      }
+      if (signal.type === 'entry_long') {
+        live.setPositions('BTCUSDT', [
+          {
+            id: `long-${i}`,
+            symbol: 'BTCUSDT',
+            side: 'long',
+            entryPrice: candle.close,
+            size: 1,
+            entryTime: candle.timestamp,
+          },
+        ]);
+      } else if (signal.type === 'exit_long') {
+        live.setPositions('BTCUSDT', []);
+        liveExits.push(candle.timestamp);
+      }
+    });
+
+    const exits = result.trades.filter((t) => t.exitReason === 'signal').map((t) => t.exitTime);
+    expect(exits.length).toBeGreaterThan(2);
+    expect(exits).toEqual(liveExits);
+  });
+
+  it('should prefer the side-specific exit definition over signalExit', async () => {
+    const result = await runExits({
+      signalExit: heldFor(5),
+      signalExitLong: heldFor(2),
+      signalExitShort: heldFor(1),
+    });
+    const exits = result.trades.filter((t) => t.exitReason === 'signal');
+
+    expect(exits.length).toBeGreaterThan(3);
+    exits.forEach((trade) => expect(trade.holdingTime).toBe(2 * BAR_MS));
+  });
+});
@@ -1,27 +1,63 @@
-import { OHLCV, MultiTimeframeData } from '../types/ohlcv';
-import { StrategySchema } from '../types/strategy';
+import {
+  OHLCV,
+  FundingRate,
+  MultiTimeframeData,
+  buildLowerTfIndex,
+  timeframeToMs,
+} from '../types/ohlcv';
+import { ExitReason, PositionSide, StrategySchema } from '../types/strategy';
 import { Trade, EquityPoint, Signal, Position } from '../types/trading';
 import {
   BacktestConfig,
   BacktestResult,
   BacktestProgress,
   BacktestMetrics,
+  ExecutionTiming,
+  RiskHaltEvent,
+  PortfolioBacktestResult,
+  SymbolBacktestResult,
 } from '../types/backtest';
 import { StrategyExecutor, ExecutionResult } from './strategy-executor';
-import { MarketSimulator } from './market-simulator';
+import { MarketSimulator, TrailingStopInputs } from './market-simulator';
 import { calculateBacktestMetrics } from './metrics-calculator';
 import { calculateATR } from '../indicators/atr';
-import { getConditionEvaluator } from './condition-evaluator';
+import { EvaluationContext, getConditionEvaluator } from './condition-evaluator';
+import { validateStrategy } from './strategy-validator';
 import { randomUUID } from 'crypto';
 
 // Użyj natywnego crypto.randomUUID dla generowania UUID
 const uuidv4 = (): string => randomUUID();
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Callback dla progressu backtestu
  */
 export type ProgressCallback = (progress: BacktestProgress) => void;
 
+/**
+ * Dane symbolu przygotowane do symulacji
+ */
+interface SymbolMarket {
+  symbol: string;
+  data: OHLCV[];
+  results: ExecutionResult[];
+  atrValues: (number | null)[];
+  priceStdevValues?: (number | null)[]; // Sizing 'volatility' ze źródłem 'stdev'
+  intrabarData?: OHLCV[];
+  intrabarIndex?: { start: number; end: number }[];
+  startIndex: number; // Pierwsza świeca z wystarczającą historią
+}
+
+/**
+ * Sygnał rynkowy czekający na wykonanie na następnej świecy (executionTiming next_open / next_bar_vwap)
+ */
+interface DeferredSignal {
+  signal: Signal;
+  atrValue?: number;
+  context: EvaluationContext;
+}
+
 /**
  * Backtest Engine
  * Silnik do przeprowadzania backtestów strategii
@@ -37,11 +73,28 @@ export class BacktestEngine {
   private peakEquity = 0;
   private debugMode = false;
 
+  // Limity ryzyka (maxDailyLoss / maxDrawdown)
+  private haltEvents: RiskHaltEvent[] = [];
+  private tradingHalted = false;
+  private dailyHaltUntil = 0;
+  private currentDay = -1;
+  private dayStartEquity = 0;
+
+  // Ostatnia przetworzona świeca i equity per symbol (backtest portfelowy)
+  private lastCandles = new Map<string, OHLCV>();
+  private symbolEquityCurves = new Map<string, EquityPoint[]>();
+  private symbolPeakEquity = new Map<string, number>();
+  private symbolRealizedPnl = new Map<string, number>();
+  private realizedTrades = 0; // Liczba transakcji ujętych w symbolRealizedPnl
+
+  // Liczba transakcji przekazanych do executora (cooldown / ponowne wejścia)
+  private syncedTrades = 0;
+
   constructor(strategy: StrategySchema, config: BacktestConfig) {
     this.strategy = strategy;
     this.config = config;
     this.executor = new StrategyExecutor(strategy);
-    this.simulator = new MarketSimulator(config);
+    this.simulator = new MarketSimulator(config, strategy.riskManagement);
   }
 
   /**
@@ -58,17 +111,187 @@ export class BacktestEngine {
    * @param data - dane głównego timeframe'u
    * @param symbol - symbol
    * @param onProgress - callback progressu
-   * @param multiTfData - opcjonalne dane dla innych timeframe'ów
+   * @param multiTfData - opcjonalne dane dla innych timeframe'ów (dane '1m' służą do fillModel 'realistic')
+   * @param fundingRates - opcjonalna historia funding rate (używana gdy config.funding.enabled)
    */
   async run(
     data: OHLCV[],
     symbol: string,
     onProgress?: ProgressCallback,
-    multiTfData?: MultiTimeframeData
+    multiTfData?: MultiTimeframeData,
+    fundingRates?: FundingRate[]
   ): Promise<BacktestResult> {
     const backtestId = uuidv4();
     const startTime = Date.now();
 
+    // Odrzuć strategie z konfiguracją, która zostałaby po cichu pominięta
+    const validation = validateStrategy(this.strategy);
+    if (!validation.valid) {
+      return this.createErrorResult(
+        backtestId,
+        `Invalid strategy: ${validation.errors.join('; ')}`
+      );
+    }
+
+    const market = this.prepareMarket(data, symbol, multiTfData);
+    if (typeof market === 'string') {
+      return this.createErrorResult(backtestId, market);
+    }
+
+    // Reset stanu
+    this.reset();
+    this.peakEquity = this.config.initialCapital;
+    if (fundingRates) {
+      this.simulator.setFundingRates(symbol, fundingRates);
+    }
+
+    await this.simulate([market], backtestId, startTime, onProgress, false);
+
+    // Oblicz metryki
+    const trades = this.simulator.getTrades();
+    const metrics = calculateBacktestMetrics(
+      trades,
+      this.equityCurve,
+      this.config.initialCapital,
+      market.data[0].timestamp,
+      market.data[market.data.length - 1].timestamp
+    );
+
+    // Zwróć wynik
+    return {
+      id: backtestId,
+      strategyId: this.strategy.id,
+      strategyVersion: this.strategy.version,
+      config: this.config,
+      status: 'completed',
+      metrics,
+      trades,
+      equityCurve: this.equityCurve,
+      orders: this.simulator.getOrders(),
+      haltEvents: this.haltEvents,
+      executionTiming: this.getExecutionTiming(),
+      startedAt: new Date(startTime),
+      completedAt: new Date(),
+      duration: Date.now() - startTime,
+      totalCandles: market.results.length,
+      processedCandles: market.results.length - market.startIndex,
+    };
+  }
+
+  /**
+   * Uruchom backtest portfelowy - wszystkie symbole z dataRequirements.symbols
+   * na wspólnej osi czasu, ze wspólnym kapitałem i limitami ryzyka
+   * Metryki i equity per symbol liczone z wyniku symbolu względem całego kapitału początkowego
+   * @param data - dane głównego timeframe'u per symbol
+   * @param multiTfData - opcjonalne dane innych timeframe'ów per symbol
+   * @param fundingRates - opcjonalna historia funding rate per symbol
+   */
+  async runPortfolio(
+    data: Map<string, OHLCV[]>,
+    onProgress?: ProgressCallback,
+    multiTfData?: Map<string, MultiTimeframeData>,
+    fundingRates?: Map<string, FundingRate[]>
+  ): Promise<PortfolioBacktestResult> {
+    const backtestId = uuidv4();
+    const startTime = Date.now();
+    const symbols = this.strategy.dataRequirements.symbols;
+    const createError = (error: string): PortfolioBacktestResult => ({
+      ...this.createErrorResult(backtestId, error),
+      symbols,
+      symbolResults: {},
+    });
+
+    const validation = validateStrategy(this.strategy);
+    if (!validation.valid) {
+      return createError(`Invalid strategy: ${validation.errors.join('; ')}`);
+    }
+
+    if (symbols.length === 0) {
+      return createError('No symbols listed in dataRequirements.symbols');
+    }
+
+    const markets: SymbolMarket[] = [];
+    for (const symbol of symbols) {
+      const market = this.prepareMarket(data.get(symbol) ?? [], symbol, multiTfData?.get(symbol));
+      if (typeof market === 'string') {
+        return createError(`${symbol}: ${market}`);
+      }
+      markets.push(market);
+    }
+
+    // Reset stanu
+    this.reset();
+    this.peakEquity = this.config.initialCapital;
+    for (const symbol of symbols) {
+      const rates = fundingRates?.get(symbol);
+      if (rates) {
+        this.simulator.setFundingRates(symbol, rates);
+      }
+    }
+
+    await this.simulate(markets, backtestId, startTime, onProgress, true);
+
+    const firstTimestamp = Math.min(...markets.map((m) => m.data[0].timestamp));
+    const lastTimestamp = Math.max(...markets.map((m) => m.data[m.data.length - 1].timestamp));
+    const trades = this.simulator.getTrades();
+
+    const symbolResults: Record<string, SymbolBacktestResult> = {};
+    for (const symbol of symbols) {
+      const symbolTrades = trades.filter((t) => t.symbol === symbol);
+      const equityCurve = this.symbolEquityCurves.get(symbol) ?? [];
+      symbolResults[symbol] = {
+        symbol,
+        metrics: calculateBacktestMetrics(
+          symbolTrades,
+          equityCurve,
+          this.config.initialCapital,
+          firstTimestamp,
+          lastTimestamp
+        ),
+        trades: symbolTrades,
+        equityCurve,
+      };
+    }
+
+    const totalCandles = markets.reduce((sum, m) => sum + m.results.length, 0);
+
+    return {
+      id: backtestId,
+      strategyId: this.strategy.id,
+      strategyVersion: this.strategy.version,
+      config: this.config,
+      status: 'completed',
+      metrics: calculateBacktestMetrics(
+        trades,
+        this.equityCurve,
+        this.config.initialCapital,
+        firstTimestamp,
+        lastTimestamp
+      ),
+      trades,
+      equityCurve: this.equityCurve,
+      orders: this.simulator.getOrders(),
+      haltEvents: this.haltEvents,
+      executionTiming: this.getExecutionTiming(),
+      symbols,
+      symbolResults,
+      startedAt: new Date(startTime),
+      completedAt: new Date(),
+      duration: Date.now() - startTime,
+      totalCandles,
+      processedCandles: totalCandles - markets.reduce((sum, m) => sum + m.startIndex, 0),
+    };
+  }
+
+  /**
+   * Przygotuj dane symbolu: filtr dat, ATR, świece 1m, sygnały strategii
+   * Zwraca komunikat błędu gdy danych jest za mało
+   */
+  private prepareMarket(
+    data: OHLCV[],
+    symbol: string,
+    multiTfData?: MultiTimeframeData
+  ): SymbolMarket | string {
     // Filtruj dane według zakresu dat
     const filteredData = this.filterDataByDateRange(data);
     
@@ -78,109 +301,274 @@ export class BacktestEngine {
       : undefined;
 
     if (filteredData.length === 0) {
-      return this.createErrorResult(
-        backtestId,
-        'No data available for the specified date range'
-      );
+      return 'No data available for the specified date range';
     }
 
     // Sprawdź czy mamy wystarczająco danych
     const requiredPeriods = this.executor.getRequiredPeriods();
     if (filteredData.length < requiredPeriods) {
-      return this.createErrorResult(
-        backtestId,
-        `Insufficient data. Required: ${requiredPeriods} candles, Available: ${filteredData.length}`
-      );
+      return `Insufficient data. Required: ${requiredPeriods} candles, Available: ${filteredData.length}`;
     }
 
-    // Reset stanu
-    this.reset();
-    this.peakEquity = this.config.initialCapital;
-
     // Oblicz ATR dla całego zestawu danych (potrzebne do SL/TP)
     const atrPeriod = this.strategy.exitSignals.stopLoss?.atrPeriod || 14;
     const atrValues = calculateATR(filteredData, atrPeriod);
 
+    // Odchylenie standardowe zmian ceny dla sizingu 'volatility'
+    const sizing = this.strategy.riskManagement.sizing;
+    const priceStdevValues = sizing?.mode === 'volatility' && sizing.volatilitySource === 'stdev'
+      ? this.calculatePriceStdev(filteredData, sizing.volatilityPeriod ?? 20)
+      : undefined;
+
+    // Świece 1m wewnątrz każdej świecy
+    // (kolejność SL/TP dla fillModel 'realistic', cena wykonania dla 'next_bar_vwap')
+    const intrabarData =
+      this.config.fillModel === 'realistic' || this.getExecutionTiming() === 'next_bar_vwap'
+        ? filteredMultiTfData?.get('1m')
+        : undefined;
+    const intrabarIndex = intrabarData && intrabarData.length > 0
+      ? buildLowerTfIndex(filteredData, intrabarData, this.strategy.dataRequirements.primaryTimeframe)
+      : undefined;
+
     // Wykonaj strategię na wszystkich danych (z danymi multi-TF)
-    const executionResults = this.executor.execute(filteredData, symbol, filteredMultiTfData);
+    const results = this.executor.execute(filteredData, symbol, filteredMultiTfData);
 
-    // Iteruj po wynikach i symuluj trading
-    const totalCandles = executionResults.length;
+    return {
+      symbol,
+      data: filteredData,
+      results,
+      atrValues,
+      priceStdevValues,
+      intrabarData,
+      intrabarIndex,
+      startIndex: requiredPeriods,
+    };
+  }
 
-    for (let i = requiredPeriods; i < totalCandles; i++) {
-      const result = executionResults[i];
-      const candle = filteredData[i];
-      const atrValue = atrValues[i] as number | null;
+  /**
+   * Symuluj trading na wspólnej osi czasu wszystkich symboli
+   * Na każdym znaczniku czasu: SL/TP i timeouty wszystkich symboli, limity ryzyka,
+   * sygnały w kolejności symboli, punkt equity
+   * @param trackSymbols - zapisuj equity per symbol (tylko backtest portfelowy)
+   */
+  private async simulate(
+    markets: SymbolMarket[],
+    backtestId: string,
+    startTime: number,
+    onProgress: ProgressCallback | undefined,
+    trackSymbols: boolean
+  ): Promise<void> {
+    const timeline = [
+      ...new Set(
+        markets.flatMap((m) => m.data.slice(m.startIndex).map((candle) => candle.timestamp))
+      ),
+    ].sort((a, b) => a - b);
+    const cursors = markets.map((m) => m.startIndex);
+    const timing = this.getExecutionTiming();
+    const deferred = new Map<string, DeferredSignal>();
+
+    // Warunki czasowe wyjść obserwowane od początku danych - jak w live, gdzie executor
+    // widzi każdą świecę (stan z execute() kończy się na ostatniej świecy)
+    for (const market of markets) {
+      for (let i = 0; i < market.startIndex; i++) {
+        this.executor.updateExitState(market.results[i].context);
+      }
+    }
+
+    for (let t = 0; t < timeline.length; t++) {
+      const timestamp = timeline[t];
+
+      // Symbole ze świecą na tym znaczniku czasu
+      const active: { market: SymbolMarket; index: number }[] = [];
+      markets.forEach((market, m) => {
+        if (market.data[cursors[m]]?.timestamp === timestamp) {
+          active.push({ market, index: cursors[m]++ });
+        }
+      });
+
+      // Nowy dzień UTC - punkt odniesienia dla maxDailyLoss
+      const day = Math.floor(timestamp / DAY_MS);
+      if (day !== this.currentDay) {
+        this.currentDay = day;
+        this.dayStartEquity = this.simulator.getPortfolio().equity;
+      }
 
-      // Przetwórz świecę (sprawdź SL/TP)
-      const closedTrades = this.simulator.processCandle(candle, symbol);
+      for (const { market, index } of active) {
+        const { symbol } = market;
+        const candle = market.data[index];
+        this.lastCandles.set(symbol, candle);
+
+        // Sygnał z poprzedniej świecy wykonany na otwarciu (pozycja podlega SL/TP tej świecy)
+        const pending = deferred.get(symbol);
+        deferred.delete(symbol);
+        if (pending && timing === 'next_open') {
+          await this.executeDeferredSignal(pending, candle, symbol, candle.open);
+        }
+
+        // Przetwórz świecę (sprawdź SL/TP)
+        const intrabarRange = market.intrabarIndex?.[index];
+        const intrabarCandles = market.intrabarData && intrabarRange
+          ? market.intrabarData.slice(intrabarRange.start, intrabarRange.end)
+          : undefined;
+        this.simulator.processCandle(
+          candle,
+          symbol,
+          intrabarCandles,
+          this.getTrailingStopInputs(
+            market.data,
+            index,
+            market.atrValues[index] ?? undefined,
+            market.results[index].context
+          )
+        );
 
-      // Jeśli zamknięto pozycję, wyczyść stan executora
-      if (closedTrades.length > 0) {
-        this.executor.setPosition(symbol, null);
+        // Wyjście czasowe na zamknięciu świecy (ta sama logika co w live - StrategyExecutor)
+        for (const position of this.simulator.getSymbolPositions(symbol)) {
+          if (this.executor.shouldTimeout(position, candle.timestamp, candle.close)) {
+            this.simulator.closePosition(position, candle.close, candle.timestamp, 'timeout');
+          }
+        }
+
+        // Wykonanie rozłożone na całą świecę - pozycja podlega SL/TP od następnej
+        if (pending && timing === 'next_bar_vwap') {
+          await this.executeDeferredSignal(pending, candle, symbol, this.getBarVwap(market, index));
+        }
+
+        // ATR znany po zamknięciu świecy - poślizg wyjść z kolejnej świecy (model 'atr')
+        this.simulator.setAtr(symbol, market.atrValues[index] ?? undefined);
+        if (market.priceStdevValues) {
+          this.simulator.setPriceStdev(symbol, market.priceStdevValues[index] ?? undefined);
+        }
       }
 
-      // Przetwórz sygnał
-      await this.processSignal(
-        result.signal,
-        candle,
-        symbol,
-        atrValue ?? undefined
-      );
+      // Limity ryzyka na zamknięciu świecy (zrealizowany + niezrealizowany wynik)
+      this.checkRiskLimits(timestamp);
+
+      for (const { market, index } of active) {
+        const { symbol } = market;
+        const result = market.results[index];
+
+        const atrValue = market.atrValues[index] ?? undefined;
+
+        // Synchronizuj stan executora (pozycje zamknięte przez SL/TP lub otwarte ze zleceń limit/stop)
+        // i sprawdź warunki odblokowania ponownych wejść na zamknięciu świecy
+        this.syncExecutor(symbol);
+        this.executor.updateEntryState(symbol, result.context);
+
+        // Warunki signalExit zależą od pozycji - sprawdzane teraz (pierwszeństwo przed wejściem)
+        // Obserwacja warunków czasowych na każdej świecy, także bez pozycji danej strony
+        const candle = market.data[index];
+        this.executor.updateExitState(result.context);
+        const signal =
+          this.executor.getExitSignal(symbol, result.context, candle.timestamp) ?? result.signal;
+
+        // Sygnał rynkowy wykonywany na następnej świecy (limit / stop_market składane od razu)
+        const isOrder = signal.orderType === 'limit' || signal.orderType === 'stop_market';
+        if (timing !== 'same_close' && signal.type !== 'none' && !isOrder) {
+          deferred.set(symbol, { signal, atrValue, context: result.context });
+          continue;
+        }
+
+        // Przetwórz sygnał
+        await this.processSignal(
+          signal,
+          candle,
+          symbol,
+          atrValue,
+          result.context
+        );
+      }
 
       // Zapisz punkt equity curve
-      this.recordEquityPoint(candle.timestamp);
+      this.recordEquityPoint(timestamp);
+      if (trackSymbols) {
+        this.recordSymbolEquityPoints(timestamp, markets);
+      }
 
       // Raportuj progress
-      if (onProgress && i % 100 === 0) {
+      if (onProgress && t % 100 === 0) {
         onProgress({
           backtestId,
-          progress: Math.round(((i - requiredPeriods) / (totalCandles - requiredPeriods)) * 100),
-          processedCandles: i - requiredPeriods,
-          totalCandles: totalCandles - requiredPeriods,
-          currentDate: new Date(candle.timestamp),
-          eta: this.estimateTimeRemaining(startTime, i - requiredPeriods, totalCandles - requiredPeriods),
+          progress: Math.round((t / timeline.length) * 100),
+          processedCandles: t,
+          totalCandles: timeline.length,
+          currentDate: new Date(timestamp),
+          eta: this.estimateTimeRemaining(startTime, t, timeline.length),
         });
       }
     }
 
-    // Zamknij pozostałe pozycje na ostatniej świecy
-    const lastCandle = filteredData[filteredData.length - 1];
-    for (const position of this.simulator.getOpenPositions()) {
-      this.simulator.closePosition(
-        position,
-        lastCandle.close,
-        lastCandle.timestamp,
-        'manual'
-      );
-    }
+    // Zamknij pozostałe pozycje i anuluj zlecenia na ostatniej świecy
+    const lastTimestamp = Math.max(...markets.map((m) => m.data[m.data.length - 1].timestamp));
+    this.simulator.cancelPendingOrders(lastTimestamp, 'end_of_backtest');
+    this.closeAllPositions('manual');
+  }
 
-    // Oblicz metryki
-    const trades = this.simulator.getTrades();
-    const metrics = calculateBacktestMetrics(
-      trades,
-      this.equityCurve,
-      this.config.initialCapital,
-      filteredData[0].timestamp,
-      lastCandle.timestamp
+  /**
+   * Wykonaj odłożony sygnał na bieżącej świecy po podanej cenie
+   */
+  private async executeDeferredSignal(
+    deferred: DeferredSignal,
+    candle: OHLCV,
+    symbol: string,
+    fillPrice: number
+  ): Promise<void> {
+    this.syncExecutor(symbol);
+    await this.processSignal(
+      { ...deferred.signal, price: fillPrice, timestamp: candle.timestamp },
+      candle,
+      symbol,
+      deferred.atrValue,
+      deferred.context
     );
+  }
 
-    // Zwróć wynik
-    return {
-      id: backtestId,
-      strategyId: this.strategy.id,
-      strategyVersion: this.strategy.version,
-      config: this.config,
-      status: 'completed',
-      metrics,
-      trades,
-      equityCurve: this.equityCurve,
-      startedAt: new Date(startTime),
-      completedAt: new Date(),
-      duration: Date.now() - startTime,
-      totalCandles: totalCandles,
-      processedCandles: totalCandles - requiredPeriods,
-    };
+  /**
+   * Kroczące odchylenie standardowe zmian ceny zamknięcia (w jednostkach ceny)
+   */
+  private calculatePriceStdev(data: OHLCV[], period: number): (number | null)[] {
+    return data.map((_, i) => {
+      if (i < period) {
+        return null;
+      }
+
+      const changes = data
+        .slice(i - period + 1, i + 1)
+        .map((candle, j) => candle.close - data[i - period + j].close);
+      const mean = changes.reduce((sum, change) => sum + change, 0) / period;
+      const variance = changes.reduce((sum, change) => sum + (change - mean) ** 2, 0) / period;
+
+      return Math.sqrt(variance);
+    });
+  }
+
+  /**
+   * VWAP świecy ze świec 1m (cena typowa ważona wolumenem), bez danych 1m - HLC3
+   */
+  private getBarVwap(market: SymbolMarket, index: number): number {
+    const candle = market.data[index];
+    const range = market.intrabarIndex?.[index];
+    const minuteCandles = market.intrabarData && range
+      ? market.intrabarData.slice(range.start, range.end)
+      : [];
+
+    const volume = minuteCandles.reduce((sum, c) => sum + c.volume, 0);
+    if (volume > 0) {
+      return minuteCandles.reduce(
+        (sum, c) => sum + ((c.high + c.low + c.close) / 3) * c.volume,
+        0
+      ) / volume;
+    }
+
+    return (candle.high + candle.low + candle.close) / 3;
+  }
+
+  /**
+   * Moment wykonania sygnałów (domyślnie zamknięcie świecy sygnału - jak przed wprowadzeniem
+   * trybów, żeby istniejące konfiguracje dawały te same wyniki)
+   */
+  private getExecutionTiming(): ExecutionTiming {
+    return this.config.executionTiming ?? 'same_close';
   }
 
   /**
@@ -190,43 +578,227 @@ export class BacktestEngine {
     signal: Signal,
     candle: OHLCV,
     symbol: string,
-    atrValue?: number
+    atrValue?: number,
+    context?: EvaluationContext
   ): Promise<void> {
     // Sprawdź czy już mamy otwartą pozycję
     const hasPosition = this.simulator.hasOpenPosition(symbol);
 
-    // Obsłuż sygnały wyjścia
+    // Obsłuż sygnały wyjścia - zamykają wszystkie nogi danej strony
     if (hasPosition && (signal.type === 'exit_long' || signal.type === 'exit_short')) {
-      const position = this.simulator.getOpenPosition(symbol);
-      if (position) {
-        this.simulator.closePosition(
-          position,
-          signal.price,
-          candle.timestamp,
-          'signal'
-        );
-        this.executor.setPosition(symbol, null);
-      }
+      const side = signal.type === 'exit_long' ? 'long' : 'short';
+      const reason: ExitReason =
+        signal.reason === 'timeout' || signal.reason === 'opposite_signal' ? signal.reason : 'signal';
+      this.closeSide(symbol, side, signal.price, candle.timestamp, reason);
       return;
     }
 
     // Obsłuż sygnały wejścia
-    if (!hasPosition && (signal.type === 'entry_long' || signal.type === 'entry_short')) {
+    // (executor decyduje o pyramidingu i sygnałach przeciwnych do otwartej pozycji)
+    if (signal.type === 'entry_long' || signal.type === 'entry_short') {
+      const side = signal.type === 'entry_long' ? 'long' : 'short';
+      const action = this.executor.getEntryAction(symbol, side, signal.price, candle.timestamp);
+      if (action === 'ignore') {
+        return;
+      }
+
+      // Zamknięcie / odwrócenie pozycji przeciwnej (także przy wstrzymanym handlu)
+      if (action === 'close' || action === 'reverse') {
+        const opposite = side === 'long' ? 'short' : 'long';
+        this.closeSide(symbol, opposite, signal.price, candle.timestamp, 'opposite_signal');
+        if (action === 'close') {
+          return;
+        }
+      }
+
+      // Handel wstrzymany przez limit ryzyka
+      if (this.isTradingHalted(candle.timestamp)) {
+        return;
+      }
+
+      // Oczekujące zlecenia wejścia zajmują miejsce pozycji (wszystkie mogą się wypełnić)
+      // Nowe zlecenie limit / stop_market zastępuje zlecenia swojego symbolu
+      const isOrder = signal.orderType === 'limit' || signal.orderType === 'stop_market';
+      const pendingEntries = this.simulator
+        .getPendingOrders()
+        .filter((order) => !isOrder || order.symbol !== symbol).length;
+      const maxOpenPositions = Math.max(1, this.strategy.riskManagement.maxOpenPositions || 1);
+      if (this.simulator.getOpenPositions().length + pendingEntries >= maxOpenPositions) {
+        return;
+      }
+
+      // SL/TP typu 'pivot' / 'indicator' - poziomy odczytane w chwili sygnału
+      const { stopLoss, takeProfit } = this.strategy.exitSignals;
+      const stopLossConfig = context
+        ? this.executor.resolveExitLevel(stopLoss, 'stop_loss', side, context)
+        : stopLoss;
+      const takeProfitConfig = context
+        ? this.executor.resolveExitLevel(takeProfit, 'take_profit', side, context)
+        : takeProfit;
+
+      // Brak poziomu (np. wskaźnik jeszcze bez wartości) - nie otwieraj pozycji bez SL/TP
+      if (stopLossConfig === null || takeProfitConfig === null) {
+        return;
+      }
+
+      // Zlecenie limit / stop_market - pozycja otworzy się po wypełnieniu na kolejnych świecach
+      if (signal.orderType === 'limit' || signal.orderType === 'stop_market') {
+        this.simulator.placeEntryOrder(
+          signal,
+          candle,
+          symbol,
+          stopLossConfig,
+          takeProfitConfig,
+          this.strategy.exitSignals.trailingStop,
+          this.strategy.riskManagement.riskPerTrade,
+          atrValue,
+          timeframeToMs(this.strategy.dataRequirements.primaryTimeframe)
+        );
+        return;
+      }
+
       const position = this.simulator.openPosition(
         signal,
         candle,
         symbol,
-        this.strategy.exitSignals.stopLoss,
-        this.strategy.exitSignals.takeProfit,
+        stopLossConfig,
+        takeProfitConfig,
         this.strategy.exitSignals.trailingStop,
         this.strategy.riskManagement.riskPerTrade,
         atrValue
       );
 
       if (position) {
-        this.executor.setPosition(symbol, position);
+        this.syncExecutor(symbol);
+      }
+    }
+  }
+
+  /**
+   * Przekaż executorowi nowe transakcje i bieżące pozycje symbolu
+   */
+  private syncExecutor(symbol: string): void {
+    for (const trade of this.simulator.getTradesSince(this.syncedTrades)) {
+      this.executor.recordTrade(trade);
+      this.syncedTrades++;
+    }
+
+    this.executor.setPositions(symbol, this.simulator.getSymbolPositions(symbol));
+  }
+
+  /**
+   * Zamknij wszystkie nogi danej strony symbolu i zsynchronizuj stan executora
+   */
+  private closeSide(
+    symbol: string,
+    side: PositionSide,
+    price: number,
+    timestamp: number,
+    reason: ExitReason
+  ): void {
+    for (const position of this.simulator.getSymbolPositions(symbol)) {
+      if (position.side === side) {
+        this.simulator.closePosition(position, price, timestamp, reason);
+      }
+    }
+    this.syncExecutor(symbol);
+  }
+
+  /**
+   * Sprawdź limity ryzyka portfela i zapisz zdarzenia wstrzymania handlu
+   */
+  private checkRiskLimits(timestamp: number): void {
+    const { maxDailyLoss, maxDrawdown, closeOnMaxDrawdown } = this.strategy.riskManagement;
+    const equity = this.simulator.getPortfolio().equity;
+
+    if (maxDrawdown && !this.tradingHalted) {
+      const peak = Math.max(this.peakEquity, equity);
+      const drawdownPercent = ((peak - equity) / peak) * 100;
+
+      if (drawdownPercent >= maxDrawdown) {
+        this.tradingHalted = true;
+        this.simulator.cancelPendingOrders(timestamp, 'risk_limit');
+        this.haltEvents.push({
+          timestamp,
+          type: 'max_drawdown',
+          value: drawdownPercent,
+          limit: maxDrawdown,
+          closedPositions: closeOnMaxDrawdown ? this.closeAllPositions('risk_limit') : 0,
+        });
+      }
+    }
+
+    if (maxDailyLoss && this.dayStartEquity > 0 && !this.isTradingHalted(timestamp)) {
+      const dailyLossPercent = ((this.dayStartEquity - equity) / this.dayStartEquity) * 100;
+
+      if (dailyLossPercent >= maxDailyLoss) {
+        this.dailyHaltUntil = (this.currentDay + 1) * DAY_MS;
+        this.simulator.cancelPendingOrders(timestamp, 'risk_limit');
+        this.haltEvents.push({
+          timestamp,
+          type: 'max_daily_loss',
+          value: dailyLossPercent,
+          limit: maxDailyLoss,
+          resumesAt: this.dailyHaltUntil,
+          closedPositions: 0,
+        });
+      }
+    }
+  }
+
+  /**
+   * Czy nowe wejścia są zablokowane przez limity ryzyka
+   */
+  private isTradingHalted(timestamp: number): boolean {
+    return this.tradingHalted || timestamp < this.dailyHaltUntil;
+  }
+
+  /**
+   * Zamknij wszystkie otwarte pozycje po cenie zamknięcia ostatniej świecy ich symbolu
+   * Zwraca liczbę zamkniętych pozycji
+   */
+  private closeAllPositions(reason: ExitReason): number {
+    const positions = this.simulator.getOpenPositions();
+    for (const position of positions) {
+      const candle = this.lastCandles.get(position.symbol);
+      if (candle) {
+        this.simulator.closePosition(position, candle.close, candle.timestamp, reason);
       }
     }
+    return positions.length;
+  }
+
+  /**
+   * Dane do przesunięcia trailing stopów na bieżącej świecy (ATR, okno chandelier, linia wskaźnika)
+   */
+  private getTrailingStopInputs(
+    data: OHLCV[],
+    index: number,
+    atrValue: number | undefined,
+    context: EvaluationContext
+  ): TrailingStopInputs | undefined {
+    const config = this.strategy.exitSignals.trailingStop;
+    if (!config?.enabled) {
+      return undefined;
+    }
+
+    const inputs: TrailingStopInputs = { atr: atrValue };
+
+    if (config.type === 'chandelier') {
+      const period = config.chandelierPeriod ?? 22;
+      const window = data.slice(Math.max(0, index - period + 1), index + 1);
+      inputs.highestHigh = Math.max(...window.map((c) => c.high));
+      inputs.lowestLow = Math.min(...window.map((c) => c.low));
+    }
+
+    if (config.type === 'indicator' && config.reference) {
+      const evaluator = getConditionEvaluator();
+      inputs.longLevel = evaluator.resolveValue(config.reference, context) ?? undefined;
+      inputs.shortLevel =
+        evaluator.resolveValue(config.shortReference ?? config.reference, context) ?? undefined;
+    }
+
+    return inputs;
   }
 
   /**
@@ -252,9 +824,46 @@ export class BacktestEngine {
       drawdown,
       drawdownPercent,
       openPositions: portfolio.openPositions.length,
+      marginUsed: portfolio.marginUsed,
+      marginUsagePercent: equity > 0 ? (portfolio.marginUsed / equity) * 100 : 0,
     });
   }
 
+  /**
+   * Zapisz punkty equity per symbol
+   * Equity symbolu = kapitał początkowy + zrealizowany i niezrealizowany wynik symbolu
+   */
+  private recordSymbolEquityPoints(timestamp: number, markets: SymbolMarket[]): void {
+    // Zrealizowany wynik narastająco - tylko transakcje zamknięte od poprzedniego punktu
+    const realized = this.symbolRealizedPnl;
+    for (const trade of this.simulator.getTradesSince(this.realizedTrades)) {
+      realized.set(trade.symbol, (realized.get(trade.symbol) ?? 0) + trade.netPnl);
+      this.realizedTrades++;
+    }
+
+    for (const { symbol } of markets) {
+      const positions = this.simulator.getSymbolPositions(symbol);
+      const unrealized = positions.reduce((sum, p) => sum + (p.unrealizedPnl ?? 0), 0);
+      const equity = this.config.initialCapital + (realized.get(symbol) ?? 0) + unrealized;
+
+      const peak = Math.max(this.symbolPeakEquity.get(symbol) ?? this.config.initialCapital, equity);
+      this.symbolPeakEquity.set(symbol, peak);
+
+      const margin = positions.reduce((sum, p) => sum + (p.margin ?? 0), 0);
+      const curve = this.symbolEquityCurves.get(symbol) ?? [];
+      curve.push({
+        timestamp,
+        equity,
+        drawdown: peak - equity,
+        drawdownPercent: ((peak - equity) / peak) * 100,
+        openPositions: positions.length,
+        marginUsed: margin,
+        marginUsagePercent: equity > 0 ? (margin / equity) * 100 : 0,
+      });
+      this.symbolEquityCurves.set(symbol, curve);
+    }
+  }
+
   /**
    * Filtruj dane według zakresu dat
    */
@@ -327,6 +936,17 @@ export class BacktestEngine {
     this.equityCurve = [];
     this.currentDrawdown = 0;
     this.peakEquity = 0;
+    this.haltEvents = [];
+    this.tradingHalted = false;
+    this.dailyHaltUntil = 0;
+    this.currentDay = -1;
+    this.dayStartEquity = 0;
+    this.lastCandles.clear();
+    this.symbolEquityCurves.clear();
+    this.symbolPeakEquity.clear();
+    this.symbolRealizedPnl.clear();
+    this.realizedTrades = 0;
+    this.syncedTrades = 0;
     this.simulator.reset();
   }
 
@@ -354,8 +974,24 @@ export async function runBacktest(
   data: OHLCV[],
   symbol: string,
   onProgress?: ProgressCallback,
-  multiTfData?: MultiTimeframeData
+  multiTfData?: MultiTimeframeData,
+  fundingRates?: FundingRate[]
 ): Promise<BacktestResult> {
   const engine = new BacktestEngine(strategy, config);
-  return engine.run(data, symbol, onProgress, multiTfData);
+  return engine.run(data, symbol, onProgress, multiTfData, fundingRates);
+}
+
+/**
+ * Utwórz i uruchom backtest portfelowy
+ */
+export async function runPortfolioBacktest(
+  strategy: StrategySchema,
+  config: BacktestConfig,
+  data: Map<string, OHLCV[]>,
+  onProgress?: ProgressCallback,
+  multiTfData?: Map<string, MultiTimeframeData>,
+  fundingRates?: Map<string, FundingRate[]>
+): Promise<PortfolioBacktestResult> {
+  const engine = new BacktestEngine(strategy, config);
+  return engine.runPortfolio(data, onProgress, multiTfData, fundingRates);
 }
@@ -190,6 +190,60 @@ describe('ConditionEvaluator', () => {
       expect(evaluator.evaluateCondition(condition, baseContext)).toBe(true);
     });
 
+    it('should resolve lookback offsets and window functions from context history', () => {
+      const closes = [101, 99, 104, 97];
+      const rsi = [55, 48, 62, 40, 52];
+      const context: EvaluationContext = {
+        ...baseContext,
+        lookback: (ref, offset) =>
+          ref === 'close' ? closes[offset] ?? null : ref === 'rsi' ? rsi[offset] ?? null : null,
+      };
+
+      expect(evaluator.resolveValue('close[3]', context)).toBe(97);
+      expect(evaluator.resolveValue('highest(close, 3)', context)).toBe(104);
+      expect(evaluator.resolveValue('rsi[1]', context, true)).toBe(62);
+      expect(
+        evaluator.evaluateCondition(
+          { type: 'crosses_above', left: 'rsi', right: 'avg(rsi[1], 3)' },
+          { ...context, previous: { ...baseContext, indicators: { rsi: 48 } } }
+        )
+      ).toBe(true);
+      expect(evaluator.resolveValue('lowest(close, 5)', context)).toBeNull();
+      expect(evaluator.resolveValue('close[4]', context)).toBeNull();
+    });
+
+    it('should fall back to the previous candle for one-bar offsets without history', () => {
+      const context: EvaluationContext = {
+        ...baseContext,
+        previous: { ...baseContext, price: { ...baseContext.price, close: 95 } },
+      };
+
+      expect(evaluator.resolveValue('close[1]', context)).toBe(95);
+      expect(evaluator.resolveValue('close[2]', context)).toBeNull();
+    });
+
+    it('should resolve position references only when a position is present', () => {
+      const context: EvaluationContext = {
+        ...baseContext,
+        position: {
+          side: 'short',
+          entryPrice: 105,
+          barsHeld: 12,
+          unrealizedPnlPercent: 3.8,
+          rMultiple: 2.5,
+          maxFavorableExcursion: 4.2,
+        },
+      };
+      const condition: Condition = { type: 'greater_than', left: 'position.rMultiple', right: 2 };
+
+      expect(evaluator.evaluateCondition(condition, context)).toBe(true);
+      expect(evaluator.evaluateCondition(condition, baseContext)).toBe(false);
+      expect(evaluator.resolveValue('position.side', context)).toBe(-1);
+      expect(evaluator.resolveValue('position.barsHeld', context)).toBe(12);
+      expect(evaluator.resolveValue('position.entryPrice', context, true)).toBeNull();
+      expect(evaluator.resolveValue('close[0] - position.entryPrice', context)).toBe(-4);
+    });
+
     it('should return false for null values', () => {
       baseContext.indicators['nullIndicator'] = null;
 
@@ -203,6 +257,88 @@ describe('ConditionEvaluator', () => {
     });
   });
 
+  describe('temporal conditions', () => {
+    function bar(i: number, close: number, rsi: number, prev?: EvaluationContext) {
+      const context: EvaluationContext = {
+        ...baseContext,
+        indicators: { ...baseContext.indicators, rsi },
+        price: { ...baseContext.price, close },
+        bar: { key: 'BTCUSDT', timestamp: i * 60000 },
+      };
+      if (prev) {
+        context.previous = { indicators: prev.indicators, variables: {}, price: prev.price };
+      }
+      return context;
+    }
+
+    function run(condition: Condition, rsi: number[], closes = rsi.map(() => 100)): boolean[] {
+      let prev: EvaluationContext | undefined;
+      return rsi.map((value, i) => {
+        const context = bar(i, closes[i], value, prev);
+        prev = context;
+        return evaluator.evaluateCondition(condition, context);
+      });
+    }
+
+    it('should evaluate crossed_above_within over the last N bars', () => {
+      const condition: Condition = {
+        type: 'crossed_above_within',
+        left: 'rsi',
+        right: 50,
+        params: { bars: 3 },
+      };
+
+      expect(run(condition, [40, 55, 60, 65, 70])).toEqual([false, true, true, true, false]);
+    });
+
+    it('should evaluate true_for and true_count_in with a base condition', () => {
+      const trueFor: Condition = {
+        type: 'true_for',
+        left: 'rsi',
+        right: 70,
+        params: { condition: 'greater_than', bars: 3 },
+      };
+      const countIn: Condition = {
+        ...trueFor,
+        type: 'true_count_in',
+        params: { condition: 'greater_than', bars: 4, count: 2 },
+      };
+      const rsi = [75, 72, 65, 71, 74, 73, 60];
+
+      expect(run(trueFor, rsi)).toEqual([false, false, false, false, false, true, false]);
+      expect(run(countIn, rsi)).toEqual([false, true, true, true, true, true, true]);
+    });
+
+    it('should evaluate percent_change_above and is_rising over N bars', () => {
+      const change: Condition = {
+        type: 'percent_change_above',
+        left: 'close',
+        right: 5,
+        params: { bars: 2 },
+      };
+      const rising: Condition = { type: 'is_rising', left: 'rsi', right: 0, params: { bars: 3 } };
+
+      expect(run(change, [0, 0, 0, 0], [100, 103, 106, 104])).toEqual([false, false, true, false]);
+      expect(run(rising, [40, 42, 45, 50, 49])).toEqual([false, false, false, true, false]);
+    });
+
+    it('should keep one observation per bar and restart when time goes back', () => {
+      const condition: Condition = {
+        type: 'true_for',
+        left: 'rsi',
+        right: 70,
+        params: { condition: 'greater_than', bars: 2 },
+      };
+
+      expect(evaluator.evaluateCondition(condition, bar(0, 100, 75))).toBe(false);
+      expect(evaluator.evaluateCondition(condition, bar(0, 100, 75))).toBe(false);
+      expect(evaluator.evaluateCondition(condition, bar(1, 100, 76))).toBe(true);
+      expect(evaluator.evaluateCondition(condition, bar(0, 100, 75))).toBe(false);
+      const otherSymbol = { ...bar(1, 100, 76), bar: { key: 'ETHUSDT', timestamp: 60000 } };
+      expect(evaluator.evaluateCondition(condition, otherSymbol)).toBe(false);
+    });
+  });
+
   describe('evaluateGroup', () => {
     it('should evaluate AND group correctly', () => {
       const group: ConditionGroup = {
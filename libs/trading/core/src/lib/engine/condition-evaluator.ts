@@ -1,4 +1,5 @@
-import { Condition, ConditionGroup, ConditionType } from '../types/strategy';
+import { Condition, ConditionGroup, ConditionType, PositionSide } from '../types/strategy';
+import { ExpressionNode, evaluateExpression, parseExpression } from './expression-parser';
 
 /**
  * Kontekst dla ewaluacji warunków
@@ -32,6 +33,65 @@ export interface EvaluationContext {
       volume: number;
     };
   };
+
+  // Wartość referencji sprzed offset świec (np. 'close[3]', 'highest(high, 20)')
+  lookback?: (ref: string, offset: number) => number | null;
+
+  // Świeca i seria (np. symbol) - stan warunków czasowych, jedna obserwacja na świecę
+  // states - stan właściciela serii (executora); bez niego stan wspólny dla evaluatora
+  bar?: { key: string; timestamp: number; states?: ConditionStateStore };
+
+  // Otwarta pozycja (tylko warunki wyjścia) - referencje 'position.entryPrice' itd.
+  position?: PositionContext;
+}
+
+/**
+ * Stan pozycji dostępny w warunkach wyjścia
+ * Dla kilku nóg jednej strony: średnia cena wejścia, czas od pierwszej nogi
+ */
+export interface PositionContext {
+  side: PositionSide; // W warunkach 'position.side': 1 = long, -1 = short
+  entryPrice: number;
+  barsHeld: number;
+  unrealizedPnlPercent: number;
+  rMultiple: number | null; // Wynik w R (null bez początkowego SL)
+  maxFavorableExcursion: number; // MFE w % od wejścia
+}
+
+/**
+ * Warunki czasowe - wynik zależy od obserwacji z poprzednich świec
+ */
+const TEMPORAL_CONDITIONS: ConditionType[] = [
+  'crossed_above_within',
+  'crossed_below_within',
+  'true_for',
+  'true_count_in',
+  'percent_change_above',
+  'percent_change_below',
+];
+
+/**
+ * Stan warunku czasowego dla jednej serii (najnowsza obserwacja na końcu)
+ */
+export interface ConditionState {
+  timestamp: number | null; // Świeca ostatniej obserwacji
+  values: (number | null)[]; // Wartości left
+  results: boolean[]; // Wyniki warunku bazowego (przecięcie, params.condition)
+}
+
+/**
+ * Stany warunków czasowych per warunek i seria
+ */
+export type ConditionStateStore = WeakMap<Condition, Map<string, ConditionState>>;
+
+/**
+ * Czy warunek wymaga stanu z poprzednich świec
+ */
+export function isTemporalCondition(condition: Condition): boolean {
+  if (condition.type === 'is_rising' || condition.type === 'is_falling') {
+    return Number(condition.params?.['bars'] ?? 1) > 1;
+  }
+  return TEMPORAL_CONDITIONS.includes(condition.type);
 }
 
 /**
@@ -41,6 +101,8 @@ export class ConditionEvaluator {
   private debugMode = false;
   private debugSampleInterval = 1000; // Loguj co N-tą świecę
   private evaluationCount = 0;
+  private expressionCache = new Map<string, ExpressionNode | null>(); // null = błąd składni
+  private conditionState: ConditionStateStore = new WeakMap();
 
   /**
    * Włącz/wyłącz tryb debugowania
@@ -88,10 +150,29 @@ export class ConditionEvaluator {
     return finalResult;
   }
 
+  /**
+   * Zapisz obserwację bieżącej świecy dla warunków czasowych w grupie
+   * Wywoływane na każdej świecy, także gdy grupa nie jest ewaluowana (np. przy otwartej
+   * pozycji), żeby okna N świec nie miały luk. Wymaga context.bar
+   */
+  updateState(group: ConditionGroup, context: EvaluationContext): void {
+    for (const condition of group.conditions) {
+      if (this.isConditionGroup(condition)) {
+        this.updateState(condition, context);
+      } else if (isTemporalCondition(condition)) {
+        this.observe(condition, context);
+      }
+    }
+  }
+
   /**
    * Ewaluuj pojedynczy warunek
    */
   evaluateCondition(condition: Condition, context: EvaluationContext): boolean {
+    if (isTemporalCondition(condition)) {
+      return this.evaluateTemporal(condition, context);
+    }
+
     const leftValue = this.resolveValue(condition.left, context);
     const rightValue = this.resolveValue(condition.right, context);
 
@@ -136,7 +217,7 @@ export class ConditionEvaluator {
   /**
    * Rozwiąż wartość z referencji lub zwróć liczbę
    */
-  private resolveValue(
+  resolveValue(
     ref: string | number,
     context: EvaluationContext,
     usePrevious = false
@@ -145,6 +226,16 @@ export class ConditionEvaluator {
       return ref;
     }
 
+    // Przesunięcia wstecz i funkcje okna (np. 'rsi[1]', 'lowest(low, 10)')
+    if (/[[(]/.test(ref)) {
+      return this.resolveExpression(ref, context, usePrevious ? 1 : 0);
+    }
+
+    // Stan pozycji (tylko bieżąca świeca)
+    if (ref.startsWith('position.')) {
+      return usePrevious ? null : this.resolvePositionValue(ref, context.position);
+    }
+
     const ctx = usePrevious && context.previous ? context.previous : context;
 
     // Sprawdź ceny
@@ -190,6 +281,207 @@ export class ConditionEvaluator {
     return null;
   }
 
+  /**
+   * Wartość pola pozycji ('position.rMultiple', 'position.side' = 1 / -1)
+   */
+  private resolvePositionValue(ref: string, position?: PositionContext): number | null {
+    if (!position) {
+      return null;
+    }
+
+    const field = ref.slice('position.'.length) as keyof PositionContext;
+    if (field === 'side') {
+      return position.side === 'long' ? 1 : -1;
+    }
+
+    const value = position[field];
+    return typeof value === 'number' ? value : null;
+  }
+
+  /**
+   * Ewaluuj referencję z przesunięciem lub funkcją okna
+   * @param shift - dodatkowe przesunięcie (1 = wartość dla poprzedniej świecy)
+   */
+  private resolveExpression(
+    ref: string,
+    context: EvaluationContext,
+    shift: number
+  ): number | null {
+    if (!this.expressionCache.has(ref)) {
+      try {
+        this.expressionCache.set(ref, parseExpression(ref));
+      } catch (error) {
+        console.warn(`Invalid reference '${ref}': ${(error as Error).message}`);
+        this.expressionCache.set(ref, null);
+      }
+    }
+
+    const expression = this.expressionCache.get(ref);
+    if (!expression) {
+      return null;
+    }
+
+    return evaluateExpression(expression, (name, offset) =>
+      this.resolveSeries(name, offset + shift, context)
+    );
+  }
+
+  /**
+   * Wartość serii sprzed offset świec
+   * Bez historii w kontekście dostępna jest tylko poprzednia świeca
+   */
+  private resolveSeries(name: string, offset: number, context: EvaluationContext): number | null {
+    if (offset === 0) {
+      return this.resolveValue(name, context);
+    }
+    if (context.lookback) {
+      return context.lookback(name, offset);
+    }
+    if (offset === 1 && context.previous) {
+      return this.resolveValue(name, context, true);
+    }
+    return null;
+  }
+
+  /**
+   * Ewaluuj warunek czasowy na podstawie obserwacji z ostatnich params.bars świec
+   */
+  private evaluateTemporal(condition: Condition, context: EvaluationContext): boolean {
+    const state = this.observe(condition, context);
+    const bars = this.getBars(condition);
+    const results = state.results.slice(-bars);
+
+    switch (condition.type) {
+      case 'crossed_above_within':
+      case 'crossed_below_within':
+        return results.some((result) => result);
+
+      case 'true_for':
+        return results.length === bars && results.every((result) => result);
+
+      case 'true_count_in': {
+        const count = Number(condition.params?.['count'] ?? bars);
+        return results.filter((result) => result).length >= count;
+      }
+
+      case 'percent_change_above':
+      case 'percent_change_below': {
+        const change = this.getPercentChange(state.values, bars);
+        const threshold = this.resolveValue(condition.right, context);
+        if (change === null || threshold === null) {
+          return false;
+        }
+        return condition.type === 'percent_change_above' ? change > threshold : change < threshold;
+      }
+
+      case 'is_rising':
+      case 'is_falling': {
+        const values = state.values.slice(-(bars + 1));
+        if (values.length < bars + 1 || values.some((value) => value === null)) {
+          return false;
+        }
+        const series = values as number[];
+        return series.slice(1).every((value, i) =>
+          condition.type === 'is_rising' ? value > series[i] : value < series[i]
+        );
+      }
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Zapisz obserwację bieżącej świecy w stanie warunku
+   * Ta sama świeca nadpisuje ostatnią obserwację, świeca wcześniejsza niż ostatnia zaczyna
+   * stan od nowa (kolejne wykonanie strategii na tych samych danych)
+   */
+  private observe(condition: Condition, context: EvaluationContext): ConditionState {
+    const store = context.bar?.states ?? this.conditionState;
+    let states = store.get(condition);
+    if (!states) {
+      states = new Map();
+      store.set(condition, states);
+    }
+
+    const key = context.bar?.key ?? '';
+    const timestamp = context.bar?.timestamp ?? null;
+    let state = states.get(key);
+    if (!state || (timestamp !== null && timestamp < (state.timestamp ?? -Infinity))) {
+      state = { timestamp: null, values: [], results: [] };
+      states.set(key, state);
+    }
+
+    const value = this.resolveValue(condition.left, context);
+    const result = this.evaluateBaseCondition(condition, context);
+
+    if (timestamp !== null && timestamp === state.timestamp) {
+      state.values[state.values.length - 1] = value;
+      state.results[state.results.length - 1] = result;
+    } else {
+      state.values.push(value);
+      state.results.push(result);
+    }
+    state.timestamp = timestamp;
+
+    // Wartości potrzebne do bars + 1 świec (zmiana względem N świec wstecz)
+    const size = this.getBars(condition) + 1;
+    state.values.splice(0, Math.max(0, state.values.length - size));
+    state.results.splice(0, Math.max(0, state.results.length - size));
+
+    return state;
+  }
+
+  /**
+   * Wynik warunku bazowego dla bieżącej świecy (przecięcie lub params.condition)
+   */
+  private evaluateBaseCondition(condition: Condition, context: EvaluationContext): boolean {
+    switch (condition.type) {
+      case 'crossed_above_within':
+        return this.evaluateCrossesAbove(condition.left, condition.right, context);
+
+      case 'crossed_below_within':
+        return this.evaluateCrossesBelow(condition.left, condition.right, context);
+
+      case 'true_for':
+      case 'true_count_in': {
+        const type = condition.params?.['condition'];
+        if (typeof type !== 'string') {
+          return false;
+        }
+        const base: Condition = { ...condition, type: type as ConditionType };
+        // Warunek bazowy nie może sam wymagać stanu (nowy obiekt na każdej świecy)
+        return !isTemporalCondition(base) && this.evaluateCondition(base, context);
+      }
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Zmiana w % między bieżącą wartością a wartością sprzed bars świec
+   */
+  private getPercentChange(values: (number | null)[], bars: number): number | null {
+    const current = values[values.length - 1];
+    const past = values[values.length - 1 - bars];
+    if (current === null || current === undefined || past === null || past === undefined) {
+      return null;
+    }
+    if (past === 0) {
+      return null;
+    }
+    return ((current - past) / Math.abs(past)) * 100;
+  }
+
+  /**
+   * Liczba świec okna warunku czasowego (params.bars, domyślnie 1)
+   */
+  private getBars(condition: Condition): number {
+    const bars = Number(condition.params?.['bars'] ?? 1);
+    return Number.isInteger(bars) && bars > 0 ? bars : 1;
+  }
+
   /**
    * Sprawdź czy wartość jest w zakresie
    * Jeśli rightValue jest podane, sprawdza czy left/right ratio jest między min i max
@@ -0,0 +1,135 @@
+import {
+  compileVariables,
+  evaluateExpression,
+  getExpressionReferences,
+  parseExpression,
+} from './expression-parser';
+
+const values: Record<string, number | null> = {
+  close: 100,
+  sma20: 90,
+  sma200: 80,
+  'pivot.S1': 95,
+  missing: null,
+};
+
+function evaluate(expression: string): number | null {
+  return evaluateExpression(parseExpression(expression), (name) => values[name] ?? null);
+}
+
+describe('Expression parser', () => {
+  it('should respect operator precedence and parentheses', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('-2 * -3 + 10 % 4')).toBe(8);
+    expect(evaluate('(close - sma20) / sma20')).toBeCloseTo(0.1111, 4);
+  });
+
+  it('should resolve references without matching id prefixes', () => {
+    expect(evaluate('sma200 - sma20')).toBe(-10);
+    expect(evaluate('close - pivot.S1')).toBe(5);
+  });
+
+  it('should evaluate comparisons, logical operators and ternaries', () => {
+    expect(evaluate('close > sma20 && sma20 > sma200')).toBe(1);
+    expect(evaluate('close < sma20 || close == 100')).toBe(1);
+    expect(evaluate('close > pivot.S1 ? close - pivot.S1 : 0')).toBe(5);
+    expect(evaluate('!(close > sma20) ? 1 : close < 50 ? 2 : 3')).toBe(3);
+  });
+
+  it('should call math functions', () => {
+    expect(evaluate('abs(sma200 - close)')).toBe(20);
+    expect(evaluate('max(sma20, sma200, 85)')).toBe(90);
+    expect(evaluate('min(1, 2) + sqrt(16) + log(1)')).toBe(5);
+  });
+
+  it('should return null for missing values and non-finite results', () => {
+    expect(evaluate('close + missing')).toBeNull();
+    expect(evaluate('close / 0')).toBeNull();
+    expect(evaluate('unknown * 2')).toBeNull();
+    expect(evaluate('close > 0 ? 1 : missing')).toBe(1);
+  });
+
+  it('should reject invalid syntax, unknown functions and code injection', () => {
+    expect(() => parseExpression('close +')).toThrow('unexpected end of expression');
+    expect(() => parseExpression('(close')).toThrow("expected ')'");
+    expect(() => parseExpression('pow(close, 2)')).toThrow("unknown function 'pow'");
+    expect(() => parseExpression('abs(1, 2)')).toThrow('2 argument(s)');
+    expect(() => parseExpression('process.exit(1)')).toThrow("unknown function 'process.exit'");
+    expect(() => parseExpression('close; 1')).toThrow("unexpected character ';'");
+  });
+
+  it('should reject Object.prototype names as functions', () => {
+    expect(() => parseExpression('__proto__(close, 2)')).toThrow("unknown function '__proto__'");
+    expect(() => parseExpression('constructor(close, 1)')).toThrow(
+      "unknown function 'constructor'"
+    );
+    expect(() => parseExpression('hasOwnProperty(close, 1) + 1')).toThrow(
+      "unknown function 'hasOwnProperty'"
+    );
+    expect(compileVariables([{ id: 'x', expression: 'toString(close)' }]).errors).toEqual([
+      "computedVariables.x: unknown function 'toString' at position 0",
+    ]);
+  });
+
+  it('should resolve offset references and window functions over past bars', () => {
+    const closes = [100, 104, 98, 102];
+    const resolve = (name: string, offset: number) =>
+      name === 'close' ? closes[offset] ?? null : null;
+    const run = (expression: string) => evaluateExpression(parseExpression(expression), resolve);
+
+    expect(run('close - close[3]')).toBe(-2);
+    expect(run('highest(close, 3)')).toBe(104);
+    expect(run('lowest(close[1], 3)')).toBe(98);
+    expect(run('sum(close, 4) / 4')).toBe(101);
+    expect(run('avg(close, 2)')).toBe(102);
+    expect(run('stdev(close, 2)')).toBe(2);
+    expect(run('avg(close, 5)')).toBeNull();
+    expect(() => parseExpression('close[-1]')).toThrow('offset must be an integer >= 0');
+    expect(() => parseExpression('highest(close, 0)')).toThrow('period must be an integer >= 1');
+    expect(() => parseExpression('sum(close * 2, 3)')).toThrow('series reference');
+  });
+
+  it('should list references used by an expression', () => {
+    expect(getExpressionReferences(parseExpression('max(close, pivot.S1) - close'))).toEqual([
+      'close',
+      'pivot.S1',
+    ]);
+  });
+});
+
+describe('compileVariables', () => {
+  it('should order variables after the variables they reference', () => {
+    const { variables, errors } = compileVariables([
+      { id: 'distance', expression: 'spread / close' },
+      { id: 'spread', expression: 'close - sma20' },
+    ]);
+
+    expect(errors).toEqual([]);
+    expect(variables.map((v) => v.id)).toEqual(['spread', 'distance']);
+  });
+
+  it('should allow variables to reference their own previous values', () => {
+    const { variables, errors } = compileVariables([
+      { id: 'momentum', expression: 'close - close[1] + momentum[1] * 0.5' },
+    ]);
+
+    expect(errors).toEqual([]);
+    expect(variables.map((v) => v.id)).toEqual(['momentum']);
+  });
+
+  it('should report parse errors and circular references', () => {
+    const { variables, errors } = compileVariables([
+      { id: 'a', expression: 'b + 1' },
+      { id: 'b', expression: 'a * 2' },
+      { id: 'c', expression: 'close *' },
+      { id: 'd', expression: 'close / 2' },
+    ]);
+
+    expect(variables.map((v) => v.id)).toEqual(['d']);
+    expect(errors).toEqual([
+      'computedVariables.c: unexpected end of expression',
+      'computedVariables.a: circular reference (a -> b -> a)',
+    ]);
+  });
+});
@@ -0,0 +1,592 @@
+import { ComputedVariable } from '../types/strategy';
+
+/**
+ * Węzeł drzewa składniowego wyrażenia zmiennej obliczeniowej
+ */
+export type ExpressionNode =
+  | { kind: 'number'; value: number }
+  | ReferenceNode
+  | { kind: 'unary'; operator: '-' | '+' | '!'; operand: ExpressionNode }
+  | { kind: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | {
+      kind: 'conditional';
+      test: ExpressionNode;
+      consequent: ExpressionNode;
+      alternate: ExpressionNode;
+    }
+  | { kind: 'call'; name: string; args: ExpressionNode[] }
+  | { kind: 'window'; name: WindowFunction; source: ReferenceNode; period: number };
+
+/**
+ * Referencja do ceny, wskaźnika (także 'pivot.S1') lub zmiennej
+ * offset - liczba świec wstecz (np. 'close[3]'), 0 = bieżąca świeca
+ */
+export interface ReferenceNode {
+  kind: 'reference';
+  name: string;
+  offset: number;
+}
+
+/**
+ * Funkcja okna - wartość z period ostatnich świec serii (np. 'highest(high, 20)')
+ */
+export type WindowFunction = 'highest' | 'lowest' | 'sum' | 'avg' | 'stdev';
+
+/**
+ * Operator dwuargumentowy (porównania i operatory logiczne zwracają 1 / 0)
+ */
+export type BinaryOperator =
+  | '+'
+  | '-'
+  | '*'
+  | '/'
+  | '%'
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | '=='
+  | '!='
+  | '&&'
+  | '||';
+
+/**
+ * Zmienna obliczeniowa ze sparsowanym wyrażeniem
+ */
+export interface CompiledVariable {
+  id: string;
+  expression: ExpressionNode;
+  references: string[];
+  dependencies: string[]; // Referencje do bieżącej świecy (kolejność obliczania zmiennych)
+}
+
+/**
+ * Funkcja resolvująca referencję na wartość sprzed offset świec (null = brak wartości)
+ */
+export type ReferenceResolver = (name: string, offset: number) => number | null;
+
+/**
+ * Funkcje okna liczone z wartości serii na kolejnych świecach (od najnowszej)
+ */
+const WINDOW_FUNCTIONS: Record<WindowFunction, (values: number[]) => number> = {
+  highest: (values) => Math.max(...values),
+  lowest: (values) => Math.min(...values),
+  sum: (values) => values.reduce((sum, value) => sum + value, 0),
+  avg: (values) => values.reduce((sum, value) => sum + value, 0) / values.length,
+  stdev: (values) => {
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+  },
+};
+
+/**
+ * Referencje do cen dostępne w wyrażeniach ('price' = close)
+ */
+export const EXPRESSION_PRICE_REFERENCES = [
+  'open',
+  'high',
+  'low',
+  'close',
+  'volume',
+  'price',
+  'hl2',
+  'hlc3',
+  'ohlc4',
+];
+
+/**
+ * Funkcja matematyczna z dozwoloną liczbą argumentów
+ */
+interface ExpressionFunction {
+  minArgs: number;
+  maxArgs: number;
+  fn: (...args: number[]) => number;
+}
+
+/**
+ * Dostępne funkcje matematyczne
+ */
+const FUNCTIONS: Record<string, ExpressionFunction> = {
+  abs: { minArgs: 1, maxArgs: 1, fn: Math.abs },
+  min: { minArgs: 1, maxArgs: Infinity, fn: Math.min },
+  max: { minArgs: 1, maxArgs: Infinity, fn: Math.max },
+  log: { minArgs: 1, maxArgs: 1, fn: Math.log },
+  sqrt: { minArgs: 1, maxArgs: 1, fn: Math.sqrt },
+};
+
+/**
+ * Czy nazwa jest własnym kluczem tabeli (nie nazwą z Object.prototype, np. 'constructor')
+ */
+function hasOwnKey(table: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(table, key);
+}
+
+// Operatory w kolejności dopasowania (najpierw dwuznakowe)
+const OPERATORS = [
+  '<=', '>=', '==', '!=', '&&', '||',
+  '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '(', ')', '[', ']', ',',
+];
+
+// Poziomy priorytetu operatorów dwuargumentowych (od najniższego)
+const BINARY_LEVELS: BinaryOperator[][] = [
+  ['||'],
+  ['&&'],
+  ['<', '<=', '>', '>=', '==', '!='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+interface Token {
+  type: 'number' | 'identifier' | 'operator' | 'end';
+  value: string;
+  position: number;
+}
+
+/**
+ * Podziel wyrażenie na tokeny
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    // Identyfikator z opcjonalną właściwością wskaźnika wieloliniowego (np. 'pivot.S1')
+    const identifier = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)?/.exec(source.slice(i));
+    if (identifier) {
+      tokens.push({ type: 'identifier', value: identifier[0], position: i });
+      i += identifier[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    throw new Error(`unexpected character '${char}' at position ${i}`);
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+/**
+ * Parser zstępujący, od najniższego priorytetu:
+ * ternary, ||, &&, porównania, + -, * / %, unarne, wartości / funkcje / nawiasy
+ */
+class Parser {
+  private readonly tokens: Token[];
+  private index = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): ExpressionNode {
+    const node = this.parseConditional();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new Error(`unexpected '${token.value}' at position ${token.position}`);
+    }
+    return node;
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseBinary(0);
+    if (!this.match('?')) {
+      return test;
+    }
+
+    const consequent = this.parseConditional();
+    this.expect(':');
+    const alternate = this.parseConditional();
+    return { kind: 'conditional', test, consequent, alternate };
+  }
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level >= BINARY_LEVELS.length) {
+      return this.parseUnary();
+    }
+
+    let left = this.parseBinary(level + 1);
+    let operator = this.matchAny(BINARY_LEVELS[level]);
+    while (operator) {
+      const right = this.parseBinary(level + 1);
+      left = { kind: 'binary', operator: operator as BinaryOperator, left, right };
+      operator = this.matchAny(BINARY_LEVELS[level]);
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const operator = this.matchAny(['-', '+', '!']);
+    if (operator) {
+      return { kind: 'unary', operator: operator as '-' | '+' | '!', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    if (token.type === 'number') {
+      return { kind: 'number', value: Number(token.value) };
+    }
+
+    if (token.type === 'identifier') {
+      return this.match('(') ? this.parseCall(token) : this.parseReference(token);
+    }
+
+    if (token.value === '(') {
+      const node = this.parseConditional();
+      this.expect(')');
+      return node;
+    }
+
+    throw new Error(
+      token.type === 'end'
+        ? 'unexpected end of expression'
+        : `unexpected '${token.value}' at position ${token.position}`
+    );
+  }
+
+  /**
+   * Referencja z opcjonalnym przesunięciem wstecz, np. 'rsi[1]', 'pivot.S1[2]'
+   */
+  private parseReference(name: Token): ReferenceNode {
+    if (!this.match('[')) {
+      return { kind: 'reference', name: name.value, offset: 0 };
+    }
+
+    const offset = this.parseInteger('offset', 0);
+    this.expect(']');
+    return { kind: 'reference', name: name.value, offset };
+  }
+
+  /**
+   * Funkcja okna: pierwszy argument to seria (referencja), drugi - liczba świec
+   */
+  private parseWindow(name: Token): ExpressionNode {
+    const error = `function '${name.value}' expects a series reference as first argument`;
+    const source = this.next();
+    if (source.type !== 'identifier') {
+      throw new Error(error);
+    }
+
+    const reference = this.parseReference(source);
+    if (!this.match(',')) {
+      throw new Error(error);
+    }
+    const period = this.parseInteger('period', 1);
+    this.expect(')');
+
+    return { kind: 'window', name: name.value as WindowFunction, source: reference, period };
+  }
+
+  /**
+   * Liczba całkowita >= min (przesunięcie, okres funkcji okna)
+   */
+  private parseInteger(label: string, min: number): number {
+    const token = this.next();
+    const value = Number(token.value);
+    if (token.type !== 'number' || !Number.isInteger(value) || value < min) {
+      throw new Error(`${label} must be an integer >= ${min} at position ${token.position}`);
+    }
+    return value;
+  }
+
+  private parseCall(name: Token): ExpressionNode {
+    if (hasOwnKey(WINDOW_FUNCTIONS, name.value)) {
+      return this.parseWindow(name);
+    }
+
+    const fn = hasOwnKey(FUNCTIONS, name.value) ? FUNCTIONS[name.value] : undefined;
+    if (!fn) {
+      throw new Error(`unknown function '${name.value}' at position ${name.position}`);
+    }
+
+    const args: ExpressionNode[] = [];
+    if (!this.match(')')) {
+      do {
+        args.push(this.parseConditional());
+      } while (this.match(','));
+      this.expect(')');
+    }
+
+    if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+      throw new Error(`function '${name.value}' called with ${args.length} argument(s)`);
+    }
+
+    return { kind: 'call', name: name.value, args };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private match(value: string): boolean {
+    return this.matchAny([value]) !== null;
+  }
+
+  private matchAny(values: string[]): string | null {
+    const token = this.peek();
+    if (token.type === 'operator' && values.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private expect(value: string): void {
+    if (!this.match(value)) {
+      const token = this.peek();
+      throw new Error(
+        token.type === 'end'
+          ? `expected '${value}' at end of expression`
+          : `expected '${value}' at position ${token.position}`
+      );
+    }
+  }
+}
+
+/**
+ * Sparsuj wyrażenie zmiennej obliczeniowej
+ * Rzuca błąd z opisem i pozycją przy niepoprawnej składni
+ */
+export function parseExpression(source: string): ExpressionNode {
+  return new Parser(tokenize(source)).parse();
+}
+
+/**
+ * Oblicz wartość wyrażenia
+ * Brak wartości referencji lub wynik nieskończony / NaN daje null
+ */
+export function evaluateExpression(
+  node: ExpressionNode,
+  resolve: ReferenceResolver
+): number | null {
+  const value = evaluateNode(node, resolve);
+  return value !== null && Number.isFinite(value) ? value : null;
+}
+
+function evaluateNode(node: ExpressionNode, resolve: ReferenceResolver): number | null {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+
+    case 'reference':
+      return resolve(node.name, node.offset);
+
+    case 'window': {
+      const values: number[] = [];
+      for (let i = 0; i < node.period; i++) {
+        const value = resolve(node.source.name, node.source.offset + i);
+        if (value === null) {
+          return null;
+        }
+        values.push(value);
+      }
+      return WINDOW_FUNCTIONS[node.name](values);
+    }
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, resolve);
+      if (operand === null) {
+        return null;
+      }
+      return node.operator === '-' ? -operand : node.operator === '!' ? Number(!operand) : operand;
+    }
+
+    case 'conditional': {
+      const test = evaluateNode(node.test, resolve);
+      if (test === null) {
+        return null;
+      }
+      return evaluateNode(test ? node.consequent : node.alternate, resolve);
+    }
+
+    case 'call': {
+      const args = node.args.map((arg) => evaluateNode(arg, resolve));
+      if (args.some((arg) => arg === null)) {
+        return null;
+      }
+      return FUNCTIONS[node.name].fn(...(args as number[]));
+    }
+
+    case 'binary': {
+      const left = evaluateNode(node.left, resolve);
+      if (left === null) {
+        return null;
+      }
+
+      // Operatory logiczne z krótkim spięciem
+      if (node.operator === '&&' && !left) {
+        return 0;
+      }
+      if (node.operator === '||' && left) {
+        return 1;
+      }
+
+      const right = evaluateNode(node.right, resolve);
+      if (right === null) {
+        return null;
+      }
+      return applyBinary(node.operator, left, right);
+    }
+  }
+}
+
+function applyBinary(operator: BinaryOperator, left: number, right: number): number {
+  switch (operator) {
+    case '+':
+      return left + right;
+    case '-':
+      return left - right;
+    case '*':
+      return left * right;
+    case '/':
+      return left / right;
+    case '%':
+      return left % right;
+    case '<':
+      return Number(left < right);
+    case '<=':
+      return Number(left <= right);
+    case '>':
+      return Number(left > right);
+    case '>=':
+      return Number(left >= right);
+    case '==':
+      return Number(left === right);
+    case '!=':
+      return Number(left !== right);
+    case '&&':
+    case '||':
+      return Number(!!right);
+  }
+}
+
+/**
+ * Referencje użyte w wyrażeniu (bez powtórzeń)
+ */
+export function getExpressionReferences(node: ExpressionNode): string[] {
+  return [...new Set(collectReferences(node).map((ref) => ref.name))];
+}
+
+/**
+ * Wszystkie referencje wyrażenia (także źródła funkcji okna)
+ */
+function collectReferences(node: ExpressionNode): ReferenceNode[] {
+  switch (node.kind) {
+    case 'number':
+      return [];
+    case 'reference':
+      return [node];
+    case 'window':
+      return [node.source];
+    case 'unary':
+      return collectReferences(node.operand);
+    case 'binary':
+      return [...collectReferences(node.left), ...collectReferences(node.right)];
+    case 'conditional':
+      return [node.test, node.consequent, node.alternate].flatMap(collectReferences);
+    case 'call':
+      return node.args.flatMap(collectReferences);
+  }
+}
+
+/**
+ * Sparsuj zmienne obliczeniowe i ułóż je w kolejności zależności
+ * (zmienna liczona po zmiennych, do których się odwołuje)
+ * Zmienne z błędem składni lub w cyklu pomijane i zgłaszane w errors
+ */
+export function compileVariables(variables: ComputedVariable[]): {
+  variables: CompiledVariable[];
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const parsed = new Map<string, CompiledVariable>();
+
+  for (const variable of variables) {
+    try {
+      const expression = parseExpression(variable.expression);
+      // Zależności tylko od bieżącej świecy - 'x[1]' może odwoływać się do samej zmiennej
+      const references = collectReferences(expression);
+      parsed.set(variable.id, {
+        id: variable.id,
+        expression,
+        references: getExpressionReferences(expression),
+        dependencies: [
+          ...new Set(references.filter((ref) => ref.offset === 0).map((ref) => ref.name)),
+        ],
+      });
+    } catch (error) {
+      errors.push(`computedVariables.${variable.id}: ${(error as Error).message}`);
+    }
+  }
+
+  const ordered: CompiledVariable[] = [];
+  const state = new Map<string, 'visiting' | 'done' | 'failed'>();
+
+  // Przejście w głąb - zmienna w stanie 'visiting' na ścieżce oznacza cykl
+  const visit = (id: string, path: string[]): boolean => {
+    const current = state.get(id);
+    if (current === 'done') {
+      return true;
+    }
+    if (current === 'failed') {
+      return false;
+    }
+    if (current === 'visiting') {
+      const cycle = [...path.slice(path.indexOf(id)), id].join(' -> ');
+      errors.push(`computedVariables.${id}: circular reference (${cycle})`);
+      return false;
+    }
+
+    const variable = parsed.get(id);
+    if (!variable) {
+      return true;
+    }
+
+    state.set(id, 'visiting');
+    const dependenciesOk = variable.dependencies
+      .filter((ref) => parsed.has(ref))
+      .every((ref) => visit(ref, [...path, id]));
+
+    state.set(id, dependenciesOk ? 'done' : 'failed');
+    if (dependenciesOk) {
+      ordered.push(variable);
+    }
+    return dependenciesOk;
+  };
+
+  for (const id of parsed.keys()) {
+    visit(id, []);
+  }
+
+  return { variables: ordered, errors };
+}
@@ -3,3 +3,6 @@ export * from './strategy-executor';
 export * from './backtest-engine';
 export * from './market-simulator';
 export * from './metrics-calculator';
+export * from './strategy-validator';
+export * from './expression-parser';
+export * from './indicator-dependencies';
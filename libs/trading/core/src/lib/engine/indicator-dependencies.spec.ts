@@ -0,0 +1,73 @@
+import { orderIndicators } from './indicator-dependencies';
+import { StrategySchema } from '../types/strategy';
+
+function createStrategy(
+  indicators: StrategySchema['indicators'],
+  computedVariables: StrategySchema['computedVariables'] = []
+): StrategySchema {
+  return {
+    id: 'chained',
+    version: '1.0.0',
+    name: 'Chained',
+    status: 'testing',
+    dataRequirements: { primaryTimeframe: '4h', lookbackPeriods: 5, symbols: ['BTCUSDT'] },
+    indicators,
+    computedVariables,
+    entrySignals: {},
+    exitSignals: {},
+    riskManagement: { riskPerTrade: 1, maxPositionSize: 10, maxOpenPositions: 1 },
+  };
+}
+
+describe('orderIndicators', () => {
+  it('should order indicators after their indicator and variable sources', () => {
+    const { indicators, dependencies, errors } = orderIndicators(
+      createStrategy(
+        [
+          { id: 'signal', type: 'EMA', params: { period: 9 }, source: 'spread' },
+          { id: 'atrSma', type: 'SMA', params: { period: 5 }, source: 'atr' },
+          { id: 'histSma', type: 'SMA', params: { period: 3 }, source: 'macd.histogram' },
+          { id: 'macd', type: 'MACD', params: {} },
+          { id: 'atr', type: 'ATR', params: { period: 14 } },
+          { id: 'rsi', type: 'RSI', params: { period: 14 }, source: 'hl2' },
+        ],
+        [{ id: 'spread', expression: 'atrSma - atr[1]' }]
+      )
+    );
+
+    expect(errors).toEqual([]);
+    expect(indicators.map((i) => i.id)).toEqual([
+      'atr',
+      'atrSma',
+      'signal',
+      'macd',
+      'histSma',
+      'rsi',
+    ]);
+    expect(dependencies.get('signal')?.sort()).toEqual(['atr', 'atrSma']);
+    expect(dependencies.get('rsi')).toEqual([]);
+  });
+
+  it('should report cycles through variables, unknown sources and other timeframes', () => {
+    const { indicators, errors } = orderIndicators(
+      createStrategy(
+        [
+          { id: 'a', type: 'SMA', params: { period: 5 }, source: 'b' },
+          { id: 'b', type: 'EMA', params: { period: 5 }, source: 'ratio' },
+          { id: 'c', type: 'SMA', params: { period: 5 }, source: 'missing' },
+          { id: 'd', type: 'SMA', params: { period: 5 }, source: 'c' },
+          { id: 'e', type: 'SMA', params: { period: 5 }, source: 'f', timeframe: '1d' },
+          { id: 'f', type: 'RSI', params: { period: 14 } },
+        ],
+        [{ id: 'ratio', expression: 'a / close' }]
+      )
+    );
+
+    expect(indicators.map((i) => i.id)).toEqual(['f']);
+    expect(errors).toEqual([
+      "indicators.c: unknown source 'missing'",
+      'indicators.e: indicator source requires the primary timeframe',
+      'indicators.a: circular source (a -> b -> ratio -> a)',
+    ]);
+  });
+});
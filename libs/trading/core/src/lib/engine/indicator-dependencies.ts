@@ -0,0 +1,161 @@
+import { IndicatorDefinition, StrategySchema } from '../types/strategy';
+import { IndicatorDataSource } from '../types/indicator';
+import { INDICATOR_SOURCES } from '../indicators/source';
+import { compileVariables } from './expression-parser';
+
+/**
+ * Źródło danych wskaźnika
+ * - price: świece OHLCV (cena lub świece Heikin-Ashi - parametr 'source' wskaźnika)
+ * - indicator: wartości innego wskaźnika (field = linia wieloliniowego, np. 'macd.histogram')
+ * - variable: wartości zmiennej obliczeniowej
+ */
+export type IndicatorSource =
+  | { kind: 'price' }
+  | { kind: 'indicator'; id: string; field?: string }
+  | { kind: 'variable'; id: string };
+
+/**
+ * Wynik uporządkowania wskaźników strategii
+ */
+export interface IndicatorOrder {
+  indicators: IndicatorDefinition[]; // W kolejności zależności (bez błędnych)
+  dependencies: Map<string, string[]>; // Id wskaźnika → wskaźniki użyte w źródle
+  errors: string[];
+}
+
+/**
+ * Rozpoznaj źródło wskaźnika (null = nieznane źródło)
+ * Id wskaźnika ma pierwszeństwo przed zmienną o tej samej nazwie (jak w warunkach)
+ */
+export function parseIndicatorSource(
+  source: string | undefined,
+  strategy: StrategySchema
+): IndicatorSource | null {
+  if (!source || INDICATOR_SOURCES.includes(source as IndicatorDataSource)) {
+    return { kind: 'price' };
+  }
+
+  const [id, field] = source.split('.');
+  if (strategy.indicators.some((indicator) => indicator.id === id)) {
+    return { kind: 'indicator', id, field };
+  }
+  if ((strategy.computedVariables ?? []).some((variable) => variable.id === source)) {
+    return { kind: 'variable', id: source };
+  }
+
+  return null;
+}
+
+/**
+ * Uporządkuj wskaźniki tak, by ich źródła (wskaźniki, zmienne i wskaźniki użyte w zmiennych)
+ * były policzone wcześniej. Wykrywa cykle także przez zmienne obliczeniowe
+ */
+export function orderIndicators(strategy: StrategySchema): IndicatorOrder {
+  const errors: string[] = [];
+  const primaryTf = strategy.dataRequirements.primaryTimeframe;
+  const indicators = new Map(strategy.indicators.map((indicator) => [indicator.id, indicator]));
+
+  // Błędy składni i cykle między zmiennymi zgłasza walidacja zmiennych
+  const variables = new Map(
+    compileVariables(strategy.computedVariables ?? []).variables.map((v) => [v.id, v])
+  );
+
+  // Bezpośrednie zależności węzła grafu ('indicator:id' / 'variable:id')
+  const edges = new Map<string, string[]>();
+  const state = new Map<string, 'visiting' | 'done' | 'failed'>();
+
+  for (const indicator of strategy.indicators) {
+    const node = `indicator:${indicator.id}`;
+    const source = parseIndicatorSource(indicator.source, strategy);
+    edges.set(node, source && source.kind !== 'price' ? [`${source.kind}:${source.id}`] : []);
+
+    if (!source) {
+      errors.push(`indicators.${indicator.id}: unknown source '${indicator.source}'`);
+      state.set(node, 'failed');
+    } else if (source.kind !== 'price' && (indicator.timeframe ?? primaryTf) !== primaryTf) {
+      errors.push(`indicators.${indicator.id}: indicator source requires the primary timeframe`);
+      state.set(node, 'failed');
+    }
+  }
+  for (const variable of variables.values()) {
+    // Wskaźniki - cała seria (także referencje wstecz), zmienne - ta sama świeca
+    const indicatorRefs = variable.references
+      .map((ref) => ref.split('.')[0])
+      .filter((id) => indicators.has(id))
+      .map((id) => `indicator:${id}`);
+    const variableRefs = variable.dependencies
+      .filter((ref) => variables.has(ref) && !indicators.has(ref.split('.')[0]))
+      .map((ref) => `variable:${ref}`);
+    edges.set(`variable:${variable.id}`, [...new Set([...indicatorRefs, ...variableRefs])]);
+  }
+
+  const ordered: IndicatorDefinition[] = [];
+  const dependencies = new Map<string, string[]>();
+
+  // Przejście w głąb - węzeł w stanie 'visiting' na ścieżce oznacza cykl
+  const visit = (node: string, path: string[]): boolean => {
+    const current = state.get(node);
+    if (current === 'done') {
+      return true;
+    }
+    if (current === 'failed') {
+      return false;
+    }
+    if (current === 'visiting') {
+      const cycle = [...path.slice(path.indexOf(node)), node].map((n) => n.split(':')[1]);
+      const [kind, id] = node.split(':');
+      const prefix = kind === 'indicator' ? 'indicators' : 'computedVariables';
+      errors.push(`${prefix}.${id}: circular source (${cycle.join(' -> ')})`);
+      return false;
+    }
+
+    const nodeEdges = edges.get(node);
+    if (!nodeEdges) {
+      // Zmienna z błędem składni lub w cyklu zmiennych
+      return !node.startsWith('variable:');
+    }
+
+    state.set(node, 'visiting');
+    const dependenciesOk = nodeEdges.every((dep) => visit(dep, [...path, node]));
+    state.set(node, dependenciesOk ? 'done' : 'failed');
+
+    const [kind, id] = node.split(':');
+    if (dependenciesOk && kind === 'indicator') {
+      ordered.push(indicators.get(id) as IndicatorDefinition);
+      dependencies.set(id, collectIndicators(nodeEdges, edges));
+    }
+    return dependenciesOk;
+  };
+
+  for (const indicator of strategy.indicators) {
+    visit(`indicator:${indicator.id}`, []);
+  }
+
+  return { indicators: ordered, dependencies, errors };
+}
+
+/**
+ * Wskaźniki osiągalne z węzłów bez przechodzenia przez inne wskaźniki
+ */
+function collectIndicators(nodes: string[], edges: Map<string, string[]>): string[] {
+  const result = new Set<string>();
+  const pending = [...nodes];
+  const seen = new Set<string>();
+
+  while (pending.length > 0) {
+    const node = pending.pop() as string;
+    if (seen.has(node)) {
+      continue;
+    }
+    seen.add(node);
+
+    const [kind, id] = node.split(':');
+    if (kind === 'indicator') {
+      result.add(id);
+    } else {
+      pending.push(...(edges.get(node) ?? []));
+    }
+  }
+
+  return [...result];
+}
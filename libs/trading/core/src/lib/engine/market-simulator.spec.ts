@@ -0,0 +1,730 @@
+import { MarketSimulator } from './market-simulator';
+import { BacktestConfig } from '../types/backtest';
+import { OHLCV } from '../types/ohlcv';
+import { Position, Signal } from '../types/trading';
+import { PositionSizingConfig, TakeProfitConfig, TrailingStopConfig } from '../types/strategy';
+import { calculateBacktestMetrics } from './metrics-calculator';
+
+const HOUR = 3600000;
+
+function createConfig(overrides: Partial<BacktestConfig> = {}): BacktestConfig {
+  return {
+    startDate: new Date(0),
+    endDate: new Date(30 * 24 * HOUR),
+    initialCapital: 10000,
+    currency: 'USDT',
+    commissionPercent: 0,
+    slippagePercent: 0,
+    fillModel: 'realistic',
+    dataSource: 'local',
+    ...overrides,
+  };
+}
+
+function candle(timestamp: number, open: number, high: number, low: number, close: number): OHLCV {
+  return { timestamp, open, high, low, close, volume: 1000 };
+}
+
+const longSignal: Signal = { type: 'entry_long', price: 100, timestamp: 0 };
+
+/**
+ * Otwórz long @100 z SL 98 i TP 104
+ */
+function openLong(simulator: MarketSimulator): void {
+  simulator.openPosition(
+    longSignal,
+    candle(0, 100, 100, 100, 100),
+    'BTCUSDT',
+    { type: 'fixed_percent', value: 2 },
+    { type: 'fixed_percent', value: 4 },
+    undefined,
+    1
+  );
+}
+
+// Świeca 4h trafiająca zarówno SL (98) jak i TP (104)
+const wideCandle = candle(4 * HOUR, 100, 105, 97, 101);
+
+describe('MarketSimulator fill models', () => {
+  it('should exit at stop loss first with pessimistic fill model', () => {
+    const simulator = new MarketSimulator(createConfig({ fillModel: 'pessimistic' }));
+    openLong(simulator);
+
+    const [trade] = simulator.processCandle(wideCandle, 'BTCUSDT');
+
+    expect(trade.exitReason).toBe('stop_loss');
+    expect(trade.exitPrice).toBeCloseTo(98, 5);
+    expect(trade.ambiguousExit).toBe(true);
+  });
+
+  it('should exit at take profit first with optimistic fill model', () => {
+    const simulator = new MarketSimulator(createConfig({ fillModel: 'optimistic' }));
+    openLong(simulator);
+
+    const [trade] = simulator.processCandle(wideCandle, 'BTCUSDT');
+
+    expect(trade.exitReason).toBe('take_profit');
+    expect(trade.exitPrice).toBeCloseTo(104, 5);
+  });
+
+  it('should use 1m candles to find the first level hit with realistic fill model', () => {
+    const simulator = new MarketSimulator(createConfig({ fillModel: 'realistic' }));
+    openLong(simulator);
+
+    // Cena najpierw rośnie do TP, dopiero potem spada do SL
+    const minuteCandles = [
+      candle(4 * HOUR, 100, 101, 99.5, 100.5),
+      candle(4 * HOUR + 60000, 100.5, 105, 100.4, 104.5),
+      candle(4 * HOUR + 120000, 104.5, 104.6, 97, 101),
+    ];
+
+    const [trade] = simulator.processCandle(wideCandle, 'BTCUSDT', minuteCandles);
+
+    expect(trade.exitReason).toBe('take_profit');
+  });
+
+  it('should fall back to the OHLC path without 1m candles', () => {
+    const simulator = new MarketSimulator(createConfig({ fillModel: 'realistic' }));
+    openLong(simulator);
+
+    // Open bliżej low - ścieżka O-L-H-C, więc SL trafiony jako pierwszy
+    const [trade] = simulator.processCandle(candle(4 * HOUR, 99, 105, 97, 104), 'BTCUSDT');
+
+    expect(trade.exitReason).toBe('stop_loss');
+  });
+
+  it('should not mark single-level exits as ambiguous', () => {
+    const simulator = new MarketSimulator(createConfig({ fillModel: 'pessimistic' }));
+    openLong(simulator);
+
+    const [trade] = simulator.processCandle(candle(4 * HOUR, 100, 104.5, 99, 104), 'BTCUSDT');
+
+    expect(trade.exitReason).toBe('take_profit');
+    expect(trade.ambiguousExit).toBeUndefined();
+  });
+});
+
+describe('MarketSimulator pending entry orders', () => {
+  const limitSignal: Signal = {
+    type: 'entry_long',
+    price: 100,
+    timestamp: 0,
+    orderType: 'limit',
+    orderPrice: 95,
+    expiryBars: 2,
+  };
+
+  function placeLimit(simulator: MarketSimulator, signal: Signal = limitSignal): void {
+    simulator.placeEntryOrder(
+      signal,
+      candle(0, 100, 100, 100, 100),
+      'BTCUSDT',
+      { type: 'fixed_percent', value: 2 },
+      undefined,
+      undefined,
+      1,
+      undefined,
+      4 * HOUR
+    );
+  }
+
+  it('should fill a limit order when a later candle trades through the limit price', () => {
+    const simulator = new MarketSimulator(createConfig());
+    placeLimit(simulator);
+
+    simulator.processCandle(candle(4 * HOUR, 99, 100, 96, 97), 'BTCUSDT');
+    expect(simulator.hasOpenPosition('BTCUSDT')).toBe(false);
+
+    simulator.processCandle(candle(8 * HOUR, 97, 98, 94, 96), 'BTCUSDT');
+    const position = simulator.getOpenPosition('BTCUSDT');
+
+    expect(position?.entryPrice).toBeCloseTo(95, 5);
+    const [order] = simulator.getOrders();
+    expect(order.status).toBe('filled');
+    expect(order.filledAt).toBe(8 * HOUR);
+    expect(order.size).toBeCloseTo(position?.size ?? 0, 5);
+  });
+
+  it('should cancel an unfilled order after expiryBars candles', () => {
+    const simulator = new MarketSimulator(createConfig());
+    placeLimit(simulator);
+
+    simulator.processCandle(candle(4 * HOUR, 99, 100, 96, 97), 'BTCUSDT');
+    simulator.processCandle(candle(8 * HOUR, 97, 98, 96, 97), 'BTCUSDT');
+
+    expect(simulator.getPendingOrders('BTCUSDT')).toHaveLength(0);
+    expect(simulator.getOrders()[0].status).toBe('cancelled');
+    expect(simulator.getOrders()[0].cancelReason).toBe('expired');
+  });
+
+  it('should cancel a pending order on an opposite signal', () => {
+    const simulator = new MarketSimulator(createConfig());
+    placeLimit(simulator);
+    placeLimit(simulator, { ...limitSignal, type: 'entry_short', orderType: 'stop_market', orderPrice: 90 });
+
+    const [first, second] = simulator.getOrders();
+    expect(first.cancelReason).toBe('opposite_signal');
+    expect(second.status).toBe('pending');
+  });
+
+  it('should fill a stop order at the open when the candle gaps through the stop price', () => {
+    const simulator = new MarketSimulator(createConfig());
+    placeLimit(simulator, { ...limitSignal, orderType: 'stop_market', orderPrice: 102 });
+
+    simulator.processCandle(candle(4 * HOUR, 104, 106, 103, 105), 'BTCUSDT');
+
+    expect(simulator.getOpenPosition('BTCUSDT')?.entryPrice).toBeCloseTo(104, 5);
+  });
+});
+
+describe('MarketSimulator pyramiding', () => {
+  const riskManagement = {
+    riskPerTrade: 1,
+    maxPositionSize: 100,
+    maxOpenPositions: 3,
+    pyramiding: { enabled: true, sizeMultiplier: 2, exitMode: 'all' as const },
+  };
+
+  function openLeg(simulator: MarketSimulator, price: number, timestamp: number): void {
+    simulator.openPosition(
+      { type: 'entry_long', price, timestamp },
+      candle(timestamp, price, price, price, price),
+      'BTCUSDT',
+      { type: 'fixed_percent', value: 2 },
+      { type: 'fixed_percent', value: 4 },
+      undefined,
+      0.2
+    );
+  }
+
+  it('should scale leg size and report the average entry price', () => {
+    const simulator = new MarketSimulator(createConfig(), riskManagement);
+    openLeg(simulator, 100, 0);
+    openLeg(simulator, 90, HOUR);
+
+    const [first, second] = simulator.getSymbolPositions('BTCUSDT');
+
+    expect(second.entryLevel).toBe(1);
+    expect(second.size).toBeCloseTo(first.size * 2 * (100 / 90), 5);
+    const expectedAverage = (100 * first.size + 90 * second.size) / (first.size + second.size);
+    expect(first.averageEntryPrice).toBeCloseTo(expectedAverage, 5);
+    expect(second.averageEntryPrice).toBeCloseTo(expectedAverage, 5);
+  });
+
+  it('should close all legs together at levels based on the average entry', () => {
+    const simulator = new MarketSimulator(createConfig(), riskManagement);
+    openLeg(simulator, 100, 0);
+    openLeg(simulator, 90, HOUR);
+
+    const average = simulator.getSymbolPositions('BTCUSDT')[0].averageEntryPrice ?? 0;
+    const trades = simulator.processCandle(
+      candle(2 * HOUR, 93, average * 1.05, 92.5, 94),
+      'BTCUSDT'
+    );
+
+    expect(trades).toHaveLength(2);
+    trades.forEach((trade) => {
+      expect(trade.exitReason).toBe('take_profit');
+      expect(trade.exitPrice).toBeCloseTo(average * 1.04, 5);
+      expect(trade.averageEntryPrice).toBeCloseTo(average, 5);
+    });
+    expect(simulator.hasOpenPosition('BTCUSDT')).toBe(false);
+  });
+});
+
+describe('MarketSimulator fees and slippage', () => {
+  const fees = { makerPercent: 0.0002, takerPercent: 0.0006 };
+
+  it('should charge maker fees on limit fills and taker fees on market fills', () => {
+    const simulator = new MarketSimulator(createConfig({ fees }));
+    simulator.placeEntryOrder(
+      { type: 'entry_long', price: 100, timestamp: 0, orderType: 'limit', orderPrice: 95 },
+      candle(0, 100, 100, 100, 100),
+      'BTCUSDT',
+      { type: 'fixed_percent', value: 2 },
+      undefined,
+      undefined,
+      1,
+      undefined,
+      4 * HOUR
+    );
+    simulator.processCandle(candle(4 * HOUR, 97, 98, 94, 96), 'BTCUSDT');
+    const limitPosition = simulator.getOpenPosition('BTCUSDT');
+
+    const marketSimulator = new MarketSimulator(createConfig({ fees }));
+    openLong(marketSimulator);
+    const marketPosition = marketSimulator.getOpenPosition('BTCUSDT');
+
+    const limitSize = limitPosition?.size ?? 0;
+    const marketSize = marketPosition?.size ?? 0;
+    expect(limitPosition?.entryFee).toBeCloseTo(limitSize * 95 * 0.0002, 8);
+    expect(marketPosition?.entryFee).toBeCloseTo(marketSize * 100 * 0.0006, 8);
+  });
+
+  it('should break out entry and exit fees per trade and include them in net P&L', () => {
+    const simulator = new MarketSimulator(createConfig({ fees: { ...fees, fixedPerTrade: 1 } }));
+    openLong(simulator);
+
+    const [trade] = simulator.processCandle(candle(4 * HOUR, 100, 105, 99.5, 104), 'BTCUSDT');
+
+    expect(trade.entryFee).toBeCloseTo(50 * 100 * 0.0006 + 1, 8);
+    expect(trade.exitFee).toBeCloseTo(50 * 104 * 0.0006 + 1, 8);
+    expect(trade.commission).toBeCloseTo((trade.entryFee ?? 0) + (trade.exitFee ?? 0), 8);
+    expect(trade.netPnl).toBeCloseTo(trade.pnl - trade.commission, 8);
+    expect(simulator.getPortfolio().currentCapital).toBeCloseTo(10000 + trade.netPnl, 8);
+  });
+
+  it('should switch to a cheaper fee tier once the volume threshold is reached', () => {
+    const simulator = new MarketSimulator(
+      createConfig({
+        fees: {
+          tiers: [
+            { minVolume: 0, makerPercent: 0.0002, takerPercent: 0.0006 },
+            { minVolume: 5000, makerPercent: 0.0001, takerPercent: 0.0004 },
+          ],
+        },
+      })
+    );
+    openLong(simulator);
+
+    // Wejście o wartości 5000 kwalifikuje wyjście do drugiego progu
+    const [trade] = simulator.processCandle(candle(4 * HOUR, 100, 105, 99.5, 104), 'BTCUSDT');
+
+    expect(trade.entryFee).toBeCloseTo(5000 * 0.0006, 8);
+    expect(trade.exitFee).toBeCloseTo(50 * 104 * 0.0004, 8);
+  });
+
+  it('should scale slippage with the order share of candle volume', () => {
+    const simulator = new MarketSimulator(
+      createConfig({ slippage: { model: 'volume', impactFactor: 0.1 } })
+    );
+    openLong(simulator);
+    const position = simulator.getOpenPosition('BTCUSDT');
+
+    // Zlecenie 5000 przy wolumenie świecy 1000 * 100 - udział 5%, poślizg 0.5%
+    expect(position?.entryPrice).toBeCloseTo(100.5, 8);
+    expect(position?.entrySlippage).toBeCloseTo(0.5 * (position?.size ?? 0), 8);
+  });
+
+  it('should use a fraction of ATR as slippage', () => {
+    const simulator = new MarketSimulator(
+      createConfig({ slippage: { model: 'atr', atrFraction: 0.25 } })
+    );
+    openLong(simulator);
+    simulator.setAtr('BTCUSDT', 2);
+
+    const [trade] = simulator.processCandle(candle(4 * HOUR, 100, 105, 99.5, 104), 'BTCUSDT');
+
+    expect(trade.exitPrice).toBeCloseTo(103.5, 8);
+    expect(trade.slippage).toBeCloseTo(0.5 * trade.size, 8);
+  });
+});
+
+describe('MarketSimulator position sizing', () => {
+  function createSimulator(
+    sizing?: PositionSizingConfig,
+    maxPositionSize = 100
+  ): MarketSimulator {
+    return new MarketSimulator(createConfig(), {
+      riskPerTrade: 1,
+      maxPositionSize,
+      maxOpenPositions: 1,
+      sizing,
+    });
+  }
+
+  it('should cap the position margin at maxPositionSize percent of capital', () => {
+    const simulator = createSimulator(undefined, 10);
+    openLong(simulator);
+
+    // Ryzyko 1% przy SL 2% dałoby pozycję o wartości 50% kapitału
+    const position = simulator.getOpenPosition('BTCUSDT');
+    expect(position?.size).toBeCloseTo(10, 8);
+    expect(position?.sizing).toEqual({
+      mode: 'risk',
+      reason: 'max_position_size',
+      size: position?.size,
+      requestedSize: 50,
+    });
+  });
+
+  it('should record the default stop distance when there is no stop loss', () => {
+    const simulator = createSimulator({ mode: 'risk', defaultStopPercent: 5 });
+    simulator.openPosition(
+      longSignal,
+      candle(0, 100, 100, 100, 100),
+      'BTCUSDT',
+      undefined,
+      undefined,
+      undefined,
+      1
+    );
+
+    const position = simulator.getOpenPosition('BTCUSDT') as Position;
+    const trade = simulator.closePosition(position, 101, HOUR, 'manual');
+
+    expect(trade.size).toBeCloseTo(20, 8);
+    expect(trade.sizing?.reason).toBe('default_stop');
+  });
+
+  it('should size fixed notional and fixed fraction positions', () => {
+    const notional = createSimulator({ mode: 'fixed_notional', notional: 2500 });
+    const fraction = createSimulator({ mode: 'fixed_fraction', fraction: 30 });
+    openLong(notional);
+    openLong(fraction);
+
+    expect(notional.getOpenPosition('BTCUSDT')?.size).toBeCloseTo(25, 8);
+    expect(fraction.getOpenPosition('BTCUSDT')?.size).toBeCloseTo(30, 8);
+  });
+
+  it('should target volatility with ATR and fall back to risk sizing without it', () => {
+    const simulator = createSimulator({ mode: 'volatility', targetVolatility: 0.5 });
+    simulator.setAtr('BTCUSDT', 2);
+    openLong(simulator);
+
+    // 0.5% z 10 000 na ruch o 1 ATR (2)
+    expect(simulator.getOpenPosition('BTCUSDT')?.size).toBeCloseTo(25, 8);
+
+    const withoutAtr = createSimulator({ mode: 'volatility', targetVolatility: 0.5 });
+    openLong(withoutAtr);
+
+    expect(withoutAtr.getOpenPosition('BTCUSDT')?.sizing?.reason).toBe('volatility_unavailable');
+    expect(withoutAtr.getOpenPosition('BTCUSDT')?.size).toBeCloseTo(50, 8);
+  });
+
+  it('should use fractional Kelly after warmup and skip entries without an edge', () => {
+    const simulator = createSimulator({
+      mode: 'kelly',
+      kellyMinTrades: 3,
+      kellyLookback: 3,
+      kellyFraction: 0.5,
+    });
+    const closeAt = (exitPrice: number, time: number): void => {
+      openLong(simulator);
+      const position = simulator.getOpenPosition('BTCUSDT') as Position;
+      simulator.closePosition(position, exitPrice, time, 'manual');
+    };
+
+    closeAt(104, HOUR);
+    closeAt(104, 2 * HOUR);
+    closeAt(98, 3 * HOUR);
+    expect(simulator.getTrades()[0].sizing?.reason).toBe('kelly_warmup');
+
+    // f* = W - (1 - W) / R, połowa Kelly jako ryzyko na SL 2 (2%)
+    const [win1, win2, loss] = simulator.getTrades().map((t) => t.netPnl);
+    const kelly = 2 / 3 - 1 / 3 / ((win1 + win2) / 2 / -loss);
+    const capital = simulator.getPortfolio().currentCapital;
+    closeAt(98, 4 * HOUR);
+
+    const sizing = simulator.getTrades()[3].sizing;
+    expect(sizing?.reason).toBe('max_position_size');
+    expect(sizing?.requestedSize).toBeCloseTo((capital * kelly * 0.5) / 2, 6);
+
+    // Ostatnie 3 pozycje: 1 zysk, 2 straty - Kelly ujemny, brak wejścia
+    openLong(simulator);
+    expect(simulator.getOpenPosition('BTCUSDT')).toBeUndefined();
+  });
+});
+
+describe('MarketSimulator leverage and margin', () => {
+  const riskManagement = {
+    riskPerTrade: 1,
+    maxPositionSize: 100,
+    maxOpenPositions: 1,
+    leverage: 10,
+  };
+
+  /**
+   * Long @100 bez SL - wartość pozycji 50 000 przy kapitale 10 000
+   */
+  function openLeveragedLong(simulator: MarketSimulator): void {
+    simulator.openPosition(
+      longSignal,
+      candle(0, 100, 100, 100, 100),
+      'BTCUSDT',
+      undefined,
+      undefined,
+      undefined,
+      10
+    );
+  }
+
+  it('should lock only the initial margin and compute the isolated liquidation price', () => {
+    const simulator = new MarketSimulator(createConfig(), riskManagement);
+    openLeveragedLong(simulator);
+
+    const position = simulator.getOpenPosition('BTCUSDT');
+    expect(position?.size).toBeCloseTo(500, 5);
+    expect(position?.margin).toBeCloseTo(5000, 5);
+    // 100 * (1 - 10% + 0.5%)
+    expect(position?.liquidationPrice).toBeCloseTo(90.5, 5);
+    expect(simulator.getPortfolio().marginUsed).toBeCloseTo(5000, 5);
+  });
+
+  it('should force a liquidation exit when the price reaches the liquidation price', () => {
+    const simulator = new MarketSimulator(createConfig(), riskManagement);
+    openLeveragedLong(simulator);
+
+    const [trade] = simulator.processCandle(candle(4 * HOUR, 95, 96, 89, 90), 'BTCUSDT');
+
+    expect(trade.exitReason).toBe('liquidation');
+    expect(trade.exitPrice).toBeCloseTo(90.5, 5);
+    expect(simulator.getPortfolio().marginUsed).toBeCloseTo(0, 5);
+  });
+
+  it('should back cross margin positions with the whole account balance', () => {
+    const simulator = new MarketSimulator(createConfig(), {
+      ...riskManagement,
+      marginMode: 'cross' as const,
+    });
+    openLeveragedLong(simulator);
+
+    // (10 000 - 250 depozytu utrzymaniowego) / 500 = 19.5 poniżej wejścia
+    expect(simulator.getOpenPosition('BTCUSDT')?.liquidationPrice).toBeCloseTo(80.5, 5);
+    expect(simulator.processCandle(candle(4 * HOUR, 95, 96, 89, 90), 'BTCUSDT')).toHaveLength(0);
+  });
+
+  it('should exit at the stop loss when it is reached before liquidation', () => {
+    const simulator = new MarketSimulator(createConfig(), riskManagement);
+    simulator.openPosition(
+      longSignal,
+      candle(0, 100, 100, 100, 100),
+      'BTCUSDT',
+      { type: 'fixed_percent', value: 5 },
+      undefined,
+      undefined,
+      20
+    );
+
+    const [trade] = simulator.processCandle(candle(4 * HOUR, 99, 100, 85, 86), 'BTCUSDT');
+
+    expect(trade.exitReason).toBe('stop_loss');
+    expect(trade.ambiguousExit).toBe(true);
+  });
+});
+
+describe('MarketSimulator funding', () => {
+  const fundingConfig = createConfig({ funding: { enabled: true } });
+
+  it('should charge longs every 8 hours at the default rate', () => {
+    const simulator = new MarketSimulator(fundingConfig);
+    openLong(simulator);
+    const size = simulator.getOpenPosition('BTCUSDT')?.size ?? 0;
+
+    simulator.processCandle(candle(0, 100, 100, 100, 100), 'BTCUSDT');
+    simulator.processCandle(candle(4 * HOUR, 100, 101, 99, 100), 'BTCUSDT');
+    simulator.processCandle(candle(8 * HOUR, 100, 101, 99, 100), 'BTCUSDT');
+
+    const [position] = simulator.getSymbolPositions('BTCUSDT');
+    expect(position.funding).toBeCloseTo(-size * 100 * 0.0001, 8);
+
+    const trade = simulator.closePosition(position, 100, 8 * HOUR, 'signal');
+    expect(trade.funding).toBeCloseTo(-size * 100 * 0.0001, 8);
+    expect(trade.netPnl).toBeCloseTo(trade.funding ?? 0, 8);
+    expect(simulator.getPortfolio().currentCapital).toBeCloseTo(10000 + (trade.funding ?? 0), 8);
+  });
+
+  it('should settle at the stored funding schedule', () => {
+    const simulator = new MarketSimulator(fundingConfig);
+    simulator.setFundingRates('BTCUSDT', [
+      { timestamp: 2 * HOUR, rate: -0.0005 },
+      { timestamp: 6 * HOUR, rate: 0.0002 },
+    ]);
+    openLong(simulator);
+    const size = simulator.getOpenPosition('BTCUSDT')?.size ?? 0;
+
+    simulator.processCandle(candle(0, 100, 100, 100, 100), 'BTCUSDT');
+    simulator.processCandle(candle(4 * HOUR, 100, 101, 99, 100), 'BTCUSDT');
+
+    // Ujemna stawka - long otrzymuje funding
+    expect(simulator.getOpenPosition('BTCUSDT')?.funding).toBeCloseTo(size * 100 * 0.0005, 8);
+    expect(simulator.getPortfolio().totalFunding).toBeCloseTo(size * 100 * 0.0005, 8);
+  });
+
+  it('should not settle funding when disabled', () => {
+    const simulator = new MarketSimulator(createConfig());
+    openLong(simulator);
+
+    simulator.processCandle(candle(0, 100, 100, 100, 100), 'BTCUSDT');
+    simulator.processCandle(candle(8 * HOUR, 100, 101, 99, 100), 'BTCUSDT');
+
+    expect(simulator.getOpenPosition('BTCUSDT')?.funding).toBeUndefined();
+  });
+});
+
+describe('MarketSimulator trailing stops', () => {
+  function openTrailingLong(simulator: MarketSimulator, trailingStop: TrailingStopConfig): void {
+    simulator.openPosition(
+      longSignal,
+      candle(0, 100, 100, 100, 100),
+      'BTCUSDT',
+      undefined,
+      undefined,
+      trailingStop,
+      1
+    );
+  }
+
+  const currentStop = (simulator: MarketSimulator): number | undefined =>
+    simulator.getOpenPosition('BTCUSDT')?.trailingStop?.currentStop;
+
+  it('should keep the percent trail with breakeven clamp by default', () => {
+    const simulator = new MarketSimulator(createConfig());
+    openTrailingLong(simulator, { enabled: true, activationPercent: 2, trailPercent: 1 });
+
+    simulator.processCandle(candle(4 * HOUR, 100, 103, 99.5, 102), 'BTCUSDT');
+
+    expect(currentStop(simulator)).toBeCloseTo(101.97, 8);
+  });
+
+  it('should trail by ATR multiple from the highest price and never loosen', () => {
+    const simulator = new MarketSimulator(createConfig());
+    openTrailingLong(simulator, { enabled: true, type: 'atr', atrMultiple: 2 });
+
+    simulator.processCandle(candle(4 * HOUR, 100, 110, 99.5, 109), 'BTCUSDT', undefined, { atr: 2 });
+    expect(currentStop(simulator)).toBeCloseTo(106, 8);
+
+    // Wyższy ATR nie może obniżyć stopu
+    simulator.processCandle(candle(8 * HOUR, 109, 109.5, 107, 108), 'BTCUSDT', undefined, { atr: 3 });
+    expect(currentStop(simulator)).toBeCloseTo(106, 8);
+
+    const [trade] = simulator.processCandle(candle(12 * HOUR, 108, 108, 105, 105.5), 'BTCUSDT');
+    expect(trade.exitReason).toBe('trailing_stop');
+    expect(trade.exitPrice).toBeCloseTo(106, 8);
+  });
+
+  it('should trail a chandelier exit from the highest high of the window', () => {
+    const simulator = new MarketSimulator(createConfig());
+    openTrailingLong(simulator, { enabled: true, type: 'chandelier', atrMultiple: 3 });
+
+    simulator.processCandle(candle(4 * HOUR, 100, 104, 99.5, 103), 'BTCUSDT', undefined, {
+      atr: 1,
+      highestHigh: 104,
+      lowestLow: 95,
+    });
+
+    expect(currentStop(simulator)).toBeCloseTo(101, 8);
+  });
+
+  it('should trail along an indicator line without breakeven clamp', () => {
+    const simulator = new MarketSimulator(createConfig());
+    openTrailingLong(simulator, { enabled: true, type: 'indicator', reference: 'smma33' });
+
+    simulator.processCandle(candle(4 * HOUR, 100, 101, 99.5, 100.5), 'BTCUSDT', undefined, {
+      longLevel: 97,
+    });
+
+    expect(currentStop(simulator)).toBeCloseTo(97, 8);
+  });
+
+  it('should clamp an indicator trail to breakeven when enabled', () => {
+    const simulator = new MarketSimulator(createConfig());
+    openTrailingLong(simulator, {
+      enabled: true,
+      type: 'indicator',
+      reference: 'smma33',
+      breakevenClamp: true,
+    });
+
+    simulator.processCandle(candle(4 * HOUR, 100, 101, 99.5, 100.5), 'BTCUSDT', undefined, {
+      longLevel: 97,
+    });
+
+    expect(currentStop(simulator)).toBeCloseTo(100, 8);
+  });
+});
+
+describe('MarketSimulator take profit ladder', () => {
+  const ladder: TakeProfitConfig = {
+    type: 'risk_reward',
+    value: 0,
+    ladder: [
+      { rMultiple: 1, sizePercent: 50 },
+      { rMultiple: 2, sizePercent: 30 },
+    ],
+  };
+
+  /**
+   * Long @100 z SL 98 (1R = 2) - cele 102 i 104
+   */
+  function openLadderLong(simulator: MarketSimulator, takeProfit: TakeProfitConfig): void {
+    simulator.openPosition(
+      longSignal,
+      candle(0, 100, 100, 100, 100),
+      'BTCUSDT',
+      { type: 'fixed_percent', value: 2 },
+      takeProfit,
+      undefined,
+      1
+    );
+  }
+
+  it('should close part of the position at each target and keep the rest open', () => {
+    const simulator = new MarketSimulator(createConfig());
+    openLadderLong(simulator, ladder);
+    const position = simulator.getOpenPosition('BTCUSDT');
+
+    const [first] = simulator.processCandle(candle(4 * HOUR, 100, 103, 99.5, 102.5), 'BTCUSDT');
+
+    expect(first.exitPrice).toBeCloseTo(102, 8);
+    expect(first.size).toBeCloseTo(25, 8);
+    expect(first.partial).toBe(true);
+    expect(first.positionId).toBe(position?.id);
+    expect(simulator.getOpenPosition('BTCUSDT')?.size).toBeCloseTo(25, 8);
+
+    const [second] = simulator.processCandle(candle(8 * HOUR, 102.5, 104.5, 102, 104), 'BTCUSDT');
+
+    expect(second.exitPrice).toBeCloseTo(104, 8);
+    expect(second.size).toBeCloseTo(15, 8);
+    expect(second.positionId).toBe(position?.id);
+    expect(simulator.getOpenPosition('BTCUSDT')?.size).toBeCloseTo(10, 8);
+  });
+
+  it('should fill several targets reached on the same candle', () => {
+    const simulator = new MarketSimulator(createConfig());
+    openLadderLong(simulator, ladder);
+
+    const trades = simulator.processCandle(candle(4 * HOUR, 100, 104.5, 99.5, 104), 'BTCUSDT');
+
+    expect(trades.map((trade) => trade.exitPrice)).toEqual([102, 104]);
+    expect(simulator.getPortfolio().currentCapital).toBeCloseTo(10000 + 25 * 2 + 15 * 4, 8);
+  });
+
+  it('should move the stop to breakeven after the first target', () => {
+    const simulator = new MarketSimulator(createConfig());
+    openLadderLong(simulator, { ...ladder, moveStopToBreakeven: true });
+
+    simulator.processCandle(candle(4 * HOUR, 100, 103, 99.5, 102.5), 'BTCUSDT');
+    expect(simulator.getOpenPosition('BTCUSDT')?.stopLoss).toBe(100);
+
+    const [trade] = simulator.processCandle(candle(8 * HOUR, 102.5, 102.8, 99, 99.5), 'BTCUSDT');
+
+    expect(trade.exitReason).toBe('stop_loss');
+    expect(trade.exitPrice).toBe(100);
+    expect(trade.partial).toBeUndefined();
+    expect(simulator.hasOpenPosition('BTCUSDT')).toBe(false);
+  });
+
+  it('should count partial closes of one position as a single trade in metrics', () => {
+    const simulator = new MarketSimulator(createConfig());
+    openLadderLong(simulator, { ...ladder, moveStopToBreakeven: true });
+
+    simulator.processCandle(candle(4 * HOUR, 100, 103, 99.5, 102.5), 'BTCUSDT');
+    simulator.processCandle(candle(8 * HOUR, 102.5, 102.8, 99, 99.5), 'BTCUSDT');
+
+    const trades = simulator.getTrades();
+    const portfolio = simulator.getPortfolio();
+    const metrics = calculateBacktestMetrics(
+      trades,
+      [{ timestamp: 8 * HOUR, equity: portfolio.equity, drawdown: 0, drawdownPercent: 0, openPositions: 0 }],
+      10000,
+      0,
+      8 * HOUR
+    );
+
+    expect(trades).toHaveLength(2);
+    expect(metrics.totalTrades).toBe(1);
+    expect(metrics.winningTrades).toBe(1);
+    expect(metrics.avgTrade).toBeCloseTo(1, 8);
+  });
+});
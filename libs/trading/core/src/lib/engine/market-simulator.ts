@@ -1,24 +1,88 @@
-import { OHLCV } from '../types/ohlcv';
-import { ExitReason, StopLossConfig, TakeProfitConfig, TrailingStopConfig } from '../types/strategy';
-import { Order, OrderStatus, Position, Portfolio, Trade, Signal } from '../types/trading';
-import { BacktestConfig } from '../types/backtest';
+import { FundingRate, OHLCV } from '../types/ohlcv';
+import {
+  ExitReason,
+  OrderType,
+  PositionSide,
+  PositionSizingConfig,
+  RiskManagementConfig,
+  StopLossConfig,
+  TakeProfitConfig,
+  TrailingStopConfig,
+} from '../types/strategy';
+import {
+  Order,
+  OrderCancelReason,
+  Position,
+  Portfolio,
+  PositionSizingInfo,
+  Trade,
+  Signal,
+  TakeProfitTargetState,
+} from '../types/trading';
+import { BacktestConfig, FeeTier } from '../types/backtest';
+import { mergePartialTrades } from './metrics-calculator';
 import { randomUUID } from 'crypto';
 
 // Użyj natywnego crypto.randomUUID dla generowania UUID
 const uuidv4 = (): string => randomUUID();
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Poziom wyjścia z pozycji (SL, TP, trailing stop)
+ */
+interface ExitLevel {
+  price: number;
+  reason: ExitReason;
+  triggersBelow: boolean; // true = trafiony gdy cena <= price, false = gdy cena >= price
+  target?: TakeProfitTargetState; // Cel drabinki TP - zamyka tylko część pozycji
+}
+
+/**
+ * Oczekujące zlecenie wejścia wraz z parametrami pozycji do otwarcia po wypełnieniu
+ */
+interface PendingEntry {
+  order: Order;
+  stopLossConfig?: StopLossConfig;
+  takeProfitConfig?: TakeProfitConfig;
+  trailingStopConfig?: TrailingStopConfig;
+  riskPercent: number;
+  atrValue?: number;
+  barsRemaining: number;
+}
+
+/**
+ * Dane rynkowe do przesunięcia trailing stopów (wartości z zamknięcia bieżącej świecy)
+ */
+export interface TrailingStopInputs {
+  atr?: number;
+  highestHigh?: number; // Najwyższe high z okresu chandelier
+  lowestLow?: number; // Najniższe low z okresu chandelier
+  longLevel?: number; // Linia wskaźnika dla longów (typ indicator)
+  shortLevel?: number; // Linia wskaźnika dla shortów (typ indicator)
+}
+
 /**
  * Symulator rynku dla backtestingu
  * Symuluje wykonanie zleceń, zarządzanie pozycjami i portfelem
  */
 export class MarketSimulator {
   private readonly config: BacktestConfig;
+  private readonly riskManagement?: RiskManagementConfig;
   private portfolio: Portfolio;
-  private pendingOrders: Order[] = [];
+  private pendingOrders: PendingEntry[] = [];
+  private orders: Order[] = [];
   private trades: Trade[] = [];
-
-  constructor(config: BacktestConfig) {
+  private fundingRates = new Map<string, FundingRate[]>();
+  private lastFundingCheck = new Map<string, number>();
+  private lastCandles = new Map<string, OHLCV>(); // Dla modelu poślizgu 'volume'
+  private atrValues = new Map<string, number>(); // Poślizg 'atr', sizing 'volatility'
+  private priceStdevValues = new Map<string, number>(); // Sizing 'volatility' ze źródłem 'stdev'
+  private feeVolume: { timestamp: number; notional: number }[] = []; // Wolumen dla progów prowizji
+
+  constructor(config: BacktestConfig, riskManagement?: RiskManagementConfig) {
     this.config = config;
+    this.riskManagement = riskManagement;
     this.portfolio = this.initializePortfolio();
   }
 
@@ -35,31 +99,63 @@ export class MarketSimulator {
       totalPnl: 0,
       totalPnlPercent: 0,
       totalCommission: 0,
+      marginUsed: 0,
+      totalFunding: 0,
     };
   }
 
   /**
    * Przetwórz świecę - sprawdź SL/TP, wypełnij zlecenia
+   * @param intrabarCandles - opcjonalne świece 1m wewnątrz świecy (dla fillModel 'realistic')
+   * @param trailingInputs - ATR / poziomy wskaźników dla trailing stopów typu atr, chandelier, indicator
    */
-  processCandle(candle: OHLCV, symbol: string): Trade[] {
+  processCandle(
+    candle: OHLCV,
+    symbol: string,
+    intrabarCandles?: OHLCV[],
+    trailingInputs?: TrailingStopInputs
+  ): Trade[] {
     const completedTrades: Trade[] = [];
+    this.lastCandles.set(symbol, candle);
 
-    // Sprawdź stop loss i take profit dla otwartych pozycji
-    for (const position of [...this.portfolio.openPositions]) {
-      const trade = this.checkPositionExits(position, candle);
-      if (trade) {
-        completedTrades.push(trade);
-        this.removePosition(position);
-      } else {
+    // Rozlicz funding przypadający od poprzedniej świecy (pozycje otwarte w chwili rozliczenia)
+    this.settleFunding(candle, symbol);
+
+    // Sprawdź stop loss i take profit dla otwartych pozycji symbolu
+    for (const position of this.getSymbolPositions(symbol)) {
+      // Pozycja mogła zostać zamknięta razem z grupą (pyramiding.exitMode 'all')
+      if (!this.portfolio.openPositions.includes(position)) {
+        continue;
+      }
+
+      const trades = this.checkPositionExits(
+        position,
+        candle,
+        intrabarCandles,
+        this.getExitGroup(position)
+      );
+      completedTrades.push(...trades);
+
+      // Pozycja nadal otwarta (brak wyjścia lub częściowe zamknięcie)
+      if (this.portfolio.openPositions.includes(position)) {
         // Aktualizuj trailing stop
-        this.updateTrailingStop(position, candle);
+        this.updateTrailingStop(position, candle, trailingInputs);
         // Aktualizuj niezrealizowany P&L
         this.updateUnrealizedPnl(position, candle);
       }
     }
 
+    // Wypełnij oczekujące zlecenia limit / stop_market
+    // (SL/TP nowych pozycji sprawdzane od następnej świecy)
+    for (const position of this.processPendingOrders(candle, symbol)) {
+      this.updateUnrealizedPnl(position, candle);
+    }
+
+    // Cross margin - ceny likwidacji zależą od wyniku wszystkich pozycji
+    this.updateLiquidationPrices();
+
     // Aktualizuj equity
-    this.updateEquity(candle);
+    this.updateEquity();
 
     return completedTrades;
   }
@@ -83,8 +179,55 @@ export class MarketSimulator {
 
     const side = signal.type === 'entry_long' ? 'long' : 'short';
 
-    // Oblicz cenę wejścia z uwzględnieniem slippage
-    const entryPrice = this.applySlippage(signal.price, side === 'long');
+    this.cancelOrdersForNewEntry(symbol, side, candle.timestamp);
+    this.lastCandles.set(symbol, candle);
+
+    return this.createPosition(
+      side,
+      signal.price,
+      candle.timestamp,
+      symbol,
+      stopLossConfig,
+      takeProfitConfig,
+      trailingStopConfig,
+      riskPercent,
+      atrValue
+    );
+  }
+
+  /**
+   * Utwórz pozycję wypełnioną po danej cenie
+   * @param orderType - limit wypełniany bez poślizgu z prowizją maker, pozostałe jako taker z poślizgiem
+   */
+  private createPosition(
+    side: PositionSide,
+    fillPrice: number,
+    entryTime: number,
+    symbol: string,
+    stopLossConfig: StopLossConfig | undefined,
+    takeProfitConfig: TakeProfitConfig | undefined,
+    trailingStopConfig: TrailingStopConfig | undefined,
+    riskPercent: number,
+    atrValue?: number,
+    orderType: OrderType = 'market'
+  ): Position | null {
+    const isMaker = orderType === 'limit';
+
+    // Poślizg liczony dla wielkości zlecenia oszacowanej po cenie przed poślizgiem
+    const estimate = this.calculatePositionSize(
+      fillPrice,
+      side,
+      symbol,
+      this.calculateStopLoss(fillPrice, side, stopLossConfig, atrValue),
+      riskPercent,
+      atrValue
+    );
+    if (!estimate) {
+      return null;
+    }
+
+    const slippage = isMaker ? 0 : this.getSlippage(fillPrice, estimate.size, symbol, atrValue);
+    const entryPrice = side === 'long' ? fillPrice + slippage : fillPrice - slippage;
 
     // Oblicz stop loss
     const stopLoss = this.calculateStopLoss(
@@ -94,14 +237,24 @@ export class MarketSimulator {
       atrValue
     );
 
-    // Oblicz wielkość pozycji na podstawie ryzyka
-    const riskAmount = this.portfolio.currentCapital * (riskPercent / 100);
-    const riskPerUnit = stopLoss ? Math.abs(entryPrice - stopLoss) : entryPrice * 0.02;
-    const size = riskAmount / riskPerUnit;
+    const entryLevel = this.getSymbolPositions(symbol).filter((p) => p.side === side).length;
+    const sizing = this.calculatePositionSize(
+      entryPrice,
+      side,
+      symbol,
+      stopLoss,
+      riskPercent,
+      atrValue
+    );
+    if (!sizing || sizing.size <= 0) {
+      return null;
+    }
+    const { size } = sizing;
 
-    // Sprawdź czy mamy wystarczający kapitał
+    // Sprawdź czy mamy wystarczający kapitał na depozyt początkowy
     const positionValue = size * entryPrice;
-    if (positionValue > this.portfolio.availableCapital) {
+    const margin = positionValue * this.getInitialMarginRate();
+    if (margin > this.portfolio.availableCapital) {
       return null;
     }
 
@@ -114,9 +267,9 @@ export class MarketSimulator {
       atrValue
     );
 
-    // Oblicz prowizję
-    const commission = this.calculateCommission(positionValue);
-    this.portfolio.totalCommission += commission;
+    // Oblicz prowizję (rozliczana razem z wynikiem przy zamknięciu)
+    const entryFee = this.calculateFee(positionValue, isMaker, entryTime);
+    this.portfolio.totalCommission += entryFee;
 
     // Utwórz pozycję
     const position: Position = {
@@ -125,42 +278,486 @@ export class MarketSimulator {
       side,
       entryPrice,
       size,
-      entryTime: candle.timestamp,
+      entryTime,
       stopLoss,
+      initialStopLoss: stopLoss,
       takeProfit,
+      initialSize: size,
+      takeProfitTargets: this.calculateTakeProfitLadder(
+        entryPrice,
+        side,
+        size,
+        takeProfitConfig,
+        stopLoss
+      ),
+      moveStopToBreakeven: takeProfitConfig?.moveStopToBreakeven,
       trailingStop: trailingStopConfig?.enabled
-        ? {
-            active: false,
-            highestPrice: side === 'long' ? entryPrice : undefined,
-            lowestPrice: side === 'short' ? entryPrice : undefined,
-            // Zapisz konfigurację z strategii!
-            activationPercent: trailingStopConfig.activationPercent ?? 2.0,
-            trailPercent: trailingStopConfig.trailPercent ?? 1.0,
-          }
+        ? this.createTrailingStop(side, entryPrice, trailingStopConfig)
         : undefined,
+      entryLevel,
+      leverage: this.getLeverage(),
+      margin,
+      entryFee,
+      entrySlippage: slippage * size,
+      sizing,
     };
 
     // Dodaj do portfela
     this.portfolio.openPositions.push(position);
-    this.portfolio.availableCapital -= positionValue;
+    this.portfolio.availableCapital -= margin;
+    this.portfolio.marginUsed += margin;
+    this.updateLiquidationPrices();
+
+    this.updateAverageEntryPrice(symbol, side);
+
+    // Wspólne SL/TP liczone od średniej ceny wejścia wszystkich nóg
+    if (entryLevel > 0 && this.riskManagement?.pyramiding?.exitMode === 'all') {
+      this.syncGroupExitLevels(symbol, side, stopLossConfig, takeProfitConfig, atrValue);
+    }
 
     return position;
   }
 
+  /**
+   * Oblicz wielkość pozycji według trybu sizingu z RiskManagementConfig
+   * Kolejne nogi piramidy skalowane przez sizeMultiplier, depozyt ograniczony przez maxPositionSize
+   * @returns null gdy Kelly nie wskazuje przewagi (brak wejścia)
+   */
+  private calculatePositionSize(
+    entryPrice: number,
+    side: PositionSide,
+    symbol: string,
+    stopLoss: number | undefined,
+    riskPercent: number,
+    atrValue?: number
+  ): PositionSizingInfo | null {
+    const config = this.riskManagement?.sizing;
+    const mode = config?.mode ?? 'risk';
+    const equity = this.portfolio.equity;
+    let sized: Pick<PositionSizingInfo, 'reason' | 'size'> | null;
+
+    switch (mode) {
+      case 'fixed_notional':
+        sized = { reason: 'fixed_notional', size: (config?.notional ?? 0) / entryPrice };
+        break;
+
+      case 'fixed_fraction':
+        sized = {
+          reason: 'fixed_fraction',
+          size: (equity * ((config?.fraction ?? 0) / 100)) / entryPrice,
+        };
+        break;
+
+      case 'volatility': {
+        const volatility = this.getVolatility(symbol, config, atrValue);
+        sized = volatility
+          ? {
+              reason: 'volatility',
+              size: (equity * ((config?.targetVolatility ?? 1) / 100)) / volatility,
+            }
+          : {
+              ...this.sizeByRisk(entryPrice, stopLoss, riskPercent, config),
+              reason: 'volatility_unavailable',
+            };
+        break;
+      }
+
+      case 'kelly':
+        sized = this.sizeByKelly(entryPrice, stopLoss, riskPercent, config);
+        break;
+
+      case 'risk':
+      default:
+        sized = this.sizeByRisk(entryPrice, stopLoss, riskPercent, config);
+    }
+
+    if (!sized) {
+      return null;
+    }
+
+    // Piramidowanie - kolejne poziomy skalowane przez sizeMultiplier
+    const entryLevel = this.getSymbolPositions(symbol).filter((p) => p.side === side).length;
+    const sizeMultiplier = this.riskManagement?.pyramiding?.sizeMultiplier ?? 1;
+    const requestedSize = sized.size * Math.pow(sizeMultiplier, entryLevel);
+    const info: PositionSizingInfo = {
+      mode,
+      reason: sized.reason,
+      size: requestedSize,
+      requestedSize,
+    };
+
+    // Depozyt pozycji nie większy niż maxPositionSize % kapitału
+    const maxPositionSize = this.riskManagement?.maxPositionSize;
+    if (maxPositionSize) {
+      const maxMargin = this.portfolio.currentCapital * (maxPositionSize / 100);
+      const maxSize = maxMargin / (entryPrice * this.getInitialMarginRate());
+      if (requestedSize > maxSize) {
+        info.size = maxSize;
+        info.reason = 'max_position_size';
+      }
+    }
+
+    return info;
+  }
+
+  /**
+   * Wielkość pozycji ryzykującej riskPercent % kapitału na odległość SL
+   * Bez SL ryzyko liczone od defaultStopPercent (domyślnie 2%) - powód 'default_stop'
+   */
+  private sizeByRisk(
+    entryPrice: number,
+    stopLoss: number | undefined,
+    riskPercent: number,
+    config?: PositionSizingConfig
+  ): Pick<PositionSizingInfo, 'reason' | 'size'> {
+    const riskAmount = this.portfolio.currentCapital * (riskPercent / 100);
+    const riskPerUnit = stopLoss
+      ? Math.abs(entryPrice - stopLoss)
+      : entryPrice * ((config?.defaultStopPercent ?? 2) / 100);
+
+    return { reason: stopLoss ? 'risk' : 'default_stop', size: riskAmount / riskPerUnit };
+  }
+
+  /**
+   * Ułamek Kelly z ostatnich zamkniętych pozycji jako ryzyko na transakcję
+   * Przed kellyMinTrades pozycjami sizing 'risk', bez przewagi (Kelly <= 0) brak wejścia
+   */
+  private sizeByKelly(
+    entryPrice: number,
+    stopLoss: number | undefined,
+    riskPercent: number,
+    config?: PositionSizingConfig
+  ): Pick<PositionSizingInfo, 'reason' | 'size'> | null {
+    const openIds = new Set(this.portfolio.openPositions.map((p) => p.id));
+    const closed = mergePartialTrades(this.trades).filter((t) => !openIds.has(t.positionId));
+    const recent = closed.slice(-(config?.kellyLookback ?? 50));
+
+    if (recent.length < (config?.kellyMinTrades ?? 20)) {
+      return {
+        ...this.sizeByRisk(entryPrice, stopLoss, riskPercent, config),
+        reason: 'kelly_warmup',
+      };
+    }
+
+    const wins = recent.filter((t) => t.netPnl > 0);
+    const losses = recent.filter((t) => t.netPnl <= 0);
+    const winRate = wins.length / recent.length;
+    const avgWin = wins.reduce((sum, t) => sum + t.netPnl, 0) / (wins.length || 1);
+    const avgLoss = Math.abs(losses.reduce((sum, t) => sum + t.netPnl, 0)) / (losses.length || 1);
+
+    // f* = W - (1 - W) / R, gdzie R = średni zysk / średnia strata
+    const kelly = avgLoss > 0 ? winRate - (1 - winRate) / (avgWin / avgLoss) : winRate;
+    if (!(kelly > 0)) {
+      return null;
+    }
+
+    const kellyRisk = kelly * (config?.kellyFraction ?? 0.5) * 100;
+    return { ...this.sizeByRisk(entryPrice, stopLoss, kellyRisk, config), reason: 'kelly' };
+  }
+
+  /**
+   * Zmienność ceny dla sizingu 'volatility' (ATR lub odchylenie standardowe zmian ceny)
+   */
+  private getVolatility(
+    symbol: string,
+    config: PositionSizingConfig | undefined,
+    atrValue?: number
+  ): number | undefined {
+    const volatility = config?.volatilitySource === 'stdev'
+      ? this.priceStdevValues.get(symbol)
+      : atrValue ?? this.atrValues.get(symbol);
+
+    return volatility && volatility > 0 ? volatility : undefined;
+  }
+
+  /**
+   * Przelicz średnią cenę wejścia (ważoną wielkością) dla nóg danej strony
+   */
+  private updateAverageEntryPrice(symbol: string, side: PositionSide): void {
+    const legs = this.getSymbolPositions(symbol).filter((p) => p.side === side);
+    const totalSize = legs.reduce((sum, p) => sum + p.size, 0);
+    if (totalSize === 0) return;
+
+    const averageEntryPrice = legs.reduce((sum, p) => sum + p.entryPrice * p.size, 0) / totalSize;
+    for (const leg of legs) {
+      leg.averageEntryPrice = averageEntryPrice;
+    }
+  }
+
+  /**
+   * Ustaw SL/TP wszystkich nóg na poziomy liczone od średniej ceny wejścia
+   */
+  private syncGroupExitLevels(
+    symbol: string,
+    side: PositionSide,
+    stopLossConfig?: StopLossConfig,
+    takeProfitConfig?: TakeProfitConfig,
+    atrValue?: number
+  ): void {
+    const legs = this.getSymbolPositions(symbol).filter((p) => p.side === side);
+    const averageEntryPrice = legs[0]?.averageEntryPrice;
+    if (averageEntryPrice === undefined) return;
+
+    const stopLoss = this.calculateStopLoss(averageEntryPrice, side, stopLossConfig, atrValue);
+    const takeProfit = this.calculateTakeProfit(
+      averageEntryPrice,
+      side,
+      takeProfitConfig,
+      stopLoss,
+      atrValue
+    );
+
+    for (const leg of legs) {
+      leg.stopLoss = stopLoss;
+      leg.takeProfit = takeProfit;
+    }
+  }
+
+  /**
+   * Złóż oczekujące zlecenie wejścia (limit / stop_market) na podstawie sygnału
+   * Zlecenie może zostać wypełnione od następnej świecy, przez signal.expiryBars świec
+   */
+  placeEntryOrder(
+    signal: Signal,
+    candle: OHLCV,
+    symbol: string,
+    stopLossConfig?: StopLossConfig,
+    takeProfitConfig?: TakeProfitConfig,
+    trailingStopConfig?: TrailingStopConfig,
+    riskPercent = 2,
+    atrValue?: number,
+    timeframeMs?: number
+  ): Order | null {
+    if (signal.type !== 'entry_long' && signal.type !== 'entry_short') {
+      return null;
+    }
+    if (signal.orderType !== 'limit' && signal.orderType !== 'stop_market') {
+      return null;
+    }
+
+    const side: PositionSide = signal.type === 'entry_long' ? 'long' : 'short';
+    const expiryBars = Math.max(1, signal.expiryBars ?? 1);
+
+    this.cancelOrdersForNewEntry(symbol, side, candle.timestamp);
+
+    const order: Order = {
+      id: uuidv4(),
+      symbol,
+      side,
+      type: signal.orderType,
+      price: signal.orderPrice ?? signal.price,
+      size: 0, // Ustalana przy wypełnieniu (zależy od kapitału i ceny wypełnienia)
+      status: 'pending',
+      createdAt: candle.timestamp,
+      expiresAt: timeframeMs ? candle.timestamp + expiryBars * timeframeMs : undefined,
+    };
+
+    this.pendingOrders.push({
+      order,
+      stopLossConfig,
+      takeProfitConfig,
+      trailingStopConfig,
+      riskPercent,
+      atrValue,
+      barsRemaining: expiryBars,
+    });
+    this.orders.push(order);
+
+    return order;
+  }
+
+  /**
+   * Anuluj oczekujące zlecenia (wszystkie lub dla symbolu)
+   */
+  cancelPendingOrders(timestamp: number, reason: OrderCancelReason, symbol?: string): void {
+    for (const order of this.getPendingOrders(symbol)) {
+      this.cancelOrder(order, timestamp, reason);
+    }
+  }
+
+  /**
+   * Nowy sygnał wejścia zastępuje oczekujące zlecenia tej samej strony i anuluje przeciwne
+   */
+  private cancelOrdersForNewEntry(symbol: string, side: PositionSide, timestamp: number): void {
+    for (const order of this.getPendingOrders(symbol)) {
+      this.cancelOrder(order, timestamp, order.side === side ? 'replaced' : 'opposite_signal');
+    }
+  }
+
+  /**
+   * Wypełnij oczekujące zlecenia, których cena została osiągnięta na świecy
+   * Zwraca nowo otwarte pozycje
+   */
+  private processPendingOrders(candle: OHLCV, symbol: string): Position[] {
+    const opened: Position[] = [];
+
+    for (const pending of [...this.pendingOrders]) {
+      const { order } = pending;
+      if (order.symbol !== symbol || candle.timestamp <= order.createdAt) {
+        continue;
+      }
+
+      const fillPrice = this.getOrderFillPrice(order, candle);
+
+      if (fillPrice !== null) {
+        // Limit wypełniany po cenie zlecenia (maker), stop_market jak zlecenie rynkowe
+        const position = this.createPosition(
+          order.side,
+          fillPrice,
+          candle.timestamp,
+          order.symbol,
+          pending.stopLossConfig,
+          pending.takeProfitConfig,
+          pending.trailingStopConfig,
+          pending.riskPercent,
+          pending.atrValue,
+          order.type
+        );
+
+        this.removePendingOrder(order);
+
+        if (position) {
+          order.status = 'filled';
+          order.filledAt = candle.timestamp;
+          order.filledPrice = position.entryPrice;
+          order.size = position.size;
+          order.commission = position.entryFee;
+          opened.push(position);
+        } else {
+          // Brak kapitału na otwarcie pozycji
+          order.status = 'rejected';
+        }
+        continue;
+      }
+
+      pending.barsRemaining--;
+      if (pending.barsRemaining <= 0) {
+        this.cancelOrder(order, candle.timestamp, 'expired');
+      }
+    }
+
+    return opened;
+  }
+
+  /**
+   * Cena wypełnienia zlecenia na świecy lub null jeśli cena nie została osiągnięta
+   * Przy luce cenowej zlecenie wypełnia się po cenie otwarcia
+   */
+  private getOrderFillPrice(order: Order, candle: OHLCV): number | null {
+    const isLong = order.side === 'long';
+
+    if (order.type === 'limit') {
+      if (isLong && candle.low <= order.price) return Math.min(candle.open, order.price);
+      if (!isLong && candle.high >= order.price) return Math.max(candle.open, order.price);
+      return null;
+    }
+
+    // stop_market
+    if (isLong && candle.high >= order.price) return Math.max(candle.open, order.price);
+    if (!isLong && candle.low <= order.price) return Math.min(candle.open, order.price);
+    return null;
+  }
+
+  /**
+   * Ustaw historię stawek funding dla symbolu (posortowaną rosnąco po timestamp)
+   */
+  setFundingRates(symbol: string, rates: FundingRate[]): void {
+    this.fundingRates.set(symbol, [...rates].sort((a, b) => a.timestamp - b.timestamp));
+  }
+
+  /**
+   * Rozlicz funding dla pozycji symbolu w rozliczeniach z przedziału (poprzednia świeca, bieżąca świeca]
+   * Wartość pozycji liczona po cenie otwarcia świecy
+   */
+  private settleFunding(candle: OHLCV, symbol: string): void {
+    const previous = this.lastFundingCheck.get(symbol);
+    this.lastFundingCheck.set(symbol, candle.timestamp);
+
+    if (!this.config.funding?.enabled || previous === undefined) {
+      return;
+    }
+
+    const positions = this.getSymbolPositions(symbol);
+    if (positions.length === 0) {
+      return;
+    }
+
+    for (const { rate } of this.getFundingEvents(symbol, previous, candle.timestamp)) {
+      for (const position of positions) {
+        const notional = position.size * candle.open;
+        // Dodatnia stawka - long płaci, short otrzymuje
+        const payment = position.side === 'long' ? -notional * rate : notional * rate;
+
+        position.funding = (position.funding ?? 0) + payment;
+        this.portfolio.currentCapital += payment;
+        this.portfolio.availableCapital += payment;
+        this.portfolio.totalFunding += payment;
+      }
+    }
+  }
+
+  /**
+   * Rozliczenia funding z przedziału (from, to]
+   * Z zapisanej historii lub co intervalHours po stawce domyślnej
+   */
+  private getFundingEvents(symbol: string, from: number, to: number): FundingRate[] {
+    const history = this.fundingRates.get(symbol);
+    if (history && history.length > 0) {
+      return history.filter((f) => f.timestamp > from && f.timestamp <= to);
+    }
+
+    const intervalMs = (this.config.funding?.intervalHours ?? 8) * 60 * 60 * 1000;
+    const rate = this.config.funding?.defaultRate ?? 0.0001;
+    const events: FundingRate[] = [];
+
+    for (let ts = Math.floor(from / intervalMs) * intervalMs + intervalMs; ts <= to; ts += intervalMs) {
+      events.push({ timestamp: ts, rate });
+    }
+
+    return events;
+  }
+
+  /**
+   * Anuluj zlecenie
+   */
+  private cancelOrder(order: Order, timestamp: number, reason: OrderCancelReason): void {
+    order.status = 'cancelled';
+    order.cancelledAt = timestamp;
+    order.cancelReason = reason;
+    this.removePendingOrder(order);
+  }
+
+  /**
+   * Usuń zlecenie z listy oczekujących
+   */
+  private removePendingOrder(order: Order): void {
+    const index = this.pendingOrders.findIndex((p) => p.order.id === order.id);
+    if (index !== -1) {
+      this.pendingOrders.splice(index, 1);
+    }
+  }
+
   /**
    * Zamknij pozycję
+   * @param size - wielkość do zamknięcia (domyślnie cała pozycja); mniejsza = częściowe zamknięcie
    */
   closePosition(
     position: Position,
     exitPrice: number,
     exitTime: number,
-    exitReason: ExitReason
+    exitReason: ExitReason,
+    size = position.size
   ): Trade {
-    // Zastosuj slippage
-    const finalExitPrice = this.applySlippage(
-      exitPrice,
-      position.side === 'short' // Dla short kupujemy, więc slippage w górę
-    );
+    // Pozostałość poniżej precyzji obliczeń zamykana w całości
+    const closeSize = size < position.size * (1 - 1e-9) ? size : position.size;
+    const partial = closeSize < position.size;
+    const fraction = closeSize / position.size;
+
+    // Zastosuj slippage (dla short kupujemy, więc slippage w górę)
+    const exitSlippage = this.getSlippage(exitPrice, closeSize, position.symbol);
+    const finalExitPrice = position.side === 'short'
+      ? exitPrice + exitSlippage
+      : exitPrice - exitSlippage;
 
     // Oblicz P&L
     const priceDiff =
@@ -168,15 +765,18 @@ export class MarketSimulator {
         ? finalExitPrice - position.entryPrice
         : position.entryPrice - finalExitPrice;
 
-    const pnl = priceDiff * position.size;
+    const pnl = priceDiff * closeSize;
     const pnlPercent = (priceDiff / position.entryPrice) * 100;
 
-    // Oblicz prowizję
-    const positionValue = position.size * finalExitPrice;
-    const commission = this.calculateCommission(positionValue);
-    this.portfolio.totalCommission += commission;
+    // Oblicz prowizję - wyjścia oraz część prowizji wejścia przypadająca na zamykaną wielkość
+    const exitFee = this.calculateFee(closeSize * finalExitPrice, false, exitTime);
+    const entryFee = (position.entryFee ?? 0) * fraction;
+    const commission = entryFee + exitFee;
+    this.portfolio.totalCommission += exitFee;
 
-    const netPnl = pnl - commission;
+    // Funding i depozyt przypadające na zamykaną część
+    const funding = (position.funding ?? 0) * fraction;
+    const netPnl = pnl - commission + funding;
 
     // Utwórz trade
     const trade: Trade = {
@@ -185,152 +785,405 @@ export class MarketSimulator {
       side: position.side,
       entryPrice: position.entryPrice,
       exitPrice: finalExitPrice,
-      size: position.size,
+      size: closeSize,
       entryTime: position.entryTime,
       exitTime,
       pnl,
       pnlPercent,
       commission,
+      entryFee,
+      exitFee,
+      slippage: (position.entrySlippage ?? 0) * fraction + exitSlippage * closeSize,
       netPnl,
       exitReason,
       holdingTime: exitTime - position.entryTime,
+      entryLevel: position.entryLevel,
+      averageEntryPrice: position.averageEntryPrice,
+      funding: position.funding !== undefined ? funding : undefined,
+      positionId: position.id,
+      sizing: position.sizing,
     };
 
-    // Aktualizuj portfel
-    this.portfolio.currentCapital += netPnl;
-    this.portfolio.availableCapital += positionValue;
+    if (partial) {
+      trade.partial = true;
+    }
+
+    // Aktualizuj portfel - zwolnij depozyt (funding rozliczony już w kapitale)
+    const margin = (position.margin ?? 0) * fraction;
+    this.portfolio.currentCapital += netPnl - funding;
+    this.portfolio.availableCapital += margin + netPnl - funding;
+    this.portfolio.marginUsed -= margin;
     this.portfolio.totalPnl += netPnl;
     this.portfolio.totalPnlPercent =
       (this.portfolio.totalPnl / this.portfolio.initialCapital) * 100;
 
-    // Zapisz trade
     this.trades.push(trade);
 
+    if (partial) {
+      this.reducePosition(position, closeSize);
+    } else {
+      this.removePosition(position);
+    }
+    this.updateEquity();
+
     return trade;
   }
 
+  /**
+   * Zmniejsz pozycję po częściowym zamknięciu
+   * Depozyt, funding, koszty wejścia i niezrealizowany P&L proporcjonalnie do pozostałej wielkości
+   */
+  private reducePosition(position: Position, closedSize: number): void {
+    const remaining = (position.size - closedSize) / position.size;
+    const scale = (value?: number): number | undefined =>
+      value !== undefined ? value * remaining : undefined;
+
+    position.size -= closedSize;
+    position.margin = scale(position.margin);
+    position.funding = scale(position.funding);
+    position.entryFee = scale(position.entryFee);
+    position.entrySlippage = scale(position.entrySlippage);
+    position.unrealizedPnl = scale(position.unrealizedPnl);
+
+    this.updateAverageEntryPrice(position.symbol, position.side);
+    this.updateLiquidationPrices();
+  }
+
   /**
    * Sprawdź czy pozycja powinna być zamknięta
+   * Gdy na jednej świecy trafiony jest więcej niż jeden poziom, kolejność rozstrzyga fillModel
+   * @param legs - pozycje zamykane razem po trafieniu poziomu (domyślnie tylko sprawdzana pozycja)
    */
-  private checkPositionExits(position: Position, candle: OHLCV): Trade | null {
-    const isLong = position.side === 'long';
+  private checkPositionExits(
+    position: Position,
+    candle: OHLCV,
+    intrabarCandles?: OHLCV[],
+    legs: Position[] = [position]
+  ): Trade[] {
+    const trades: Trade[] = [];
+
+    // Cel drabinki TP zamyka część pozycji - reszta sprawdzana dalej na tej samej świecy
+    for (;;) {
+      const levels = this.getExitLevels(position).filter((level) =>
+        this.isLevelHit(level, candle)
+      );
+
+      if (levels.length === 0) {
+        break;
+      }
 
-    // Sprawdź Stop Loss
-    if (position.stopLoss) {
-      const slHit = isLong
-        ? candle.low <= position.stopLoss
-        : candle.high >= position.stopLoss;
+      const exit = levels.length === 1
+        ? levels[0]
+        : this.resolveExitOrder(position, levels, candle, intrabarCandles);
 
-      if (slHit) {
-        return this.closePosition(
+      if (exit.target) {
+        exit.target.filled = true;
+        const trade = this.closePosition(
           position,
-          position.stopLoss,
+          exit.price,
           candle.timestamp,
-          'stop_loss'
+          exit.reason,
+          exit.target.size
         );
+        if (levels.length > 1) {
+          trade.ambiguousExit = true;
+        }
+        trades.push(trade);
+
+        if (!trade.partial) {
+          return trades;
+        }
+        continue;
       }
-    }
 
-    // Sprawdź Trailing Stop
-    if (position.trailingStop?.active && position.trailingStop.currentStop) {
-      const tsHit = isLong
-        ? candle.low <= position.trailingStop.currentStop
-        : candle.high >= position.trailingStop.currentStop;
+      // Średnia cena grupy sprzed zamknięcia pierwszej nogi
+      const averageEntryPrice = position.averageEntryPrice;
 
-      if (tsHit) {
-        return this.closePosition(
-          position,
-          position.trailingStop.currentStop,
-          candle.timestamp,
-          'trailing_stop'
-        );
+      // Likwidacja dotyczy tylko pozycji, której depozyt się wyczerpał
+      const closing = exit.reason === 'liquidation' ? [position] : legs;
+
+      for (const leg of closing) {
+        const trade = this.closePosition(leg, exit.price, candle.timestamp, exit.reason);
+        trade.averageEntryPrice = averageEntryPrice;
+        if (levels.length > 1) {
+          trade.ambiguousExit = true;
+        }
+        trades.push(trade);
       }
+      return trades;
     }
 
-    // Sprawdź Take Profit
-    if (position.takeProfit) {
-      const tpHit = isLong
-        ? candle.high >= position.takeProfit
-        : candle.low <= position.takeProfit;
-
-      if (tpHit) {
-        return this.closePosition(
-          position,
-          position.takeProfit,
-          candle.timestamp,
-          'take_profit'
-        );
-      }
+    // Po osiągnięciu celu SL przesuwany na cenę wejścia (obowiązuje od następnej świecy)
+    if (trades.length > 0 && position.moveStopToBreakeven) {
+      const isLong = position.side === 'long';
+      position.stopLoss = position.stopLoss === undefined
+        ? position.entryPrice
+        : isLong
+          ? Math.max(position.stopLoss, position.entryPrice)
+          : Math.min(position.stopLoss, position.entryPrice);
     }
 
-    return null;
+    return trades;
   }
 
   /**
-   * Aktualizuj trailing stop
-   * Używa konfiguracji z pozycji (activationPercent, trailPercent)
+   * Pozycje zamykane razem z daną pozycją
+   * Przy pyramiding.exitMode 'all' - wszystkie nogi tej samej strony na symbolu
    */
-  private updateTrailingStop(position: Position, candle: OHLCV): void {
-    if (!position.trailingStop) return;
+  private getExitGroup(position: Position): Position[] {
+    if (this.riskManagement?.pyramiding?.exitMode !== 'all') {
+      return [position];
+    }
+
+    return this.getSymbolPositions(position.symbol).filter((p) => p.side === position.side);
+  }
 
+  /**
+   * Pobierz aktywne poziomy wyjścia pozycji (SL, trailing stop, TP)
+   */
+  private getExitLevels(position: Position): ExitLevel[] {
     const isLong = position.side === 'long';
-    // Użyj konfiguracji z pozycji (ustawionej ze strategii)
-    const activationPct = position.trailingStop.activationPercent ?? 2.0;
-    const trailPct = position.trailingStop.trailPercent ?? 1.0;
-
-    if (isLong) {
-      // Aktualizuj najwyższą cenę
-      if (!position.trailingStop.highestPrice || candle.high > position.trailingStop.highestPrice) {
-        position.trailingStop.highestPrice = candle.high;
-      }
+    const levels: ExitLevel[] = [];
 
-      // Sprawdź czy aktywować trailing stop
-      if (!position.trailingStop.active) {
-        const profitPercent =
-          ((candle.high - position.entryPrice) / position.entryPrice) * 100;
-        // Użyj konfiguracji activationPercent!
-        if (profitPercent >= activationPct) {
-          position.trailingStop.active = true;
-        }
-      }
+    if (position.stopLoss) {
+      levels.push({
+        price: position.stopLoss,
+        reason: 'stop_loss',
+        triggersBelow: isLong,
+      });
+    }
+
+    if (position.trailingStop?.active && position.trailingStop.currentStop) {
+      levels.push({
+        price: position.trailingStop.currentStop,
+        reason: 'trailing_stop',
+        triggersBelow: isLong,
+      });
+    }
 
-      // Oblicz trailing stop level
-      if (position.trailingStop.active && position.trailingStop.highestPrice) {
-        // Użyj konfiguracji trailPercent!
-        position.trailingStop.currentStop =
-          position.trailingStop.highestPrice * (1 - trailPct / 100);
+    if (position.takeProfit) {
+      levels.push({
+        price: position.takeProfit,
+        reason: 'take_profit',
+        triggersBelow: !isLong,
+      });
+    }
+
+    // Najbliższy nieosiągnięty cel drabinki TP
+    const target = position.takeProfitTargets?.find((t) => !t.filled);
+    if (target) {
+      levels.push({
+        price: target.price,
+        reason: 'take_profit',
+        triggersBelow: !isLong,
+        target,
+      });
+    }
 
-        // Nie pozwól aby trailing stop spadł poniżej wejścia (breakeven)
-        if (position.trailingStop.currentStop < position.entryPrice) {
-          position.trailingStop.currentStop = position.entryPrice;
+    if (position.liquidationPrice) {
+      levels.push({
+        price: position.liquidationPrice,
+        reason: 'liquidation',
+        triggersBelow: isLong,
+      });
+    }
+
+    return levels;
+  }
+
+  /**
+   * Sprawdź czy poziom został trafiony na świecy
+   */
+  private isLevelHit(level: ExitLevel, candle: OHLCV): boolean {
+    return level.triggersBelow ? candle.low <= level.price : candle.high >= level.price;
+  }
+
+  /**
+   * Wybierz poziom, który został trafiony jako pierwszy, zgodnie z fillModel
+   */
+  private resolveExitOrder(
+    position: Position,
+    levels: ExitLevel[],
+    candle: OHLCV,
+    intrabarCandles?: OHLCV[]
+  ): ExitLevel {
+    // Wynik wyjścia na danym poziomie (większy = korzystniejszy)
+    const outcome = (level: ExitLevel): number =>
+      position.side === 'long' ? level.price : -level.price;
+
+    switch (this.config.fillModel) {
+      case 'optimistic':
+        return levels.reduce((best, level) => (outcome(level) > outcome(best) ? level : best));
+
+      case 'pessimistic':
+        return levels.reduce((worst, level) => (outcome(level) < outcome(worst) ? level : worst));
+
+      case 'realistic':
+      default: {
+        // Przejdź świece 1m w kolejności - pierwsza, która trafia poziom, rozstrzyga
+        for (const minuteCandle of intrabarCandles ?? []) {
+          const minuteHits = levels.filter((level) => this.isLevelHit(level, minuteCandle));
+          if (minuteHits.length > 0) {
+            return this.findFirstTouched(minuteHits, minuteCandle);
+          }
         }
+
+        // Brak danych 1m - przybliżona ścieżka ceny w obrębie świecy
+        return this.findFirstTouched(levels, candle);
       }
-    } else {
-      // SHORT
-      if (!position.trailingStop.lowestPrice || candle.low < position.trailingStop.lowestPrice) {
-        position.trailingStop.lowestPrice = candle.low;
+    }
+  }
+
+  /**
+   * Znajdź poziom trafiony jako pierwszy na przybliżonej ścieżce ceny świecy
+   * Ścieżka: open → bliższe ekstremum → dalsze ekstremum → close
+   */
+  private findFirstTouched(levels: ExitLevel[], candle: OHLCV): ExitLevel {
+    const highFirst = candle.high - candle.open <= candle.open - candle.low;
+    const path = highFirst
+      ? [candle.open, candle.high, candle.low, candle.close]
+      : [candle.open, candle.low, candle.high, candle.close];
+
+    const touchDistance = (level: ExitLevel): number => {
+      // Poziom przekroczony już na otwarciu (luka cenowa)
+      if (level.triggersBelow ? path[0] <= level.price : path[0] >= level.price) {
+        return 0;
       }
 
-      if (!position.trailingStop.active) {
-        const profitPercent =
-          ((position.entryPrice - candle.low) / position.entryPrice) * 100;
-        // Użyj konfiguracji activationPercent!
-        if (profitPercent >= activationPct) {
-          position.trailingStop.active = true;
+      let travelled = 0;
+      for (let i = 1; i < path.length; i++) {
+        const from = path[i - 1];
+        const to = path[i];
+        if (Math.min(from, to) <= level.price && level.price <= Math.max(from, to)) {
+          return travelled + Math.abs(level.price - from);
         }
+        travelled += Math.abs(to - from);
       }
 
-      if (position.trailingStop.active && position.trailingStop.lowestPrice) {
-        // Użyj konfiguracji trailPercent!
-        position.trailingStop.currentStop =
-          position.trailingStop.lowestPrice * (1 + trailPct / 100);
+      return Infinity;
+    };
 
-        // Nie pozwól aby trailing stop wzrósł powyżej wejścia (breakeven)
-        if (position.trailingStop.currentStop > position.entryPrice) {
-          position.trailingStop.currentStop = position.entryPrice;
-        }
+    return levels.reduce((first, level) =>
+      touchDistance(level) < touchDistance(first) ? level : first
+    );
+  }
+
+  /**
+   * Utwórz stan trailing stopu z konfiguracji strategii
+   */
+  private createTrailingStop(
+    side: PositionSide,
+    entryPrice: number,
+    config: TrailingStopConfig
+  ): Position['trailingStop'] {
+    const type = config.type ?? 'percent';
+    const isPercent = type === 'percent';
+
+    return {
+      active: false,
+      highestPrice: side === 'long' ? entryPrice : undefined,
+      lowestPrice: side === 'short' ? entryPrice : undefined,
+      // Zapisz konfigurację z strategii!
+      type,
+      activationPercent: config.activationPercent ?? (isPercent ? 2.0 : 0),
+      trailPercent: config.trailPercent ?? (isPercent ? 1.0 : 0),
+      atrMultiple: config.atrMultiple,
+      breakevenClamp: config.breakevenClamp ?? isPercent,
+    };
+  }
+
+  /**
+   * Aktualizuj trailing stop
+   * Używa konfiguracji z pozycji - stop przesuwa się tylko na korzyść pozycji
+   */
+  private updateTrailingStop(
+    position: Position,
+    candle: OHLCV,
+    inputs?: TrailingStopInputs
+  ): void {
+    const trailingStop = position.trailingStop;
+    if (!trailingStop) return;
+
+    const isLong = position.side === 'long';
+
+    // Aktualizuj ekstremum ceny od wejścia
+    if (isLong && (!trailingStop.highestPrice || candle.high > trailingStop.highestPrice)) {
+      trailingStop.highestPrice = candle.high;
+    }
+    if (!isLong && (!trailingStop.lowestPrice || candle.low < trailingStop.lowestPrice)) {
+      trailingStop.lowestPrice = candle.low;
+    }
+
+    // Sprawdź czy aktywować trailing stop
+    if (!trailingStop.active) {
+      const profitPercent = isLong
+        ? ((candle.high - position.entryPrice) / position.entryPrice) * 100
+        : ((position.entryPrice - candle.low) / position.entryPrice) * 100;
+      if (profitPercent >= (trailingStop.activationPercent ?? 2.0)) {
+        trailingStop.active = true;
       }
     }
+
+    if (!trailingStop.active) return;
+
+    let stop = this.calculateTrailingLevel(position, inputs);
+    if (stop === undefined) return;
+
+    // Nie pozwól aby trailing stop cofnął się za wejście (breakeven)
+    if (trailingStop.breakevenClamp) {
+      stop = isLong ? Math.max(stop, position.entryPrice) : Math.min(stop, position.entryPrice);
+    }
+
+    // Stop nigdy nie oddala się od ceny
+    if (trailingStop.currentStop !== undefined) {
+      stop = isLong
+        ? Math.max(stop, trailingStop.currentStop)
+        : Math.min(stop, trailingStop.currentStop);
+    }
+
+    trailingStop.currentStop = stop;
+  }
+
+  /**
+   * Oblicz poziom trailing stopu według typu (bez ograniczeń breakeven / ratchet)
+   */
+  private calculateTrailingLevel(
+    position: Position,
+    inputs?: TrailingStopInputs
+  ): number | undefined {
+    const trailingStop = position.trailingStop;
+    if (!trailingStop) return undefined;
+
+    const isLong = position.side === 'long';
+    const direction = isLong ? -1 : 1;
+    const trailPct = trailingStop.trailPercent ?? 1.0;
+    const extreme = isLong ? trailingStop.highestPrice : trailingStop.lowestPrice;
+    const atrDistance = inputs?.atr !== undefined
+      ? inputs.atr * (trailingStop.atrMultiple ?? 3)
+      : undefined;
+
+    switch (trailingStop.type ?? 'percent') {
+      case 'atr':
+        return extreme !== undefined && atrDistance !== undefined
+          ? extreme + direction * atrDistance
+          : undefined;
+
+      case 'chandelier': {
+        const windowExtreme = isLong ? inputs?.highestHigh : inputs?.lowestLow;
+        return windowExtreme !== undefined && atrDistance !== undefined
+          ? windowExtreme + direction * atrDistance
+          : undefined;
+      }
+
+      case 'indicator': {
+        const level = isLong ? inputs?.longLevel : inputs?.shortLevel;
+        return level !== undefined ? level * (1 + (direction * trailPct) / 100) : undefined;
+      }
+
+      case 'percent':
+      default:
+        return extreme !== undefined ? extreme * (1 + (direction * trailPct) / 100) : undefined;
+    }
   }
 
   /**
@@ -374,7 +1227,8 @@ export class MarketSimulator {
     stopLoss?: number,
     atrValue?: number
   ): number | undefined {
-    if (!config) return undefined;
+    // Drabinka celów zastępuje pojedynczy TP
+    if (!config || config.ladder?.length) return undefined;
 
     let tpDistance = 0;
 
@@ -403,22 +1257,180 @@ export class MarketSimulator {
   }
 
   /**
-   * Zastosuj slippage do ceny
+   * Oblicz cele drabinki TP (posortowane od najbliższego)
+   * Cele rMultiple wymagają SL - bez niego są pomijane
+   */
+  private calculateTakeProfitLadder(
+    entryPrice: number,
+    side: PositionSide,
+    size: number,
+    config?: TakeProfitConfig,
+    stopLoss?: number
+  ): TakeProfitTargetState[] | undefined {
+    if (!config?.ladder?.length) return undefined;
+
+    const direction = side === 'long' ? 1 : -1;
+    const risk = stopLoss !== undefined ? Math.abs(entryPrice - stopLoss) : undefined;
+    const targets: TakeProfitTargetState[] = [];
+
+    for (const target of config.ladder) {
+      const distance = target.rMultiple !== undefined
+        ? risk !== undefined ? risk * target.rMultiple : undefined
+        : target.percent !== undefined ? entryPrice * (target.percent / 100) : undefined;
+
+      if (!distance || distance <= 0) continue;
+
+      targets.push({
+        price: entryPrice + direction * distance,
+        size: size * (Math.min(target.sizePercent, 100) / 100),
+        filled: false,
+      });
+    }
+
+    return targets.sort((a, b) => direction * (a.price - b.price));
+  }
+
+  /**
+   * Dźwignia z konfiguracji ryzyka (domyślnie 1x)
+   */
+  private getLeverage(): number {
+    return Math.max(1, this.riskManagement?.leverage ?? 1);
+  }
+
+  /**
+   * Depozyt początkowy jako ułamek wartości pozycji
    */
-  private applySlippage(price: number, isBuy: boolean): number {
-    const slippage = price * this.config.slippagePercent;
-    return isBuy ? price + slippage : price - slippage;
+  private getInitialMarginRate(): number {
+    const rate = this.riskManagement?.initialMarginRate;
+    return rate !== undefined ? rate / 100 : 1 / this.getLeverage();
   }
 
   /**
-   * Oblicz prowizję
+   * Depozyt utrzymaniowy jako ułamek wartości pozycji
    */
-  private calculateCommission(value: number): number {
-    return value * this.config.commissionPercent;
+  private getMaintenanceMarginRate(): number {
+    return (this.riskManagement?.maintenanceMarginRate ?? 0.5) / 100;
   }
 
   /**
-   * Aktualizuj niezrealizowany P&L pozycji
+   * Przelicz ceny likwidacji otwartych pozycji
+   * - isolated: strata równa depozytowi początkowemu pomniejszonemu o utrzymaniowy
+   * - cross: equity konta spada do sumy depozytów utrzymaniowych
+   *   (przy niezmienionym wyniku pozostałych pozycji)
+   */
+  private updateLiquidationPrices(): void {
+    const maintenanceRate = this.getMaintenanceMarginRate();
+    const isCross = this.riskManagement?.marginMode === 'cross';
+    const positions = this.portfolio.openPositions;
+
+    const totalMaintenance = positions.reduce(
+      (sum, p) => sum + p.size * p.entryPrice * maintenanceRate,
+      0
+    );
+    const totalUnrealized = positions.reduce((sum, p) => sum + (p.unrealizedPnl ?? 0), 0);
+
+    for (const position of positions) {
+      const isLong = position.side === 'long';
+      let buffer: number;
+
+      if (isCross) {
+        // Equity bez wyniku tej pozycji ponad wymagany depozyt utrzymaniowy
+        const otherUnrealized = totalUnrealized - (position.unrealizedPnl ?? 0);
+        buffer = this.portfolio.currentCapital + otherUnrealized - totalMaintenance;
+      } else {
+        buffer = (position.margin ?? 0) - position.size * position.entryPrice * maintenanceRate;
+      }
+
+      const liquidationPrice = isLong
+        ? position.entryPrice - buffer / position.size
+        : position.entryPrice + buffer / position.size;
+
+      position.liquidationPrice = liquidationPrice > 0 ? liquidationPrice : undefined;
+    }
+  }
+
+  /**
+   * Ustaw bieżący ATR symbolu (model poślizgu 'atr')
+   */
+  setAtr(symbol: string, atr: number | undefined): void {
+    if (atr === undefined) {
+      this.atrValues.delete(symbol);
+    } else {
+      this.atrValues.set(symbol, atr);
+    }
+  }
+
+  /**
+   * Ustaw bieżące odchylenie standardowe zmian ceny symbolu (sizing 'volatility', źródło 'stdev')
+   */
+  setPriceStdev(symbol: string, stdev: number | undefined): void {
+    if (stdev === undefined) {
+      this.priceStdevValues.delete(symbol);
+    } else {
+      this.priceStdevValues.set(symbol, stdev);
+    }
+  }
+
+  /**
+   * Poślizg ceny zlecenia rynkowego (w jednostkach ceny) według modelu z konfiguracji
+   */
+  private getSlippage(price: number, size: number, symbol: string, atrValue?: number): number {
+    const config = this.config.slippage;
+
+    switch (config?.model) {
+      case 'volume': {
+        // Udział wartości zlecenia w wartości wolumenu świecy
+        const candle = this.lastCandles.get(symbol);
+        const candleNotional = candle ? candle.volume * candle.close : 0;
+        const participation = candleNotional > 0 ? (size * price) / candleNotional : 0;
+        const fraction = this.config.slippagePercent + (config.impactFactor ?? 0.1) * participation;
+        return price * Math.min(fraction, config.maxPercent ?? Infinity);
+      }
+
+      case 'atr': {
+        const atr = atrValue ?? this.atrValues.get(symbol);
+        return atr !== undefined
+          ? atr * (config.atrFraction ?? 0.1)
+          : price * this.config.slippagePercent;
+      }
+
+      case 'fixed':
+      default:
+        return price * this.config.slippagePercent;
+    }
+  }
+
+  /**
+   * Oblicz prowizję wypełnienia (maker / taker, progi wolumenu, opłata stała)
+   */
+  private calculateFee(notional: number, isMaker: boolean, timestamp: number): number {
+    const fees = this.config.fees;
+    let rate = (isMaker ? fees?.makerPercent : fees?.takerPercent) ?? this.config.commissionPercent;
+
+    if (fees?.tiers?.length) {
+      // Wolumen z okna przed bieżącym wypełnieniem
+      const windowStart = timestamp - (fees.tierWindowDays ?? 30) * DAY_MS;
+      this.feeVolume = this.feeVolume.filter((fill) => fill.timestamp > windowStart);
+      const volume = this.feeVolume.reduce((sum, fill) => sum + fill.notional, 0);
+
+      const tier = fees.tiers
+        .filter((t) => t.minVolume <= volume)
+        .reduce<FeeTier | undefined>(
+          (best, t) => (!best || t.minVolume > best.minVolume ? t : best),
+          undefined
+        );
+      if (tier) {
+        rate = isMaker ? tier.makerPercent : tier.takerPercent;
+      }
+
+      this.feeVolume.push({ timestamp, notional });
+    }
+
+    return notional * rate + (fees?.fixedPerTrade ?? 0);
+  }
+
+  /**
+   * Aktualizuj niezrealizowany P&L i MFE pozycji
    */
   private updateUnrealizedPnl(position: Position, candle: OHLCV): void {
     const currentPrice = candle.close;
@@ -429,12 +1441,22 @@ export class MarketSimulator {
 
     position.unrealizedPnl = priceDiff * position.size;
     position.unrealizedPnlPercent = (priceDiff / position.entryPrice) * 100;
+
+    // MFE z ekstremum świecy (high dla long, low dla short)
+    const favorableDiff =
+      position.side === 'long'
+        ? candle.high - position.entryPrice
+        : position.entryPrice - candle.low;
+    position.maxFavorableExcursion = Math.max(
+      position.maxFavorableExcursion ?? 0,
+      (favorableDiff / position.entryPrice) * 100
+    );
   }
 
   /**
    * Aktualizuj equity portfela
    */
-  private updateEquity(candle: OHLCV): void {
+  private updateEquity(): void {
     let unrealizedPnl = 0;
 
     for (const position of this.portfolio.openPositions) {
@@ -453,6 +1475,7 @@ export class MarketSimulator {
     );
     if (index !== -1) {
       this.portfolio.openPositions.splice(index, 1);
+      this.updateAverageEntryPrice(position.symbol, position.side);
     }
   }
 
@@ -477,6 +1500,29 @@ export class MarketSimulator {
     return [...this.portfolio.openPositions];
   }
 
+  /**
+   * Pobierz oczekujące zlecenia (wszystkie lub dla symbolu)
+   */
+  getPendingOrders(symbol?: string): Order[] {
+    return this.pendingOrders
+      .filter((p) => symbol === undefined || p.order.symbol === symbol)
+      .map((p) => p.order);
+  }
+
+  /**
+   * Pobierz trade'y zamknięte od podanego indeksu (kolejne wywołania bez kopiowania całej historii)
+   */
+  getTradesSince(index: number): Trade[] {
+    return this.trades.slice(index);
+  }
+
+  /**
+   * Pobierz historię wszystkich zleceń limit / stop_market
+   */
+  getOrders(): Order[] {
+    return [...this.orders];
+  }
+
   /**
    * Sprawdź czy jest otwarta pozycja dla symbolu
    */
@@ -484,6 +1530,13 @@ export class MarketSimulator {
     return this.portfolio.openPositions.some((p) => p.symbol === symbol);
   }
 
+  /**
+   * Pobierz wszystkie otwarte pozycje (nogi) dla symbolu
+   */
+  getSymbolPositions(symbol: string): Position[] {
+    return this.portfolio.openPositions.filter((p) => p.symbol === symbol);
+  }
+
   /**
    * Pobierz otwartą pozycję dla symbolu
    */
@@ -497,6 +1550,12 @@ export class MarketSimulator {
   reset(): void {
     this.portfolio = this.initializePortfolio();
     this.pendingOrders = [];
+    this.orders = [];
     this.trades = [];
+    this.lastFundingCheck.clear();
+    this.lastCandles.clear();
+    this.atrValues.clear();
+    this.priceStdevValues.clear();
+    this.feeVolume = [];
   }
 }
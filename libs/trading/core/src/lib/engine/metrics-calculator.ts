@@ -15,6 +15,9 @@ export function calculateBacktestMetrics(
     return createEmptyMetrics(initialCapital);
   }
 
+  // Statystyki transakcji liczone per pozycja (częściowe zamknięcia scalone)
+  const positions = mergePartialTrades(trades);
+
   const finalCapital = equityCurve.length > 0 
     ? equityCurve[equityCurve.length - 1].equity 
     : initialCapital;
@@ -33,11 +36,11 @@ export function calculateBacktestMetrics(
     : totalReturn;
 
   // Podział na winning/losing trades
-  const winningTrades = trades.filter((t) => t.netPnl > 0);
-  const losingTrades = trades.filter((t) => t.netPnl < 0);
+  const winningTrades = positions.filter((t) => t.netPnl > 0);
+  const losingTrades = positions.filter((t) => t.netPnl < 0);
 
   // Win Rate
-  const winRate = (winningTrades.length / trades.length) * 100;
+  const winRate = (winningTrades.length / positions.length) * 100;
 
   // Średnie
   const avgWin = winningTrades.length > 0
@@ -48,7 +51,7 @@ export function calculateBacktestMetrics(
     ? losingTrades.reduce((sum, t) => sum + t.pnlPercent, 0) / losingTrades.length
     : 0;
 
-  const avgTrade = trades.reduce((sum, t) => sum + t.pnlPercent, 0) / trades.length;
+  const avgTrade = positions.reduce((sum, t) => sum + t.pnlPercent, 0) / positions.length;
 
   // Profit Factor
   const grossProfit = winningTrades.reduce((sum, t) => sum + t.netPnl, 0);
@@ -65,7 +68,7 @@ export function calculateBacktestMetrics(
     : 0;
 
   // Consecutive wins/losses
-  const { maxConsecutiveWins, maxConsecutiveLosses } = calculateConsecutive(trades);
+  const { maxConsecutiveWins, maxConsecutiveLosses } = calculateConsecutive(positions);
 
   // Drawdown
   const { maxDrawdown, maxDrawdownAbsolute, maxDrawdownDuration } = 
@@ -80,8 +83,8 @@ export function calculateBacktestMetrics(
   const calmarRatio = maxDrawdown > 0 ? cagr / maxDrawdown : 0;
 
   // Long/Short breakdown
-  const longTrades = trades.filter((t) => t.side === 'long');
-  const shortTrades = trades.filter((t) => t.side === 'short');
+  const longTrades = positions.filter((t) => t.side === 'long');
+  const shortTrades = positions.filter((t) => t.side === 'short');
   const longWins = longTrades.filter((t) => t.netPnl > 0);
   const shortWins = shortTrades.filter((t) => t.netPnl > 0);
 
@@ -93,16 +96,25 @@ export function calculateBacktestMetrics(
     : 0;
 
   // Holding time
-  const avgHoldingTime = trades.reduce((sum, t) => sum + t.holdingTime, 0) / trades.length;
+  const avgHoldingTime = positions.reduce((sum, t) => sum + t.holdingTime, 0) / positions.length;
   const avgHoldingTimeMinutes = avgHoldingTime / (60 * 1000);
 
   // Time in market
-  const totalTimeInMarket = trades.reduce((sum, t) => sum + t.holdingTime, 0);
+  const totalTimeInMarket = positions.reduce((sum, t) => sum + t.holdingTime, 0);
   const timeInMarket = (totalTimeInMarket / durationMs) * 100;
 
   // Total commission
   const totalCommission = trades.reduce((sum, t) => sum + t.commission, 0);
 
+  // Total funding
+  const totalFunding = trades.reduce((sum, t) => sum + (t.funding ?? 0), 0);
+
+  // Wyjścia rozstrzygnięte przez fillModel
+  const ambiguousExits = trades.filter((t) => t.ambiguousExit).length;
+
+  // Wymuszone zamknięcia pozycji z dźwignią
+  const liquidations = trades.filter((t) => t.exitReason === 'liquidation').length;
+
   // Monthly average return
   const monthlyAvgReturn = calculateMonthlyAvgReturn(equityCurve, initialCapital);
 
@@ -128,7 +140,7 @@ export function calculateBacktestMetrics(
     volatility,
 
     // Trading
-    totalTrades: trades.length,
+    totalTrades: positions.length,
     winningTrades: winningTrades.length,
     losingTrades: losingTrades.length,
     winRate,
@@ -154,9 +166,57 @@ export function calculateBacktestMetrics(
     finalCapital,
     peakCapital,
     totalCommission,
+    totalFunding,
+    ambiguousExits,
+    liquidations,
   };
 }
 
+/**
+ * Scal częściowe zamknięcia tej samej pozycji w jeden trade
+ * Cena wyjścia i P&L% ważone wielkością, powód i czas wyjścia z ostatniego zamknięcia
+ */
+export function mergePartialTrades(trades: Trade[]): Trade[] {
+  const merged: Trade[] = [];
+  const byPosition = new Map<string, Trade>();
+
+  for (const trade of trades) {
+    const existing = byPosition.get(trade.positionId);
+    if (!existing) {
+      const copy = { ...trade, partial: undefined };
+      byPosition.set(trade.positionId, copy);
+      merged.push(copy);
+      continue;
+    }
+
+    const size = existing.size + trade.size;
+    existing.exitPrice = (existing.exitPrice * existing.size + trade.exitPrice * trade.size) / size;
+    existing.pnlPercent = (existing.pnlPercent * existing.size + trade.pnlPercent * trade.size) / size;
+    existing.size = size;
+    existing.pnl += trade.pnl;
+    existing.commission += trade.commission;
+    existing.netPnl += trade.netPnl;
+    existing.exitTime = Math.max(existing.exitTime, trade.exitTime);
+    existing.holdingTime = existing.exitTime - existing.entryTime;
+    existing.exitReason = trade.exitReason;
+    existing.ambiguousExit = existing.ambiguousExit || trade.ambiguousExit;
+    if (trade.funding !== undefined) {
+      existing.funding = (existing.funding ?? 0) + trade.funding;
+    }
+    if (trade.entryFee !== undefined) {
+      existing.entryFee = (existing.entryFee ?? 0) + trade.entryFee;
+    }
+    if (trade.exitFee !== undefined) {
+      existing.exitFee = (existing.exitFee ?? 0) + trade.exitFee;
+    }
+    if (trade.slippage !== undefined) {
+      existing.slippage = (existing.slippage ?? 0) + trade.slippage;
+    }
+  }
+
+  return merged;
+}
+
 /**
  * Oblicz metryki drawdown
  */
@@ -418,13 +478,17 @@ function createEmptyMetrics(initialCapital: number): BacktestMetrics {
     finalCapital: initialCapital,
     peakCapital: initialCapital,
     totalCommission: 0,
+    totalFunding: 0,
+    ambiguousExits: 0,
+    liquidations: 0,
   };
 }
 
 /**
  * Oblicz rozkład trade'ów
  */
-export function calculateTradeDistribution(trades: Trade[]): TradeDistribution {
+export function calculateTradeDistribution(allTrades: Trade[]): TradeDistribution {
+  const trades = mergePartialTrades(allTrades);
   const byHour: Record<number, { trades: number; winRate: number; avgPnl: number }> = {};
   const byDayOfWeek: Record<number, { trades: number; winRate: number; avgPnl: number }> = {};
   const byMonth: Record<number, { trades: number; winRate: number; avgPnl: number }> = {};
@@ -0,0 +1,641 @@
+import { StrategyExecutor } from './strategy-executor';
+import { EvaluationContext } from './condition-evaluator';
+import { validateStrategy } from './strategy-validator';
+import { StrategySchema } from '../types/strategy';
+import { Position, Trade } from '../types/trading';
+
+function createStrategy(exitSignals: StrategySchema['exitSignals']): StrategySchema {
+  return {
+    id: 'pivot-exits',
+    version: '1.0.0',
+    name: 'Pivot Exits',
+    status: 'testing',
+    dataRequirements: {
+      primaryTimeframe: '4h',
+      lookbackPeriods: 5,
+      symbols: ['BTCUSDT'],
+    },
+    indicators: [
+      { id: 'pivot', type: 'PIVOT', params: { method: 'traditional' } },
+      { id: 'bb', type: 'BOLLINGER', params: { period: 20, stdDev: 2 } },
+    ],
+    entrySignals: {},
+    exitSignals,
+    riskManagement: {
+      riskPerTrade: 1,
+      maxPositionSize: 10,
+      maxOpenPositions: 1,
+    },
+  };
+}
+
+const context: EvaluationContext = {
+  indicators: {
+    pivot: { PP: 100, S1: 96, S2: 92, R1: 104, R2: 108 },
+    bb: { upper: 110, middle: 100, lower: 90 },
+  },
+  variables: {},
+  price: { open: 100, high: 101, low: 99, close: 100, volume: 1000 },
+};
+
+describe('StrategyExecutor exit levels', () => {
+  it('should resolve a pivot stop loss with a mirrored level for shorts', () => {
+    const strategy = createStrategy({ stopLoss: { type: 'pivot', level: 'S2', value: 0 } });
+    const executor = new StrategyExecutor(strategy);
+
+    const long = executor.resolveExitLevel(
+      strategy.exitSignals.stopLoss,
+      'stop_loss',
+      'long',
+      context
+    );
+    const short = executor.resolveExitLevel(
+      strategy.exitSignals.stopLoss,
+      'stop_loss',
+      'short',
+      context
+    );
+
+    expect(long).toEqual({ type: 'fixed_price', level: 'S2', value: 92 });
+    expect(short?.value).toBe(108);
+  });
+
+  it('should apply the buffer beyond the stop and before the target', () => {
+    const strategy = createStrategy({
+      stopLoss: { type: 'indicator', reference: 'bb.lower', shortReference: 'bb.upper', value: 1 },
+      takeProfit: { type: 'pivot', level: 'R1', value: 1 },
+    });
+    const executor = new StrategyExecutor(strategy);
+    const { stopLoss, takeProfit } = strategy.exitSignals;
+
+    const longStop = executor.resolveExitLevel(stopLoss, 'stop_loss', 'long', context);
+    const shortStop = executor.resolveExitLevel(stopLoss, 'stop_loss', 'short', context);
+    const longTarget = executor.resolveExitLevel(takeProfit, 'take_profit', 'long', context);
+
+    expect(longStop?.value).toBeCloseTo(89.1, 8);
+    expect(shortStop?.value).toBeCloseTo(111.1, 8);
+    expect(longTarget?.value).toBeCloseTo(102.96, 8);
+  });
+
+  it('should return null when the level is missing or on the wrong side of price', () => {
+    const strategy = createStrategy({
+      stopLoss: { type: 'pivot', level: 'S3', value: 0 },
+      takeProfit: { type: 'indicator', reference: 'bb.lower', value: 0 },
+    });
+    const executor = new StrategyExecutor(strategy);
+    const { stopLoss, takeProfit } = strategy.exitSignals;
+
+    expect(executor.resolveExitLevel(stopLoss, 'stop_loss', 'long', context)).toBeNull();
+    expect(executor.resolveExitLevel(takeProfit, 'take_profit', 'long', context)).toBeNull();
+  });
+
+  it('should keep non-reference configs unchanged', () => {
+    const strategy = createStrategy({ stopLoss: { type: 'fixed_percent', value: 2 } });
+    const executor = new StrategyExecutor(strategy);
+
+    expect(
+      executor.resolveExitLevel(strategy.exitSignals.stopLoss, 'stop_loss', 'long', context)
+    ).toBe(strategy.exitSignals.stopLoss);
+  });
+});
+
+describe('StrategyExecutor opposite signals', () => {
+  const long: Position = {
+    id: 'long-1',
+    symbol: 'BTCUSDT',
+    side: 'long',
+    entryPrice: 100,
+    size: 1,
+    entryTime: 0,
+  };
+
+  it('should resolve entry actions per side from the opposite signal mode', () => {
+    const strategy = createStrategy({});
+    const executor = new StrategyExecutor(strategy);
+    executor.setPositions('BTCUSDT', [long]);
+
+    expect(executor.getEntryAction('BTCUSDT', 'short', 100, 0)).toBe('ignore');
+    expect(executor.getEntryAction('BTCUSDT', 'long', 100, 0)).toBe('ignore');
+
+    strategy.entrySignals.oppositeSignal = 'reverse';
+    expect(executor.getEntryAction('BTCUSDT', 'short', 100, 0)).toBe('reverse');
+
+    strategy.entrySignals.oppositeSignal = 'hedge';
+    expect(executor.getEntryAction('BTCUSDT', 'short', 100, 0)).toBe('open');
+    expect(executor.getPosition('BTCUSDT', 'short')).toBeNull();
+    expect(executor.getPosition('BTCUSDT', 'long')).toBe(long);
+  });
+});
+
+describe('StrategyExecutor position-aware exits', () => {
+  const legs: Position[] = [
+    {
+      id: 'long-1',
+      symbol: 'BTCUSDT',
+      side: 'long',
+      entryPrice: 100,
+      size: 1,
+      entryTime: 0,
+      initialStopLoss: 95,
+      maxFavorableExcursion: 12,
+    },
+    { id: 'long-2', symbol: 'BTCUSDT', side: 'long', entryPrice: 110, size: 1, entryTime: 14400000 },
+  ];
+
+  it('should expose the combined position of a side to its exit conditions', () => {
+    const strategy = createStrategy({
+      signalExit: {
+        conditions: {
+          operator: 'AND',
+          conditions: [
+            { type: 'equals', left: 'position.side', right: 1 },
+            { type: 'equals', left: 'position.entryPrice', right: 105 },
+            { type: 'equals', left: 'position.barsHeld', right: 10 },
+            { type: 'equals', left: 'position.rMultiple', right: 2 },
+            { type: 'equals', left: 'position.maxFavorableExcursion', right: 12 },
+          ],
+        },
+      },
+    });
+    const executor = new StrategyExecutor(strategy);
+    const exitContext = { ...context, price: { ...context.price, close: 115 } };
+
+    expect(executor.getExitSignal('BTCUSDT', exitContext, 10 * 14400000)).toBeNull();
+
+    executor.setPositions('BTCUSDT', legs);
+    expect(executor.getExitSignal('BTCUSDT', exitContext, 10 * 14400000)).toMatchObject({
+      type: 'exit_long',
+      reason: 'signal',
+    });
+    expect(executor.getExitSignal('BTCUSDT', exitContext, 11 * 14400000)).toBeNull();
+
+    strategy.exitSignals.signalExitLong = { conditions: { operator: 'AND', conditions: [] } };
+    expect(executor.getExitSignal('BTCUSDT', context, 0)?.type).toBe('exit_long');
+  });
+});
+
+describe('StrategyExecutor entry rules', () => {
+  const HOUR = 3600000;
+
+  function closedTrade(netPnl: number, partial?: boolean): Trade {
+    return {
+      id: `trade-${netPnl}`,
+      symbol: 'BTCUSDT',
+      side: 'long',
+      entryPrice: 100,
+      exitPrice: 100,
+      size: 1,
+      entryTime: 0,
+      exitTime: 4 * HOUR,
+      pnl: netPnl,
+      pnlPercent: netPnl,
+      commission: 0,
+      netPnl,
+      exitReason: 'stop_loss',
+      holdingTime: 4 * HOUR,
+      positionId: 'position-1',
+      partial,
+    };
+  }
+
+  it('should apply the cooldown only after a losing position including partial closes', () => {
+    const strategy = createStrategy({});
+    strategy.entrySignals.rules = { cooldownBars: 2, cooldownAfterLossOnly: true };
+    const executor = new StrategyExecutor(strategy);
+
+    executor.recordTrade(closedTrade(5, true));
+    executor.recordTrade(closedTrade(-3));
+    expect(executor.getEntryAction('BTCUSDT', 'long', 100, 8 * HOUR)).toBe('open');
+
+    const losing = new StrategyExecutor(strategy);
+    losing.recordTrade(closedTrade(-3));
+    expect(losing.getEntryAction('BTCUSDT', 'long', 100, 12 * HOUR)).toBe('ignore');
+    expect(losing.getEntryAction('BTCUSDT', 'long', 100, 16 * HOUR)).toBe('open');
+  });
+});
+
+describe('StrategyExecutor computed variables', () => {
+  it('should evaluate variables referencing prices, multi-line outputs and other variables', () => {
+    const strategy = createStrategy({});
+    strategy.indicators = [{ id: 'bb', type: 'BOLLINGER', params: { period: 2, stdDev: 2 } }];
+    strategy.computedVariables = [
+      { id: 'width', expression: 'bbWidth / hl2' },
+      { id: 'bbWidth', expression: 'bb.upper - bb.lower' },
+      { id: 'isUp', expression: 'close > open ? 1 : -1' },
+    ];
+    const data = [100, 102, 101].map((close, i) => ({
+      timestamp: i * 4 * 3600000,
+      open: 100,
+      high: close + 1,
+      low: close - 1,
+      close,
+      volume: 1000,
+    }));
+
+    const [first, , last] = new StrategyExecutor(strategy).execute(data, 'BTCUSDT');
+    const bands = last.context.indicators['bb'] as Record<string, number>;
+
+    expect(first.context.variables['width']).toBeNull();
+    expect(last.context.variables['bbWidth']).toBeCloseTo(bands['upper'] - bands['lower'], 8);
+    expect(last.context.variables['width']).toBeCloseTo(
+      (bands['upper'] - bands['lower']) / 101,
+      8
+    );
+    expect(last.context.variables['isUp']).toBe(1);
+  });
+
+  it('should resolve lookback offsets from indicator series and earlier variable values', () => {
+    const strategy = createStrategy({});
+    strategy.indicators = [{ id: 'sma', type: 'SMA', params: { period: 2 } }];
+    strategy.computedVariables = [
+      { id: 'change', expression: 'close - close[2]' },
+      { id: 'acceleration', expression: 'change - change[1]' },
+      { id: 'smaSlope', expression: 'sma - sma[1]' },
+      { id: 'range', expression: 'highest(high, 3) - lowest(low, 3)' },
+    ];
+    const data = [100, 102, 101, 105].map((close, i) => ({
+      timestamp: i * 4 * 3600000,
+      open: 100,
+      high: close + 1,
+      low: close - 1,
+      close,
+      volume: 1000,
+    }));
+
+    const results = new StrategyExecutor(strategy).execute(data, 'BTCUSDT');
+    const last = results[3].context;
+
+    expect(results[1].context.variables['change']).toBeNull();
+    expect(results[2].context.variables['change']).toBe(1);
+    expect(results[2].context.variables['acceleration']).toBeNull();
+    expect(last.variables['change']).toBe(3);
+    expect(last.variables['acceleration']).toBe(2);
+    expect(last.variables['smaSlope']).toBe(103 - 101.5);
+    expect(last.variables['range']).toBe(106 - 100);
+    expect(last.lookback?.('change', 1)).toBe(1);
+    expect(last.lookback?.('sma', 2)).toBe(101);
+  });
+});
+
+describe('StrategyExecutor cloud conditions', () => {
+  it('should enter only when close is above the Ichimoku cloud', () => {
+    const strategy = createStrategy({});
+    strategy.indicators = [
+      {
+        id: 'ichi',
+        type: 'ICHIMOKU',
+        params: { tenkanPeriod: 2, kijunPeriod: 3, senkouBPeriod: 4, displacement: 2 },
+      },
+    ];
+    strategy.entrySignals.long = {
+      conditions: {
+        operator: 'AND',
+        conditions: [
+          { type: 'greater_than', left: 'close', right: 'max(ichi.senkouA, ichi.senkouB)' },
+        ],
+      },
+    };
+    const closes = [100, 102, 104, 106, 108, 110, 112, 95, 90];
+    const data = closes.map((close, i) => ({
+      timestamp: i * 4 * 3600000,
+      open: close,
+      high: close + 1,
+      low: close - 1,
+      close,
+      volume: 1000,
+    }));
+
+    const types = new StrategyExecutor(strategy)
+      .execute(data, 'BTCUSDT')
+      .map((result) => result.signal.type);
+
+    // Chmura dostępna od świecy 5 (senkouB z 4 świec przesunięte o 2)
+    expect(types).toEqual([
+      'none',
+      'none',
+      'none',
+      'none',
+      'none',
+      'entry_long',
+      'entry_long',
+      'none',
+      'none',
+    ]);
+  });
+});
+
+describe('StrategyExecutor indicator sources', () => {
+  it('should calculate indicators on other indicators, their lines and computed variables', () => {
+    const strategy = createStrategy({});
+    strategy.indicators = [
+      { id: 'atrSma', type: 'SMA', params: { period: 3 }, source: 'atr' },
+      { id: 'atr', type: 'ATR', params: { period: 3 } },
+      { id: 'bb', type: 'BOLLINGER', params: { period: 3, stdDev: 2 } },
+      { id: 'upperMax', type: 'SMA', params: { period: 2 }, source: 'bb.upper' },
+      { id: 'rangeSma', type: 'SMA', params: { period: 2 }, source: 'range' },
+    ];
+    strategy.computedVariables = [{ id: 'range', expression: 'high - low' }];
+    const data = Array.from({ length: 12 }, (_, i) => ({
+      timestamp: i * 4 * 3600000,
+      open: 100 + i,
+      high: 102 + i + (i % 3),
+      low: 99 + i,
+      close: 101 + i,
+      volume: 1000,
+    }));
+
+    const results = new StrategyExecutor(strategy).execute(data, 'BTCUSDT');
+    const series = (id: string, i: number) => results[i].context.indicators[id];
+    const atr = (i: number) => series('atr', i) as number;
+    const upper = (i: number) => (series('bb', i) as Record<string, number>)['upper'];
+    const range = (i: number) => data[i].high - data[i].low;
+
+    const firstAtr = results.findIndex((r) => r.context.indicators['atr'] !== null);
+    expect(series('atrSma', firstAtr + 1)).toBeNull();
+    expect(series('atrSma', 10)).toBeCloseTo((atr(8) + atr(9) + atr(10)) / 3, 8);
+    expect(series('upperMax', 10)).toBeCloseTo((upper(9) + upper(10)) / 2, 8);
+    expect(series('rangeSma', 0)).toBeNull();
+    expect(series('rangeSma', 5)).toBe((range(4) + range(5)) / 2);
+  });
+});
+
+describe('StrategyExecutor temporal conditions', () => {
+  const strategy = createStrategy({});
+  strategy.indicators = [];
+  strategy.entrySignals.long = {
+    conditions: {
+      operator: 'AND',
+      conditions: [
+        {
+          type: 'true_for',
+          left: 'close',
+          right: 100,
+          params: { condition: 'greater_than', bars: 2 },
+        },
+      ],
+    },
+  };
+  const data = [99, 101, 102, 98, 103, 104].map((close, i) => ({
+    timestamp: i * 4 * 3600000,
+    open: close,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 1000,
+  }));
+  const expected = ['none', 'none', 'entry_long', 'none', 'none', 'entry_long'];
+
+  it('should produce the same signals in execute and executeOne', () => {
+    const batch = new StrategyExecutor(strategy).execute(data, 'BTCUSDT');
+    const live = new StrategyExecutor(strategy);
+    const incremental = data.map((candle, i) =>
+      live.executeOne(candle, data.slice(0, i), 'BTCUSDT')
+    );
+
+    const types = batch.map((result) => result.signal.type);
+    expect(types).toEqual(expected);
+    expect(incremental.map((result) => result.signal.type)).toEqual(types);
+  });
+
+  it('should keep temporal state separate for executors of the same strategy', () => {
+    const live = new StrategyExecutor(strategy);
+    const other = new StrategyExecutor(strategy);
+
+    const types = data.map((candle, i) => {
+      // Drugi executor tej samej strategii i symbolu zaczyna od początku danych
+      other.executeOne(data[0], [], 'BTCUSDT');
+      return live.executeOne(candle, data.slice(0, i), 'BTCUSDT').signal.type;
+    });
+
+    expect(types).toEqual(expected);
+  });
+});
+
+describe('StrategyExecutor live indicators', () => {
+  it('should continue indicators incrementally over a sliding history window', () => {
+    const strategy = createStrategy({});
+    strategy.indicators = [
+      { id: 'rsi', type: 'RSI', params: { period: 5 } },
+      { id: 'ema', type: 'EMA', params: { period: 4 }, source: 'ha_close' },
+      { id: 'pivot', type: 'PIVOT', params: { method: 'traditional' } },
+    ];
+    const data = Array.from({ length: 40 }, (_, i) => {
+      const close = 100 + Math.sin(i / 3) * 5 + i * 0.2;
+      return {
+        timestamp: i * 4 * 3600000,
+        open: close - 0.5,
+        high: close + 1,
+        low: close - 1.5,
+        close,
+        volume: 1000 + i,
+      };
+    });
+
+    const batch = new StrategyExecutor(strategy).execute(data, 'BTCUSDT');
+    const live = new StrategyExecutor(strategy);
+    const history = (i: number) => data.slice(Math.max(0, i - 15), i);
+    const incremental = data.map((candle, i) =>
+      live.executeOne(candle, history(i), 'BTCUSDT')
+    );
+
+    for (const i of [10, 25, 39]) {
+      expect(incremental[i].indicators['rsi']).toBeCloseTo(
+        batch[i].context.indicators['rsi'] as number,
+        8
+      );
+      expect(incremental[i].indicators['ema']).toBeCloseTo(
+        batch[i].context.indicators['ema'] as number,
+        8
+      );
+    }
+
+    // Powtórzona świeca (w trakcie trwania) liczona od stanu sprzed niej
+    const forming = { ...data[39], close: data[39].close + 2 };
+    const updated = live.executeOne(forming, history(39), 'BTCUSDT');
+    const expected = new StrategyExecutor(strategy).execute([...data.slice(0, 39), forming], 'X');
+    expect(updated.indicators['rsi']).toBeCloseTo(
+      expected[39].context.indicators['rsi'] as number,
+      8
+    );
+    // Historia bez zmian - wartości wstecz należą do poprzednich świec
+    for (const offset of [1, 2, 10]) {
+      expect(updated.context.lookback?.('rsi', offset)).toBeCloseTo(
+        expected[39 - offset].context.indicators['rsi'] as number,
+        8
+      );
+      expect(updated.context.lookback?.('ema', offset)).toBeCloseTo(
+        expected[39 - offset].context.indicators['ema'] as number,
+        8
+      );
+    }
+    expect(live.executeOne(data[39], history(39), 'BTCUSDT').indicators).toEqual(
+      incremental[39].indicators
+    );
+  });
+
+  it('should recompute a candle that closed after being evaluated while forming', () => {
+    const strategy = createStrategy({});
+    strategy.indicators = [
+      { id: 'rsi', type: 'RSI', params: { period: 5 } },
+      { id: 'ema', type: 'EMA', params: { period: 4 } },
+    ];
+    const data = Array.from({ length: 30 }, (_, i) => {
+      const close = 100 + Math.cos(i / 2) * 4 + i * 0.3;
+      return {
+        timestamp: i * 4 * 3600000,
+        open: close - 0.5,
+        high: close + 1,
+        low: close - 1.5,
+        close,
+        volume: 1000 + i,
+      };
+    });
+    const batch = new StrategyExecutor(strategy).execute(data, 'BTCUSDT');
+    const forming = { ...data[20], close: data[20].close + 12 };
+
+    // Świeca t w trakcie trwania, potem od razu t+1 z ostateczną t w historii
+    // oraz t w trakcie, ostateczna t i dopiero t+1
+    const sequences = [
+      [forming, data[21]],
+      [forming, data[20], data[21]],
+    ];
+    for (const sequence of sequences) {
+      const live = new StrategyExecutor(strategy);
+      for (let i = 0; i < 20; i++) {
+        live.executeOne(data[i], data.slice(0, i), 'BTCUSDT');
+      }
+      const results = sequence.map((candle) =>
+        live.executeOne(candle, data.slice(0, candle.timestamp / (4 * 3600000)), 'BTCUSDT')
+      );
+      const result = results[results.length - 1];
+
+      for (const id of ['rsi', 'ema']) {
+        expect(result.indicators[id]).toBeCloseTo(batch[21].context.indicators[id] as number, 8);
+        expect(result.context.lookback?.(id, 1)).toBeCloseTo(
+          batch[20].context.indicators[id] as number,
+          8
+        );
+      }
+    }
+  });
+});
+
+describe('validateStrategy', () => {
+  it('should accept exit levels pointing to existing indicators', () => {
+    const strategy = createStrategy({
+      stopLoss: { type: 'pivot', level: 'S2', value: 0 },
+      takeProfit: { type: 'indicator', reference: 'bb.upper', value: 0 },
+    });
+
+    expect(validateStrategy(strategy).valid).toBe(true);
+  });
+
+  it('should reject exit levels pointing to missing indicators', () => {
+    const strategy = createStrategy({
+      stopLoss: { type: 'pivot', level: 'S2', indicator: 'pivot_1d', value: 0 },
+      takeProfit: { type: 'indicator', reference: 'ema200', value: 0 },
+    });
+
+    const result = validateStrategy(strategy);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(2);
+  });
+
+  it('should require a PIVOT indicator for pivot levels', () => {
+    const strategy = createStrategy({ stopLoss: { type: 'pivot', level: 'S1', value: 0 } });
+    strategy.indicators = strategy.indicators.filter((indicator) => indicator.type !== 'PIVOT');
+
+    expect(validateStrategy(strategy).errors[0]).toContain('PIVOT');
+  });
+
+  it('should reject take profit ladders above 100% or with rMultiple targets but no stop', () => {
+    const strategy = createStrategy({
+      takeProfit: {
+        type: 'risk_reward',
+        value: 0,
+        ladder: [
+          { rMultiple: 1, sizePercent: 60 },
+          { percent: 5, sizePercent: 60 },
+        ],
+      },
+    });
+
+    const result = validateStrategy(strategy);
+
+    expect(result.errors).toEqual([
+      'takeProfit.ladder[0]: rMultiple targets require a stop loss',
+      'takeProfit.ladder: sizePercent sums to 120% (max 100%)',
+    ]);
+  });
+
+  it('should report computed variable syntax errors, cycles and unknown references', () => {
+    const strategy = createStrategy({});
+    strategy.computedVariables = [
+      { id: 'a', expression: 'b + 1' },
+      { id: 'b', expression: 'a * 2' },
+      { id: 'c', expression: 'close * (1 + 2' },
+      { id: 'd', expression: 'ema200 - hlc3' },
+    ];
+
+    expect(validateStrategy(strategy).errors).toEqual([
+      "computedVariables.c: expected ')' at end of expression",
+      'computedVariables.a: circular reference (a -> b -> a)',
+      "computedVariables.d: reference 'ema200' does not match any indicator or variable",
+    ]);
+  });
+
+  it('should report malformed lookback and window references in conditions', () => {
+    const strategy = createStrategy({});
+    strategy.entrySignals.long = {
+      conditions: {
+        operator: 'AND',
+        conditions: [
+          { type: 'greater_than', left: 'close', right: 'highest(high)' },
+          { type: 'less_than', left: 'rsi[1]', right: 'bb.lower[x]' },
+          { type: 'greater_than', left: 'max(bb.upper[1], pivot.R1)', right: 'position.size[1]' },
+        ],
+      },
+    };
+
+    expect(validateStrategy(strategy).errors).toEqual([
+      "entrySignals.long.conditions[0].right: function 'highest' expects a series reference " +
+        'as first argument',
+      "entrySignals.long.conditions[1].left: reference 'rsi' does not match any indicator or " +
+        'variable',
+      'entrySignals.long.conditions[1].right: offset must be an integer >= 0 at position 9',
+    ]);
+  });
+
+  it('should report invalid temporal condition parameters', () => {
+    const strategy = createStrategy({});
+    strategy.entrySignals.long = {
+      conditions: {
+        operator: 'AND',
+        conditions: [
+          { type: 'crossed_above_within', left: 'close', right: 'bb.upper' },
+          {
+            operator: 'OR',
+            conditions: [
+              {
+                type: 'true_count_in',
+                left: 'close',
+                right: 100,
+                params: { condition: 'true_for', bars: 3, count: 4 },
+              },
+            ],
+          },
+        ],
+      },
+    };
+
+    expect(validateStrategy(strategy).errors).toEqual([
+      'entrySignals.long.conditions[0]: crossed_above_within requires params.bars as a ' +
+        'positive integer',
+      'entrySignals.long.conditions[1][0]: true_count_in requires params.condition of a ' +
+        'non-temporal type',
+      'entrySignals.long.conditions[1][0]: true_count_in requires params.count between 1 ' +
+        'and params.bars',
+    ]);
+  });
+});
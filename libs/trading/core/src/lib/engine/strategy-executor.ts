@@ -1,25 +1,82 @@
-import { OHLCV, Timeframe, MultiTimeframeData, buildHigherTfIndex } from '../types/ohlcv';
+import {
+  OHLCV,
+  Timeframe,
+  MultiTimeframeData,
+  buildHigherTfIndex,
+  timeframeToMs,
+} from '../types/ohlcv';
 import {
   IndicatorDefinition,
   StrategySchema,
   ComputedVariable,
+  ConditionGroup,
   SignalDefinition,
+  PositionSide,
+  StopLossConfig,
+  TakeProfitConfig,
 } from '../types/strategy';
-import { Signal, Position } from '../types/trading';
-import { IndicatorResult, MultiLineIndicatorResult, PriceSource, getPrice } from '../types/indicator';
+import { Signal, Position, Trade } from '../types/trading';
+import {
+  IIndicator,
+  IndicatorResult,
+  IncrementalIndicator,
+  IndicatorState,
+  MultiLineIndicatorResult,
+  PriceSource,
+  getPrice,
+  isIncrementalIndicator,
+} from '../types/indicator';
 import { IndicatorRegistry } from '../indicators/registry';
-import { EvaluationContext, getConditionEvaluator, ConditionEvaluator } from './condition-evaluator';
+import { cloneIndicatorState } from '../indicators/incremental';
+import {
+  ConditionStateStore,
+  EvaluationContext,
+  PositionContext,
+  getConditionEvaluator,
+  ConditionEvaluator,
+} from './condition-evaluator';
+import {
+  CompiledVariable,
+  EXPRESSION_PRICE_REFERENCES,
+  compileVariables,
+  evaluateExpression,
+} from './expression-parser';
+import { IndicatorSource, orderIndicators, parseIndicatorSource } from './indicator-dependencies';
 
 /**
  * Stan executora dla każdego symbolu
  */
 export interface ExecutorState {
   symbol: string;
-  currentPosition: Position | null;
-  indicatorCache: Map<string, IndicatorResult[]>;
+  positions: Record<PositionSide, Position[]>; // Otwarte pozycje per strona (nogi piramidy)
+  indicatorCache: Map<string, IndicatorResult[]>; // Serie wskaźników z ostatniego executeOne
+  indicatorStates: Map<string, CachedIndicatorState>; // Stan obliczeń inkrementalnych
   lastEvaluationContext: EvaluationContext | null;
+  conditionStates: ConditionStateStore; // Stan warunków czasowych (niezależny od innych executorów)
+  entries: Map<string, number>; // Id pozycji → czas wejścia z ostatnich dni (limity liczby wejść)
+  lastExit: { side: PositionSide; timestamp: number; netPnl: number } | null;
+  partialPnl: Map<string, number>; // Wynik częściowych zamknięć otwartych pozycji
+  reentryBlocked: Record<PositionSide, boolean>; // Oczekiwanie na warunek reentryReset
+}
+
+/**
+ * Stan inkrementalny wskaźnika sprzed ostatniej przetworzonej świecy
+ * (mogła być jeszcze w trakcie trwania, więc przy kolejnym wywołaniu liczona jest ponownie)
+ */
+interface CachedIndicatorState {
+  beforeLast: IndicatorState;
+  timestamp: number;
 }
 
+/**
+ * Działanie dla sygnału wejścia przy bieżących pozycjach symbolu
+ * - open: otwórz pozycję (brak pozycji, kolejna noga piramidy lub hedge)
+ * - reverse: zamknij pozycję przeciwną i otwórz nową
+ * - close: tylko zamknij pozycję przeciwną
+ * - ignore: pomiń sygnał
+ */
+export type EntryAction = 'open' | 'reverse' | 'close' | 'ignore';
+
 /**
  * Wynik wykonania strategii dla jednej świecy
  */
@@ -29,6 +86,8 @@ export interface ExecutionResult {
   indicators: Record<string, IndicatorResult>;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Strategy Executor
  * Główny silnik wykonujący strategię na danych OHLCV
@@ -38,6 +97,11 @@ export class StrategyExecutor {
   private readonly strategy: StrategySchema;
   private readonly indicatorRegistry: IndicatorRegistry;
   private readonly conditionEvaluator: ConditionEvaluator;
+  private readonly variables: CompiledVariable[]; // W kolejności zależności
+  private readonly indicators: IndicatorDefinition[]; // W kolejności zależności źródeł
+  private readonly indicatorDependencies: Map<string, string[]>; // Wskaźniki użyte w źródle
+  private readonly conditionGroups: ConditionGroup[]; // Obserwowane na każdej świecy
+  private readonly exitConditionGroups: ConditionGroup[]; // signalExit / signalExitLong / Short
 
   private state: Map<string, ExecutorState> = new Map();
 
@@ -45,6 +109,24 @@ export class StrategyExecutor {
     this.strategy = strategy;
     this.indicatorRegistry = IndicatorRegistry.getInstance();
     this.conditionEvaluator = getConditionEvaluator();
+
+    const { variables, errors } = compileVariables(strategy.computedVariables ?? []);
+    this.variables = variables;
+    errors.forEach((error) => console.warn(`Invalid computed variable - ${error}`));
+
+    const order = orderIndicators(strategy);
+    this.indicators = order.indicators;
+    this.indicatorDependencies = order.dependencies;
+    order.errors.forEach((error) => console.warn(`Invalid indicator source - ${error}`));
+
+    const { long, short } = strategy.entrySignals;
+    const { signalExit, signalExitLong, signalExitShort } = strategy.exitSignals;
+    const getGroups = (definitions: (SignalDefinition | undefined)[]) =>
+      definitions
+        .flatMap((definition) => [definition?.conditions, definition?.filters])
+        .filter((group): group is ConditionGroup => !!group);
+    this.exitConditionGroups = getGroups([signalExit, signalExitLong, signalExitShort]);
+    this.conditionGroups = [...getGroups([long, short]), ...this.exitConditionGroups];
   }
 
   /**
@@ -76,6 +158,9 @@ export class StrategyExecutor {
       console.log(`[StrategyExecutor] Indicator ${id}: ${validValues.length}/${values.length} valid values`);
     });
 
+    // Wartości zmiennych dla kolejnych świec (referencje wstecz, np. 'spread[2]')
+    const variableHistory: Record<string, number | null>[] = [];
+
     // Iteruj po wszystkich świecach
     for (let i = 0; i < data.length; i++) {
       const candle = data[i];
@@ -87,11 +172,14 @@ export class StrategyExecutor {
         prevCandle,
         indicators,
         i,
-        symbol
+        symbol,
+        data,
+        variableHistory
       );
+      variableHistory.push(context.variables);
 
       // Generuj sygnał
-      const signal = this.generateSignal(context, symbol);
+      const signal = this.generateSignal(context, symbol, candle.timestamp);
       signalCounts[signal.type]++;
 
       results.push({
@@ -120,26 +208,38 @@ export class StrategyExecutor {
   ): ExecutionResult {
     // Upewnij się, że mamy wystarczająco danych
     const allData = [...historicalData, currentCandle];
+    const state = this.getOrCreateState(symbol);
 
-    // Oblicz wskaźniki
-    const indicators = this.calculateAllIndicators(allData);
+    // Oblicz wskaźniki (inkrementalnie - tylko nowe świece)
+    const indicators = this.calculateAllIndicators(allData, undefined, state);
     const lastIndex = allData.length - 1;
 
     // Pobierz poprzedni kontekst
-    const state = this.getOrCreateState(symbol);
     const prevCandle = historicalData[historicalData.length - 1] || null;
 
+    // Zmienne dla świec historycznych (referencje wstecz)
+    const variableHistory: Record<string, number | null>[] = [];
+    if (this.variables.length > 0) {
+      for (let i = 0; i < lastIndex; i++) {
+        const values = this.getIndicatorValuesAt(indicators, i);
+        const lookback = this.createLookback(allData, indicators, variableHistory, i);
+        variableHistory.push(this.calculateVariables(values, allData[i], lookback));
+      }
+    }
+
     // Zbuduj kontekst
     const context = this.buildEvaluationContext(
       currentCandle,
       prevCandle,
       indicators,
       lastIndex,
-      symbol
+      symbol,
+      allData,
+      variableHistory
     );
 
     // Generuj sygnał
-    const signal = this.generateSignal(context, symbol);
+    const signal = this.generateSignal(context, symbol, currentCandle.timestamp);
 
     // Zapisz kontekst
     state.lastEvaluationContext = context;
@@ -154,10 +254,12 @@ export class StrategyExecutor {
   /**
    * Oblicz wszystkie wskaźniki zdefiniowane w strategii
    * Obsługuje wskaźniki na różnych timeframe'ach
+   * Ze stanem symbolu (live) wskaźniki inkrementalne doliczają tylko nowe świece
    */
   private calculateAllIndicators(
     data: OHLCV[],
-    multiTfData?: MultiTimeframeData
+    multiTfData?: MultiTimeframeData,
+    cache?: ExecutorState
   ): Map<string, IndicatorResult[]> {
     const results = new Map<string, IndicatorResult[]>();
     const primaryTf = this.strategy.dataRequirements.primaryTimeframe;
@@ -165,7 +267,10 @@ export class StrategyExecutor {
     // Cache dla indeksów wyższych TF
     const htfIndexCache = new Map<Timeframe, (OHLCV | null)[]>();
 
-    for (const indicatorDef of this.strategy.indicators) {
+    // Świece 1m dla wskaźników liczonych z wolumenu wewnątrz świecy (VWAP)
+    const intrabar = primaryTf !== '1m' ? multiTfData?.get('1m') : undefined;
+
+    for (const indicatorDef of this.indicators) {
       const indicator = this.indicatorRegistry.get(indicatorDef.type);
 
       if (!indicator) {
@@ -173,8 +278,15 @@ export class StrategyExecutor {
         continue;
       }
 
+      // Źródło cenowe z definicji (np. 'hl2', 'ha_close') trafia do parametru 'source'
+      const source = parseIndicatorSource(indicatorDef.source, this.strategy);
+      const params =
+        source?.kind === 'price' && indicatorDef.source
+          ? { ...indicatorDef.params, source: indicatorDef.source }
+          : indicatorDef.params;
+
       // Waliduj parametry
-      const validation = indicator.validate(indicatorDef.params);
+      const validation = indicator.validate(params);
       if (!validation.valid) {
         console.warn(
           `Invalid parameters for ${indicatorDef.id}: ${validation.errors.join(', ')}`
@@ -182,6 +294,14 @@ export class StrategyExecutor {
         continue;
       }
 
+      // Wskaźnik liczony z innego wskaźnika lub zmiennej (zawsze na głównym timeframe)
+      if (source && source.kind !== 'price') {
+        const series = this.getSourceSeries(source, data, results);
+        const values = this.calculateOnSeries(indicator, params, data, series);
+        results.set(indicatorDef.id, values);
+        continue;
+      }
+
       // Sprawdź czy wskaźnik jest na innym timeframe
       const indicatorTf = indicatorDef.timeframe || primaryTf;
       
@@ -197,7 +317,10 @@ export class StrategyExecutor {
         }
 
         // Oblicz wskaźnik na danych HTF
-        const htfValues = indicator.calculate(htfData, indicatorDef.params);
+        const htfValues = indicator.calculate(htfData, params, {
+          timeframe: indicatorTf,
+          intrabar,
+        });
 
         // Zbuduj indeks mapowania (cache)
         if (!htfIndexCache.has(indicatorTf)) {
@@ -224,9 +347,15 @@ export class StrategyExecutor {
 
         results.set(indicatorDef.id, mappedValues);
         console.log(`[StrategyExecutor] Indicator ${indicatorDef.id} calculated on ${indicatorTf} and mapped to ${primaryTf}`);
+      } else if (cache && isIncrementalIndicator(indicator)) {
+        // Wskaźnik na głównym timeframe - kontynuacja poprzedniego wywołania
+        results.set(
+          indicatorDef.id,
+          this.updateIndicator(cache, indicatorDef.id, indicator, params, data)
+        );
       } else {
         // Wskaźnik na głównym timeframe
-        const values = indicator.calculate(data, indicatorDef.params);
+        const values = indicator.calculate(data, params, { timeframe: primaryTf, intrabar });
         results.set(indicatorDef.id, values);
       }
     }
@@ -234,38 +363,132 @@ export class StrategyExecutor {
     return results;
   }
 
+  /**
+   * Dolicz wskaźnik od ostatnio przetworzonej świecy (ponownie, od stanu sprzed niej -
+   * mogła się zmienić od tamtej pory), luka w danych - od początku
+   */
+  private updateIndicator(
+    cache: ExecutorState,
+    id: string,
+    indicator: IncrementalIndicator,
+    params: Record<string, number | string>,
+    data: OHLCV[]
+  ): IndicatorResult[] {
+    const cached = cache.indicatorStates.get(id);
+    const values = cache.indicatorCache.get(id) ?? [];
+
+    // Pozycja ostatnio przetworzonej świecy w bieżących danych
+    let last = -1;
+    if (cached) {
+      for (let i = data.length - 1; i >= 0 && data[i].timestamp >= cached.timestamp; i--) {
+        if (data[i].timestamp === cached.timestamp) {
+          last = i;
+          break;
+        }
+      }
+    }
+
+    // Pierwsza świeca do przeliczenia i pozycja wartości dla data[0] w zapisanej serii
+    let start = last;
+    const first = values.length - 1 - last;
+    let state: IndicatorState;
+    let series: IndicatorResult[];
+    if (cached && last >= 0 && first >= 0) {
+      state = cloneIndicatorState(cached.beforeLast);
+      series = values.slice(first, first + start);
+    } else {
+      state = indicator.init(params);
+      series = [];
+      start = 0;
+    }
+
+    let beforeLast = state;
+    for (let i = start; i < data.length; i++) {
+      if (i === data.length - 1) {
+        beforeLast = cloneIndicatorState(state);
+      }
+      series.push(indicator.update(state, data[i]));
+    }
+
+    cache.indicatorCache.set(id, series);
+    cache.indicatorStates.set(id, {
+      beforeLast,
+      timestamp: data[data.length - 1].timestamp,
+    });
+    return series;
+  }
+
+  /**
+   * Seria wartości źródła wskaźnika: linia wskaźnika (domyślnie pierwsza dla wieloliniowego)
+   * lub zmienna policzona dla każdej świecy z wcześniej policzonych wskaźników
+   */
+  private getSourceSeries(
+    source: Exclude<IndicatorSource, { kind: 'price' }>,
+    data: OHLCV[],
+    indicators: Map<string, IndicatorResult[]>
+  ): (number | null)[] {
+    if (source.kind === 'indicator') {
+      const ref = source.field ? `${source.id}.${source.field}` : source.id;
+      return data.map((_, i) => this.createLookback(data, indicators, [], i)(ref, 0));
+    }
+
+    const history: Record<string, number | null>[] = [];
+    for (let i = 0; i < data.length; i++) {
+      const lookback = this.createLookback(data, indicators, history, i);
+      history.push(
+        this.calculateVariables(this.getIndicatorValuesAt(indicators, i), data[i], lookback)
+      );
+    }
+    return history.map((variables) => variables[source.id] ?? null);
+  }
+
+  /**
+   * Oblicz wskaźnik na serii wartości zamiast cen
+   * Świece z open = high = low = close = wartość (wolumen i czas bez zmian), początkowe braki
+   * pominięte, luki wypełnione ostatnią wartością
+   */
+  private calculateOnSeries(
+    indicator: IIndicator,
+    params: Record<string, number | string>,
+    data: OHLCV[],
+    series: (number | null)[]
+  ): IndicatorResult[] {
+    const start = series.findIndex((value) => value !== null);
+    if (start < 0) {
+      return data.map(() => null);
+    }
+
+    let last = series[start] as number;
+    const candles = data.slice(start).map((candle, i) => {
+      last = series[start + i] ?? last;
+      return { ...candle, open: last, high: last, low: last, close: last };
+    });
+
+    return [...data.slice(0, start).map(() => null), ...indicator.calculate(candles, params)];
+  }
+
   /**
    * Zbuduj kontekst ewaluacji dla danej świecy
+   * @param data - wszystkie świece (referencje wstecz)
+   * @param variableHistory - wartości zmiennych dla świec przed index
    */
   private buildEvaluationContext(
     candle: OHLCV,
     prevCandle: OHLCV | null,
     indicators: Map<string, IndicatorResult[]>,
     index: number,
-    symbol: string
+    symbol: string,
+    data: OHLCV[],
+    variableHistory: Record<string, number | null>[]
   ): EvaluationContext {
-    const state = this.state.get(symbol);
+    const state = this.getOrCreateState(symbol);
 
     // Pobierz wartości wskaźników
-    const indicatorValues: Record<
-      string,
-      number | Record<string, number | null> | null
-    > = {};
-
-    indicators.forEach((values, id) => {
-      const value = values[index];
-      if (value === null || value === undefined) {
-        indicatorValues[id] = null;
-      } else if (typeof value === 'number') {
-        indicatorValues[id] = value;
-      } else {
-        // MultiLineIndicatorResult
-        indicatorValues[id] = value as Record<string, number | null>;
-      }
-    });
+    const indicatorValues = this.getIndicatorValuesAt(indicators, index);
 
     // Oblicz zmienne
-    const variables = this.calculateVariables(indicatorValues, candle);
+    const lookback = this.createLookback(data, indicators, variableHistory, index);
+    const variables = this.calculateVariables(indicatorValues, candle, lookback);
 
     // Kontekst
     const context: EvaluationContext = {
@@ -278,10 +501,12 @@ export class StrategyExecutor {
         close: candle.close,
         volume: candle.volume,
       },
+      lookback,
+      bar: { key: symbol, timestamp: candle.timestamp, states: state.conditionStates },
     };
 
     // Dodaj poprzedni kontekst jeśli dostępny
-    if (state?.lastEvaluationContext) {
+    if (state.lastEvaluationContext) {
       context.previous = {
         indicators: state.lastEvaluationContext.indicators,
         variables: state.lastEvaluationContext.variables,
@@ -289,25 +514,13 @@ export class StrategyExecutor {
       };
     } else if (prevCandle && index > 0) {
       // Zbuduj poprzedni kontekst z poprzedniej świecy
-      const prevIndicatorValues: Record<
-        string,
-        number | Record<string, number | null> | null
-      > = {};
-
-      indicators.forEach((values, id) => {
-        const value = values[index - 1];
-        if (value === null || value === undefined) {
-          prevIndicatorValues[id] = null;
-        } else if (typeof value === 'number') {
-          prevIndicatorValues[id] = value;
-        } else {
-          prevIndicatorValues[id] = value as Record<string, number | null>;
-        }
-      });
+      const prevIndicatorValues = this.getIndicatorValuesAt(indicators, index - 1);
 
       context.previous = {
         indicators: prevIndicatorValues,
-        variables: this.calculateVariables(prevIndicatorValues, prevCandle),
+        variables:
+          variableHistory[index - 1] ??
+          this.calculateVariables(prevIndicatorValues, prevCandle, () => null),
         price: {
           open: prevCandle.open,
           high: prevCandle.high,
@@ -321,149 +534,579 @@ export class StrategyExecutor {
     return context;
   }
 
+  /**
+   * Wartości wskaźników dla świecy o danym indeksie
+   */
+  private getIndicatorValuesAt(
+    indicators: Map<string, IndicatorResult[]>,
+    index: number
+  ): Record<string, number | Record<string, number | null> | null> {
+    const values: Record<string, number | Record<string, number | null> | null> = {};
+
+    indicators.forEach((results, id) => {
+      const value = results[index];
+      if (value === null || value === undefined) {
+        values[id] = null;
+      } else if (typeof value === 'number') {
+        values[id] = value;
+      } else {
+        // MultiLineIndicatorResult
+        values[id] = value as Record<string, number | null>;
+      }
+    });
+
+    return values;
+  }
+
+  /**
+   * Funkcja zwracająca wartość referencji sprzed offset świec względem index
+   * Ceny i wskaźniki z pełnych serii, zmienne z historii
+   */
+  private createLookback(
+    data: OHLCV[],
+    indicators: Map<string, IndicatorResult[]>,
+    variableHistory: Record<string, number | null>[],
+    index: number
+  ): (ref: string, offset: number) => number | null {
+    return (ref, offset) => {
+      const at = index - offset;
+      if (offset < 0 || at < 0 || at >= data.length) {
+        return null;
+      }
+
+      // Tylko wskaźnik, do którego odwołuje się referencja
+      const [id] = ref.split('.');
+      const series = indicators.get(id);
+      const indicatorValues = series ? this.getIndicatorValuesAt(new Map([[id, series]]), at) : {};
+
+      return this.resolveExpressionReference(
+        ref,
+        indicatorValues,
+        variableHistory[at] ?? {},
+        data[at]
+      );
+    };
+  }
+
   /**
    * Oblicz zmienne zdefiniowane w strategii
+   * Zmienne mogą odwoływać się do zmiennych policzonych wcześniej (kolejność zależności)
+   * oraz do wartości z poprzednich świec (lookback)
    */
   private calculateVariables(
     indicators: Record<string, number | Record<string, number | null> | null>,
-    candle: OHLCV
+    candle: OHLCV,
+    lookback: (ref: string, offset: number) => number | null
   ): Record<string, number | null> {
     const variables: Record<string, number | null> = {};
 
-    if (!this.strategy.computedVariables) {
-      return variables;
+    // Zmienne z błędem składni lub w cyklu nie mają wartości
+    for (const varDef of this.strategy.computedVariables ?? []) {
+      variables[varDef.id] = null;
     }
 
-    for (const varDef of this.strategy.computedVariables) {
-      try {
-        // Prosta ewaluacja wyrażeń (w produkcji użylibyśmy parsera)
-        const value = this.evaluateExpression(varDef.expression, indicators, candle);
-        variables[varDef.id] = value;
-      } catch (error) {
-        console.warn(`Failed to evaluate variable ${varDef.id}: ${error}`);
-        variables[varDef.id] = null;
-      }
+    for (const variable of this.variables) {
+      variables[variable.id] = evaluateExpression(variable.expression, (name, offset) =>
+        offset === 0
+          ? this.resolveExpressionReference(name, indicators, variables, candle)
+          : lookback(name, offset)
+      );
     }
 
     return variables;
   }
 
   /**
-   * Prosta ewaluacja wyrażeń (uproszczona wersja)
+   * Wartość referencji w wyrażeniu: cena (także hl2 / hlc3 / ohlc4), wskaźnik
+   * (także 'pivot.S1'), zmienna
    */
-  private evaluateExpression(
-    expression: string,
+  private resolveExpressionReference(
+    name: string,
     indicators: Record<string, number | Record<string, number | null> | null>,
+    variables: Record<string, number | null>,
     candle: OHLCV
   ): number | null {
-    // Zamień referencje na wartości
-    let expr = expression;
-
-    // Zamień ceny
-    expr = expr.replace(/\bclose\b/g, candle.close.toString());
-    expr = expr.replace(/\bopen\b/g, candle.open.toString());
-    expr = expr.replace(/\bhigh\b/g, candle.high.toString());
-    expr = expr.replace(/\blow\b/g, candle.low.toString());
-
-    // Zamień wskaźniki
-    for (const [id, value] of Object.entries(indicators)) {
-      if (typeof value === 'number') {
-        expr = expr.replace(new RegExp(`\\b${id}\\b`, 'g'), value.toString());
-      } else if (value && typeof value === 'object') {
-        for (const [prop, val] of Object.entries(value)) {
-          if (val !== null) {
-            expr = expr.replace(
-              new RegExp(`\\b${id}\\.${prop}\\b`, 'g'),
-              val.toString()
-            );
-          }
-        }
-      }
+    if (EXPRESSION_PRICE_REFERENCES.includes(name)) {
+      return getPrice(candle, name === 'price' ? 'close' : (name as PriceSource));
     }
 
-    // Ewaluuj wyrażenie (w produkcji użylibyśmy bezpiecznego parsera)
-    try {
-      // eslint-disable-next-line no-eval
-      const result = eval(expr);
-      return typeof result === 'number' && !isNaN(result) ? result : null;
-    } catch {
-      return null;
+    const [id, property] = name.split('.');
+    const indicator = indicators[id];
+    if (property !== undefined) {
+      return indicator && typeof indicator === 'object' ? indicator[property] ?? null : null;
+    }
+
+    if (typeof indicator === 'number') {
+      return indicator;
     }
+    // Dla multi-line, domyślnie pierwsza wartość (jak w warunkach)
+    if (indicator && typeof indicator === 'object') {
+      return Object.values(indicator)[0] ?? null;
+    }
+
+    return variables[name] ?? null;
   }
 
   /**
    * Generuj sygnał na podstawie kontekstu
+   * @param timestamp - timestamp bieżącej świecy (wyjście czasowe)
    */
-  private generateSignal(context: EvaluationContext, symbol: string): Signal {
+  private generateSignal(context: EvaluationContext, symbol: string, timestamp: number): Signal {
+    this.updateEntryState(symbol, context);
+    this.conditionGroups.forEach((group) => this.conditionEvaluator.updateState(group, context));
+
     const state = this.getOrCreateState(symbol);
-    const hasPosition = state.currentPosition !== null;
-    const positionSide = state.currentPosition?.side;
+    const positions = [...state.positions.long, ...state.positions.short];
+    const hasPosition = positions.length > 0;
 
     // Sprawdź sygnały wyjścia jeśli mamy pozycję
     if (hasPosition) {
       // Sprawdź sygnał wyjścia
-      if (this.strategy.exitSignals.signalExit) {
-        const shouldExit = this.conditionEvaluator.evaluateGroup(
-          this.strategy.exitSignals.signalExit.conditions,
-          context
-        );
+      const exitSignal = this.getExitSignal(symbol, context, timestamp);
+      if (exitSignal) {
+        return exitSignal;
+      }
 
-        if (shouldExit) {
-          return {
-            type: positionSide === 'long' ? 'exit_long' : 'exit_short',
-            price: context.price.close,
-            timestamp: Date.now(),
-            reason: 'signal',
-          };
-        }
+      // Sprawdź wyjście czasowe
+      const timedOut = positions.find((p) =>
+        this.shouldTimeout(p, timestamp, context.price.close)
+      );
+      if (timedOut) {
+        return {
+          type: timedOut.side === 'long' ? 'exit_long' : 'exit_short',
+          price: context.price.close,
+          timestamp: Date.now(),
+          reason: 'timeout',
+        };
       }
     }
 
     // Sprawdź sygnały wejścia LONG
-    if (!hasPosition && this.strategy.entrySignals.long) {
-      const shouldEnterLong = this.evaluateEntrySignal(
+    const longAction = this.getEntryAction(symbol, 'long', context.price.close, timestamp);
+    if (longAction !== 'ignore' && this.strategy.entrySignals.long) {
+      const shouldEnterLong = this.evaluateSignal(
         this.strategy.entrySignals.long,
         context
       );
 
       if (shouldEnterLong) {
-        return {
-          type: 'entry_long',
-          price: context.price.close,
-          timestamp: Date.now(),
-          reason: 'entry_signal',
-        };
+        const signal = this.createActionSignal(
+          longAction,
+          'long',
+          this.strategy.entrySignals.long,
+          context
+        );
+        if (signal) {
+          return signal;
+        }
       }
     }
 
     // Sprawdź sygnały wejścia SHORT
-    if (!hasPosition && this.strategy.entrySignals.short) {
-      const shouldEnterShort = this.evaluateEntrySignal(
+    const shortAction = this.getEntryAction(symbol, 'short', context.price.close, timestamp);
+    if (shortAction !== 'ignore' && this.strategy.entrySignals.short) {
+      const shouldEnterShort = this.evaluateSignal(
         this.strategy.entrySignals.short,
         context
       );
 
       if (shouldEnterShort) {
+        const signal = this.createActionSignal(
+          shortAction,
+          'short',
+          this.strategy.entrySignals.short,
+          context
+        );
+        if (signal) {
+          return signal;
+        }
+      }
+    }
+
+    return {
+      type: 'none',
+      price: context.price.close,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Zapisz obserwację świecy dla warunków czasowych wyjść (jak generateSignal na każdej świecy)
+   * Backtest wywołuje na każdej świecy przed getExitSignal - okna N świec bez luk
+   * także gdy strona nie ma pozycji
+   */
+  updateExitState(context: EvaluationContext): void {
+    this.exitConditionGroups.forEach((group) =>
+      this.conditionEvaluator.updateState(group, context)
+    );
+  }
+
+  /**
+   * Sygnał wyjścia z warunków signalExit / signalExitLong / signalExitShort (otwarte pozycje)
+   * Warunki widzą stan pozycji swojej strony (referencje 'position.*')
+   * Backtest wywołuje przy przetwarzaniu świecy - sygnały liczone z góry nie znają pozycji
+   */
+  getExitSignal(symbol: string, context: EvaluationContext, timestamp: number): Signal | null {
+    const state = this.getOrCreateState(symbol);
+    const { signalExit, signalExitLong, signalExitShort } = this.strategy.exitSignals;
+
+    for (const side of ['long', 'short'] as const) {
+      const definition = (side === 'long' ? signalExitLong : signalExitShort) ?? signalExit;
+      const positions = state.positions[side];
+      if (!definition || positions.length === 0) {
+        continue;
+      }
+
+      const position = this.getPositionContext(positions, context.price.close, timestamp);
+      if (this.evaluateSignal(definition, { ...context, position })) {
         return {
-          type: 'entry_short',
+          type: side === 'long' ? 'exit_long' : 'exit_short',
           price: context.price.close,
           timestamp: Date.now(),
-          reason: 'entry_signal',
+          reason: 'signal',
         };
       }
     }
 
+    return null;
+  }
+
+  /**
+   * Stan pozycji jednej strony dla warunków wyjścia (nogi piramidy łącznie)
+   */
+  private getPositionContext(
+    positions: Position[],
+    price: number,
+    timestamp: number
+  ): PositionContext {
+    const [first] = positions;
+    const { side } = first;
+    const size = positions.reduce((sum, p) => sum + p.size, 0);
+    const entryPrice =
+      size > 0
+        ? positions.reduce((sum, p) => sum + p.entryPrice * p.size, 0) / size
+        : first.entryPrice;
+    const pnlPerUnit = side === 'long' ? price - entryPrice : entryPrice - price;
+    const risk =
+      first.initialStopLoss !== undefined ? Math.abs(first.entryPrice - first.initialStopLoss) : 0;
+    const barMs = timeframeToMs(this.strategy.dataRequirements.primaryTimeframe);
+    const entryTime = Math.min(...positions.map((p) => p.entryTime));
+
     return {
-      type: 'none',
+      side,
+      entryPrice,
+      barsHeld: Math.max(0, Math.floor((timestamp - entryTime) / barMs)),
+      unrealizedPnlPercent: (pnlPerUnit / entryPrice) * 100,
+      rMultiple: risk > 0 ? pnlPerUnit / risk : null,
+      maxFavorableExcursion: Math.max(
+        0,
+        (pnlPerUnit / entryPrice) * 100,
+        ...positions.map((p) => p.maxFavorableExcursion ?? 0)
+      ),
+    };
+  }
+
+  /**
+   * Sprawdź czy pozycja przekroczyła limit czasu (exitSignals.timeout)
+   * Wspólna logika dla backtestu i live tradingu
+   * @param timestamp - timestamp bieżącej świecy
+   * @param price - bieżąca cena (warunki onlyIfLosing / belowRMultiple)
+   */
+  shouldTimeout(position: Position, timestamp: number, price: number): boolean {
+    const timeout = this.strategy.exitSignals.timeout;
+    if (timeout === undefined) {
+      return false;
+    }
+
+    const config = typeof timeout === 'number' ? { minutes: timeout } : timeout;
+    const heldMs = timestamp - position.entryTime;
+    const barMs = timeframeToMs(this.strategy.dataRequirements.primaryTimeframe);
+
+    const minutesExceeded = config.minutes !== undefined && heldMs >= config.minutes * 60 * 1000;
+    const barsExceeded = config.bars !== undefined && heldMs >= config.bars * barMs;
+    if (!minutesExceeded && !barsExceeded) {
+      return false;
+    }
+
+    const pnlPerUnit = position.side === 'long' ? price - position.entryPrice : position.entryPrice - price;
+
+    if (config.onlyIfLosing && pnlPerUnit >= 0) {
+      return false;
+    }
+
+    // Bez początkowego SL nie da się wyznaczyć R - warunek pomijany
+    if (config.belowRMultiple !== undefined && position.initialStopLoss !== undefined) {
+      const risk = Math.abs(position.entryPrice - position.initialStopLoss);
+      if (risk > 0 && pnlPerUnit / risk >= config.belowRMultiple) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Zamień SL/TP typu 'pivot' / 'indicator' na stałą cenę odczytaną z kontekstu w chwili wejścia
+   * Zwraca null gdy poziomu nie da się wyznaczyć lub leży po złej stronie ceny
+   * (wejście bez ustawionego SL/TP nie powinno zostać otwarte)
+   */
+  resolveExitLevel<T extends StopLossConfig | TakeProfitConfig>(
+    config: T | undefined,
+    kind: 'stop_loss' | 'take_profit',
+    side: PositionSide,
+    context: EvaluationContext
+  ): T | null | undefined {
+    if (!config || (config.type !== 'pivot' && config.type !== 'indicator')) {
+      return config;
+    }
+
+    // Drabinka celów zastępuje pojedynczy poziom TP
+    if (kind === 'take_profit' && (config as TakeProfitConfig).ladder?.length) {
+      return config;
+    }
+
+    const isLong = side === 'long';
+    let ref: string | undefined;
+
+    if (config.type === 'pivot') {
+      const pivotId = config.indicator
+        ?? this.strategy.indicators.find((indicator) => indicator.type === 'PIVOT')?.id;
+      // Dla shorta poziom lustrzany (S2 → R2)
+      const level = isLong
+        ? config.level
+        : config.level?.replace(/^[SR]/, (l) => (l === 'S' ? 'R' : 'S'));
+      ref = pivotId && level ? `${pivotId}.${level}` : undefined;
+    } else {
+      ref = isLong ? config.reference : config.shortReference ?? config.reference;
+    }
+
+    const levelPrice = ref ? this.conditionEvaluator.resolveValue(ref, context) : null;
+    if (levelPrice === null || levelPrice === undefined || isNaN(levelPrice)) {
+      return null;
+    }
+
+    // Bufor: SL dalej od wejścia, TP bliżej wejścia
+    const price = levelPrice * (1 - ((isLong ? 1 : -1) * config.value) / 100);
+    const belowEntry = price < context.price.close;
+    const validSide = kind === 'stop_loss' ? belowEntry === isLong : belowEntry !== isLong;
+
+    return validSide ? { ...config, type: 'fixed_price', value: price } : null;
+  }
+
+  /**
+   * Działanie dla sygnału wejścia w danym kierunku przy bieżących pozycjach symbolu
+   * Pozycja przeciwna - według entrySignals.oppositeSignal (domyślnie 'ignore'),
+   * pozycja w tym samym kierunku - tylko piramidowanie.
+   * Wejście zablokowane przez entrySignals.rules - odwrócenie tylko zamyka pozycję
+   * @param price - cena wejścia (min. odległość od ostatniej nogi piramidy)
+   * @param timestamp - timestamp bieżącej świecy (cooldown, limity dzienne / tygodniowe)
+   */
+  getEntryAction(
+    symbol: string,
+    side: PositionSide,
+    price: number,
+    timestamp: number
+  ): EntryAction {
+    const state = this.getOrCreateState(symbol);
+    const opposite = state.positions[side === 'long' ? 'short' : 'long'];
+    const blocked = this.isEntryBlocked(state, side, timestamp);
+
+    if (opposite.length > 0) {
+      const mode = this.strategy.entrySignals.oppositeSignal ?? 'ignore';
+      if (mode === 'close' || (mode === 'reverse' && blocked)) {
+        return 'close';
+      }
+      if (mode !== 'hedge') {
+        return mode === 'reverse' ? 'reverse' : 'ignore';
+      }
+    }
+
+    return !blocked && this.canEnter(state.positions[side], side, price) ? 'open' : 'ignore';
+  }
+
+  /**
+   * Sprawdź ograniczenia wejść z entrySignals.rules
+   * (cooldown po wyjściu, limity wejść w dniu / tygodniu UTC, oczekiwanie na reentryReset)
+   */
+  private isEntryBlocked(state: ExecutorState, side: PositionSide, timestamp: number): boolean {
+    const rules = this.strategy.entrySignals.rules;
+    if (!rules) {
+      return false;
+    }
+
+    if (state.reentryBlocked[side]) {
+      return true;
+    }
+
+    const { lastExit } = state;
+    if (rules.cooldownBars && lastExit && (!rules.cooldownAfterLossOnly || lastExit.netPnl < 0)) {
+      const barMs = timeframeToMs(this.strategy.dataRequirements.primaryTimeframe);
+      if ((timestamp - lastExit.timestamp) / barMs <= rules.cooldownBars) {
+        return true;
+      }
+    }
+
+    // Tydzień od poniedziałku (1970-01-01 był czwartkiem)
+    const day = Math.floor(timestamp / DAY_MS);
+    const week = Math.floor((day + 3) / 7);
+    const entryDays = [...state.entries.values()].map((time) => Math.floor(time / DAY_MS));
+
+    if (
+      rules.maxTradesPerDay !== undefined &&
+      entryDays.filter((d) => d === day).length >= rules.maxTradesPerDay
+    ) {
+      return true;
+    }
+
+    return (
+      rules.maxTradesPerWeek !== undefined &&
+      entryDays.filter((d) => Math.floor((d + 3) / 7) === week).length >= rules.maxTradesPerWeek
+    );
+  }
+
+  /**
+   * Zapisz zamkniętą transakcję (cooldown, blokada ponownego wejścia)
+   * Częściowe zamknięcia sumowane do wyniku całej pozycji
+   */
+  recordTrade(trade: Trade): void {
+    const state = this.getOrCreateState(trade.symbol);
+    this.recordEntry(state, trade.positionId, trade.entryTime);
+
+    const netPnl = (state.partialPnl.get(trade.positionId) ?? 0) + trade.netPnl;
+
+    if (trade.partial) {
+      state.partialPnl.set(trade.positionId, netPnl);
+      return;
+    }
+
+    state.partialPnl.delete(trade.positionId);
+    state.lastExit = { side: trade.side, timestamp: trade.exitTime, netPnl };
+    if (this.strategy.entrySignals.rules?.reentryReset?.[trade.side]) {
+      state.reentryBlocked[trade.side] = true;
+    }
+  }
+
+  /**
+   * Odblokuj ponowne wejścia, gdy warunek reentryReset jest spełniony na zamknięciu świecy
+   * Wywoływane w generateSignal (live) i przez silnik backtestu po rozliczeniu świecy
+   */
+  updateEntryState(symbol: string, context: EvaluationContext): void {
+    const state = this.getOrCreateState(symbol);
+    const reset = this.strategy.entrySignals.rules?.reentryReset;
+
+    for (const side of ['long', 'short'] as const) {
+      const condition = reset?.[side];
+      if (condition) {
+        this.conditionEvaluator.updateState(condition, context);
+      }
+      if (state.reentryBlocked[side] && condition) {
+        state.reentryBlocked[side] = !this.conditionEvaluator.evaluateGroup(condition, context);
+      }
+    }
+  }
+
+  /**
+   * Sprawdź czy można otworzyć pozycję w danym kierunku
+   * Bez pozycji tej strony - zawsze; z pozycją - tylko przy piramidowaniu
+   * (limit maxOpenPositions, min. odległość od ostatniego wejścia)
+   * @param positions - otwarte nogi tej samej strony
+   */
+  private canEnter(positions: Position[], side: PositionSide, price: number): boolean {
+    if (positions.length === 0) {
+      return true;
+    }
+
+    const pyramiding = this.strategy.riskManagement.pyramiding;
+    if (!pyramiding?.enabled) {
+      return false;
+    }
+
+    if (positions.length >= this.strategy.riskManagement.maxOpenPositions) {
+      return false;
+    }
+
+    const lastEntry = positions[positions.length - 1].entryPrice;
+    // Ruch ceny od ostatniego wejścia w % (dodatni = na korzyść pozycji)
+    const favorableMove = ((side === 'long' ? price - lastEntry : lastEntry - price) / lastEntry) * 100;
+    const minDistance = pyramiding.minDistancePercent ?? 0;
+
+    switch (pyramiding.mode) {
+      case 'averaging':
+        return -favorableMove >= minDistance && favorableMove < 0;
+      case 'scaling':
+        return favorableMove >= minDistance && favorableMove > 0;
+      default:
+        return Math.abs(favorableMove) >= minDistance;
+    }
+  }
+
+  /**
+   * Sygnał dla działania przy spełnionych warunkach wejścia
+   * close - wyjście z pozycji przeciwnej, reverse - wejście oznaczone jako odwrócenie
+   */
+  private createActionSignal(
+    action: EntryAction,
+    side: PositionSide,
+    definition: SignalDefinition,
+    context: EvaluationContext
+  ): Signal | null {
+    if (action === 'close') {
+      return {
+        type: side === 'long' ? 'exit_short' : 'exit_long',
+        price: context.price.close,
+        timestamp: Date.now(),
+        reason: 'opposite_signal',
+      };
+    }
+
+    const type = side === 'long' ? 'entry_long' : 'entry_short';
+    const signal = this.createEntrySignal(type, definition, context);
+    if (signal && action === 'reverse') {
+      signal.reason = 'reversal';
+    }
+    return signal;
+  }
+
+  /**
+   * Utwórz sygnał wejścia wraz z parametrami zlecenia (market / limit / stop_market)
+   * Zwraca null gdy nie da się wyznaczyć ceny zlecenia
+   */
+  private createEntrySignal(
+    type: 'entry_long' | 'entry_short',
+    definition: SignalDefinition,
+    context: EvaluationContext
+  ): Signal | null {
+    const signal: Signal = {
+      type,
       price: context.price.close,
       timestamp: Date.now(),
+      reason: 'entry_signal',
     };
+
+    const order = definition.order;
+    if (!order || order.type === 'market') {
+      return signal;
+    }
+
+    const basePrice = order.price !== undefined
+      ? this.conditionEvaluator.resolveValue(order.price, context)
+      : context.price.close;
+
+    if (basePrice === null) {
+      return null;
+    }
+
+    signal.orderType = order.type;
+    signal.orderPrice = basePrice * (1 + (order.offsetPercent ?? 0) / 100);
+    signal.expiryBars = order.expiryBars ?? 1;
+
+    return signal;
   }
 
   /**
-   * Ewaluuj sygnał wejścia
+   * Ewaluuj definicję sygnału (warunki główne i filtry)
    */
-  private evaluateEntrySignal(
+  private evaluateSignal(
     signal: SignalDefinition,
     context: EvaluationContext
   ): boolean {
@@ -514,9 +1157,15 @@ export class StrategyExecutor {
   private initializeState(symbol: string): void {
     this.state.set(symbol, {
       symbol,
-      currentPosition: null,
+      positions: { long: [], short: [] },
       indicatorCache: new Map(),
+      indicatorStates: new Map(),
       lastEvaluationContext: null,
+      conditionStates: new WeakMap(),
+      entries: new Map(),
+      lastExit: null,
+      partialPnl: new Map(),
+      reentryBlocked: { long: false, short: false },
     });
   }
 
@@ -534,15 +1183,59 @@ export class StrategyExecutor {
    * Ustaw aktualną pozycję (dla synchronizacji stanu)
    */
   setPosition(symbol: string, position: Position | null): void {
+    this.setPositions(symbol, position ? [position] : []);
+  }
+
+  /**
+   * Ustaw wszystkie otwarte pozycje symbolu (nogi piramidy, obie strony w trybie hedge)
+   * Nowe pozycje liczone jako wejścia do limitów maxTradesPerDay / maxTradesPerWeek
+   */
+  setPositions(symbol: string, positions: Position[]): void {
     const state = this.getOrCreateState(symbol);
-    state.currentPosition = position;
+
+    for (const position of positions) {
+      this.recordEntry(state, position.id, position.entryTime);
+    }
+
+    state.positions = {
+      long: positions.filter((p) => p.side === 'long'),
+      short: positions.filter((p) => p.side === 'short'),
+    };
+  }
+
+  /**
+   * Zapisz wejście pozycji (także otwartej i zamkniętej między synchronizacjami)
+   * Limity obejmują najwyżej bieżący tydzień - starsze wejścia usuwane
+   */
+  private recordEntry(state: ExecutorState, positionId: string, entryTime: number): void {
+    state.entries.set(positionId, entryTime);
+
+    for (const [id, time] of state.entries) {
+      if (entryTime - time >= 8 * DAY_MS) {
+        state.entries.delete(id);
+      }
+    }
   }
 
   /**
-   * Pobierz aktualną pozycję
+   * Pobierz aktualną pozycję (ostatnią nogę przy piramidowaniu)
+   * @param side - strona pozycji (w trybie hedge); domyślnie dowolna
    */
-  getPosition(symbol: string): Position | null {
-    return this.state.get(symbol)?.currentPosition ?? null;
+  getPosition(symbol: string, side?: PositionSide): Position | null {
+    const positions = this.getPositions(symbol, side);
+    return positions[positions.length - 1] ?? null;
+  }
+
+  /**
+   * Pobierz wszystkie otwarte pozycje symbolu
+   * @param side - tylko pozycje danej strony
+   */
+  getPositions(symbol: string, side?: PositionSide): Position[] {
+    const positions = this.state.get(symbol)?.positions;
+    if (!positions) {
+      return [];
+    }
+    return side ? [...positions[side]] : [...positions.long, ...positions.short];
   }
 
   /**
@@ -551,11 +1244,18 @@ export class StrategyExecutor {
   getRequiredPeriods(): number {
     let maxPeriod = this.strategy.dataRequirements.lookbackPeriods;
 
-    for (const indicatorDef of this.strategy.indicators) {
+    // Wskaźnik liczony z innego wskaźnika potrzebuje także jego okresu rozgrzewki
+    const required = new Map<string, number>();
+    for (const indicatorDef of this.indicators) {
       const indicator = this.indicatorRegistry.get(indicatorDef.type);
       if (indicator) {
-        const required = indicator.getRequiredPeriods(indicatorDef.params);
-        maxPeriod = Math.max(maxPeriod, required);
+        const sourcePeriods = (this.indicatorDependencies.get(indicatorDef.id) ?? []).map(
+          (id) => required.get(id) ?? 0
+        );
+        const periods =
+          indicator.getRequiredPeriods(indicatorDef.params) + Math.max(0, ...sourcePeriods);
+        required.set(indicatorDef.id, periods);
+        maxPeriod = Math.max(maxPeriod, periods);
       }
     }
 
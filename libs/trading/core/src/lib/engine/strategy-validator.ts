@@ -0,0 +1,313 @@
+import {
+  Condition,
+  ConditionGroup,
+  PositionSizingConfig,
+  StrategySchema,
+  StopLossConfig,
+  TakeProfitConfig,
+} from '../types/strategy';
+import { ValidationResult } from '../types/indicator';
+import {
+  EXPRESSION_PRICE_REFERENCES,
+  compileVariables,
+  getExpressionReferences,
+  parseExpression,
+} from './expression-parser';
+import { isTemporalCondition } from './condition-evaluator';
+import { orderIndicators } from './indicator-dependencies';
+
+/**
+ * Referencje do cen dostępne w kontekście ewaluacji
+ */
+const PRICE_REFERENCES = ['open', 'high', 'low', 'close', 'volume', 'price'];
+
+/**
+ * Waliduj schemat strategii przed uruchomieniem
+ * Odrzuca konfiguracje, które w trakcie backtestu zostałyby po cichu pominięte
+ */
+export function validateStrategy(strategy: StrategySchema): ValidationResult {
+  const errors: string[] = [];
+  const { stopLoss, takeProfit, trailingStop } = strategy.exitSignals;
+
+  errors.push(...validateComputedVariables(strategy));
+  errors.push(...orderIndicators(strategy).errors);
+
+  const { long, short, rules } = strategy.entrySignals;
+  const groups: [string, ConditionGroup | undefined][] = [
+    ['entrySignals.long.conditions', long?.conditions],
+    ['entrySignals.long.filters', long?.filters],
+    ['entrySignals.short.conditions', short?.conditions],
+    ['entrySignals.short.filters', short?.filters],
+    ['entrySignals.rules.reentryReset.long', rules?.reentryReset?.long],
+    ['entrySignals.rules.reentryReset.short', rules?.reentryReset?.short],
+  ];
+  for (const key of ['signalExit', 'signalExitLong', 'signalExitShort'] as const) {
+    const definition = strategy.exitSignals[key];
+    groups.push(
+      [`exitSignals.${key}.conditions`, definition?.conditions],
+      [`exitSignals.${key}.filters`, definition?.filters]
+    );
+  }
+  for (const [name, group] of groups) {
+    if (group) {
+      errors.push(...validateTemporalConditions(name, group));
+      errors.push(...validateConditionExpressions(name, group, strategy));
+    }
+  }
+
+  if (stopLoss) {
+    errors.push(...validateLevelConfig('stopLoss', stopLoss, strategy));
+  }
+
+  if (takeProfit?.ladder?.length) {
+    errors.push(...validateLadder(takeProfit, strategy));
+  } else if (takeProfit) {
+    errors.push(...validateLevelConfig('takeProfit', takeProfit, strategy));
+  }
+
+  if (trailingStop?.enabled && trailingStop.type === 'indicator') {
+    if (!trailingStop.reference) {
+      errors.push('trailingStop: reference is required for indicator type');
+    }
+
+    errors.push(
+      ...validateReferences(
+        'trailingStop',
+        [trailingStop.reference, trailingStop.shortReference],
+        strategy
+      )
+    );
+  }
+
+  if (
+    strategy.entrySignals.oppositeSignal === 'hedge' &&
+    strategy.riskManagement.maxOpenPositions < 2
+  ) {
+    errors.push('entrySignals: hedge mode requires maxOpenPositions of at least 2');
+  }
+
+  if (strategy.riskManagement.sizing) {
+    errors.push(...validateSizing(strategy.riskManagement.sizing));
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Sprawdź czy referencja wskazuje na istniejący wskaźnik, zmienną lub cenę
+ */
+export function referenceExists(ref: string, strategy: StrategySchema): boolean {
+  if (PRICE_REFERENCES.includes(ref.toLowerCase())) {
+    return true;
+  }
+
+  const [id] = ref.split('.');
+  return (
+    strategy.indicators.some((indicator) => indicator.id === id) ||
+    (strategy.computedVariables ?? []).some((variable) => variable.id === ref)
+  );
+}
+
+/**
+ * Waliduj wyrażenia zmiennych obliczeniowych (składnia, cykle, nieznane referencje)
+ */
+function validateComputedVariables(strategy: StrategySchema): string[] {
+  const { variables, errors } = compileVariables(strategy.computedVariables ?? []);
+
+  for (const variable of variables) {
+    const unknown = variable.references.filter(
+      (ref) => !EXPRESSION_PRICE_REFERENCES.includes(ref) && !referenceExists(ref, strategy)
+    );
+    errors.push(
+      ...validateReferences(`computedVariables.${variable.id}`, unknown, strategy)
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * Waliduj parametry warunków czasowych (bars, count, condition)
+ */
+function validateTemporalConditions(name: string, group: ConditionGroup): string[] {
+  return group.conditions.flatMap((condition, i) => {
+    const path = `${name}[${i}]`;
+    if ('conditions' in condition) {
+      return validateTemporalConditions(path, condition);
+    }
+    if (!isTemporalCondition(condition)) {
+      return [];
+    }
+
+    const errors: string[] = [];
+    const bars = Number(condition.params?.['bars']);
+    if (!Number.isInteger(bars) || bars < 1) {
+      errors.push(`${path}: ${condition.type} requires params.bars as a positive integer`);
+    }
+
+    if (condition.type === 'true_for' || condition.type === 'true_count_in') {
+      const base = { ...condition, type: condition.params?.['condition'] } as Condition;
+      if (typeof base.type !== 'string' || isTemporalCondition(base)) {
+        errors.push(`${path}: ${condition.type} requires params.condition of a non-temporal type`);
+      }
+    }
+
+    if (condition.type === 'true_count_in') {
+      const count = Number(condition.params?.['count']);
+      if (!Number.isInteger(count) || count < 1 || count > bars) {
+        errors.push(`${path}: true_count_in requires params.count between 1 and params.bars`);
+      }
+    }
+
+    return errors;
+  });
+}
+
+/**
+ * Waliduj referencje z przesunięciem i funkcje okna w warunkach (np. 'rsi[1]', 'lowest(low, 10)')
+ * Błędne wyrażenie w trakcie backtestu dałoby zawsze fałszywy warunek
+ */
+function validateConditionExpressions(
+  name: string,
+  group: ConditionGroup,
+  strategy: StrategySchema
+): string[] {
+  return group.conditions.flatMap((condition, i) => {
+    const path = `${name}[${i}]`;
+    if ('conditions' in condition) {
+      return validateConditionExpressions(path, condition, strategy);
+    }
+
+    const errors: string[] = [];
+    for (const side of ['left', 'right'] as const) {
+      const ref = condition[side];
+      if (typeof ref !== 'string' || !/[[(]/.test(ref)) {
+        continue;
+      }
+
+      try {
+        const refs = getExpressionReferences(parseExpression(ref)).filter(
+          (reference) => !reference.startsWith('position.')
+        );
+        errors.push(...validateReferences(`${path}.${side}`, refs, strategy));
+      } catch (error) {
+        errors.push(`${path}.${side}: ${(error as Error).message}`);
+      }
+    }
+
+    return errors;
+  });
+}
+
+/**
+ * Waliduj SL/TP typu 'pivot' / 'indicator'
+ */
+function validateLevelConfig(
+  name: string,
+  config: StopLossConfig | TakeProfitConfig,
+  strategy: StrategySchema
+): string[] {
+  const errors: string[] = [];
+
+  if (config.type === 'pivot') {
+    if (!config.level) {
+      errors.push(`${name}: pivot level is required (e.g. 'S2')`);
+    }
+
+    const pivot = config.indicator
+      ? strategy.indicators.find((indicator) => indicator.id === config.indicator)
+      : strategy.indicators.find((indicator) => indicator.type === 'PIVOT');
+
+    if (!pivot) {
+      errors.push(
+        config.indicator
+          ? `${name}: indicator '${config.indicator}' not found`
+          : `${name}: pivot type requires a PIVOT indicator in the strategy`
+      );
+    } else if (pivot.type !== 'PIVOT') {
+      errors.push(`${name}: indicator '${pivot.id}' is not a PIVOT indicator`);
+    }
+  }
+
+  if (config.type === 'indicator') {
+    if (!config.reference) {
+      errors.push(`${name}: reference is required for indicator type`);
+    }
+
+    errors.push(
+      ...validateReferences(name, [config.reference, config.shortReference], strategy)
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * Waliduj drabinkę celów częściowej realizacji zysku
+ */
+function validateLadder(config: TakeProfitConfig, strategy: StrategySchema): string[] {
+  const errors: string[] = [];
+  const ladder = config.ladder ?? [];
+
+  ladder.forEach((target, i) => {
+    const name = `takeProfit.ladder[${i}]`;
+
+    if ((target.rMultiple === undefined) === (target.percent === undefined)) {
+      errors.push(`${name}: exactly one of rMultiple or percent is required`);
+    } else if ((target.rMultiple ?? target.percent ?? 0) <= 0) {
+      errors.push(`${name}: target distance must be positive`);
+    }
+
+    if (target.rMultiple !== undefined && !strategy.exitSignals.stopLoss) {
+      errors.push(`${name}: rMultiple targets require a stop loss`);
+    }
+
+    if (!(target.sizePercent > 0)) {
+      errors.push(`${name}: sizePercent must be positive`);
+    }
+  });
+
+  const totalSize = ladder.reduce((sum, target) => sum + target.sizePercent, 0);
+  if (totalSize > 100) {
+    errors.push(`takeProfit.ladder: sizePercent sums to ${totalSize}% (max 100%)`);
+  }
+
+  return errors;
+}
+
+/**
+ * Waliduj parametry wymagane przez wybrany tryb sizingu
+ */
+function validateSizing(sizing: PositionSizingConfig): string[] {
+  const errors: string[] = [];
+  const required: Partial<Record<PositionSizingConfig['mode'], keyof PositionSizingConfig>> = {
+    fixed_notional: 'notional',
+    fixed_fraction: 'fraction',
+    volatility: 'targetVolatility',
+  };
+
+  const param = required[sizing.mode];
+  if (param && !(Number(sizing[param]) > 0)) {
+    errors.push(`sizing: ${param} must be positive for ${sizing.mode} mode`);
+  }
+
+  const { kellyFraction } = sizing;
+  if (kellyFraction !== undefined && !(kellyFraction > 0 && kellyFraction <= 1)) {
+    errors.push('sizing: kellyFraction must be in (0, 1]');
+  }
+
+  return errors;
+}
+
+/**
+ * Sprawdź czy podane referencje istnieją w strategii
+ */
+function validateReferences(
+  name: string,
+  refs: (string | undefined)[],
+  strategy: StrategySchema
+): string[] {
+  return refs
+    .filter((ref): ref is string => !!ref && !referenceExists(ref, strategy))
+    .map((ref) => `${name}: reference '${ref}' does not match any indicator or variable`);
+}
@@ -1,5 +1,5 @@
 import * as ccxt from 'ccxt';
-import { OHLCV, Timeframe, timeframeToMs } from '../types/ohlcv';
+import { FundingRate, OHLCV, Timeframe, timeframeToMs } from '../types/ohlcv';
 import {
   IExchangeClient,
   ExchangeConfig,
@@ -165,6 +165,63 @@ export class BybitClient implements IExchangeClient {
     return allData;
   }
 
+  /**
+   * Pobierz historię funding rate (z paginacją)
+   * @param onBatch - callback z nowymi stawkami do inkrementalnego zapisu
+   */
+  async fetchFundingRateHistory(
+    symbol: string,
+    startDate: Date,
+    endDate: Date,
+    onBatch?: (rates: FundingRate[]) => Promise<void>
+  ): Promise<FundingRate[]> {
+    const allRates: FundingRate[] = [];
+    const batchSize = 200;
+
+    let since = startDate.getTime();
+    const endTimestamp = endDate.getTime();
+
+    while (since < endTimestamp) {
+      let batch: FundingRate[];
+
+      try {
+        const history = await this.exchange.fetchFundingRateHistory(symbol, since, batchSize);
+        batch = history.map((entry) => ({
+          timestamp: entry.timestamp ?? 0,
+          rate: entry.fundingRate,
+        }));
+      } catch (error) {
+        throw new Error(`Failed to fetch funding rate history: ${(error as Error).message}`);
+      }
+
+      if (batch.length === 0) {
+        break;
+      }
+
+      // Filtruj tylko stawki w zakresie
+      const filtered = batch.filter(
+        (funding) => funding.timestamp >= since && funding.timestamp < endTimestamp
+      );
+
+      allRates.push(...filtered);
+
+      if (onBatch && filtered.length > 0) {
+        await onBatch(filtered);
+      }
+
+      const lastTimestamp = batch[batch.length - 1].timestamp;
+      if (lastTimestamp < since) {
+        break;
+      }
+      since = lastTimestamp + 1;
+
+      // Krótka pauza aby nie przekroczyć rate limit
+      await this.sleep(100);
+    }
+
+    return allRates;
+  }
+
   /**
    * Pobierz ticker
    */
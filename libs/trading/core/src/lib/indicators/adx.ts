@@ -2,10 +2,19 @@ import { OHLCV } from '../types/ohlcv';
 import {
   IIndicator,
   IndicatorResult,
+  IndicatorState,
   MultiLineIndicatorResult,
   ParameterDefinition,
   ValidationResult,
 } from '../types/indicator';
+import {
+  CANDLE_SOURCES,
+  CANDLE_SOURCE_PARAMETER,
+  getSourceCandles,
+  validateSource,
+} from './source';
+import { calculateTrueRange } from './atr';
+import { createIndicatorState, nextSource } from './incremental';
 
 /**
  * Average Directional Index (ADX)
@@ -24,6 +33,7 @@ export class ADXIndicator implements IIndicator {
       max: 100,
       description: 'Okres ADX',
     },
+    CANDLE_SOURCE_PARAMETER,
   ];
 
   getRequiredPeriods(params: Record<string, number | string>): number {
@@ -38,12 +48,84 @@ export class ADXIndicator implements IIndicator {
       errors.push('Period must be at least 1');
     }
 
+    errors.push(...validateSource(params, CANDLE_SOURCES));
+
     return { valid: errors.length === 0, errors };
   }
 
   calculate(data: OHLCV[], params: Record<string, number | string>): IndicatorResult[] {
     const period = Number(params['period']) || 14;
-    return calculateADX(data, period);
+    return calculateADX(getSourceCandles(data, params), period);
+  }
+
+  init(params: Record<string, number | string>): IndicatorState {
+    return createIndicatorState(params);
+  }
+
+  update(state: IndicatorState, candle: OHLCV): IndicatorResult {
+    const period = Number(state.params['period']) || 14;
+    const { candle: current, previous } = nextSource(state, candle);
+    const index = state.count - 1;
+    const values = state.values;
+
+    // Directional Movement
+    const upMove = previous ? current.high - previous.high : 0;
+    const downMove = previous ? previous.low - current.low : 0;
+    const tr = calculateTrueRange(current, previous);
+    const plusDM = upMove > downMove && upMove > 0 ? upMove : 0;
+    const minusDM = downMove > upMove && downMove > 0 ? downMove : 0;
+
+    // Wygładzanie Wildera - pierwsze wartości to sumy z okresu
+    if (index < period) {
+      values['tr'] = (values['tr'] ?? 0) + tr;
+      values['plusDM'] = (values['plusDM'] ?? 0) + plusDM;
+      values['minusDM'] = (values['minusDM'] ?? 0) + minusDM;
+      if (index < period - 1) {
+        return { adx: null, plusDI: null, minusDI: null };
+      }
+    } else {
+      const smoothedTR = values['tr'] as number;
+      const smoothedPlusDM = values['plusDM'] as number;
+      const smoothedMinusDM = values['minusDM'] as number;
+      values['tr'] = smoothedTR - smoothedTR / period + tr;
+      values['plusDM'] = smoothedPlusDM - smoothedPlusDM / period + plusDM;
+      values['minusDM'] = smoothedMinusDM - smoothedMinusDM / period + minusDM;
+    }
+
+    let plusDI: number | null = null;
+    let minusDI: number | null = null;
+    let dx: number | null = null;
+    const smoothedTR = values['tr'] as number;
+    if (smoothedTR !== 0) {
+      plusDI = ((values['plusDM'] as number) / smoothedTR) * 100;
+      minusDI = ((values['minusDM'] as number) / smoothedTR) * 100;
+      const diSum = plusDI + minusDI;
+      if (diSum !== 0) {
+        dx = (Math.abs(plusDI - minusDI) / diSum) * 100;
+      }
+    }
+
+    // Pierwszy ADX to średnia DX z okresu, dalej wygładzanie Wildera
+    if (index < period * 2 - 1) {
+      if (dx !== null) {
+        values['dxSum'] = (values['dxSum'] ?? 0) + dx;
+        values['dxCount'] = (values['dxCount'] ?? 0) + 1;
+      }
+      if (index === period * 2 - 2) {
+        values['adx'] = values['dxCount'] ? (values['dxSum'] as number) / values['dxCount'] : null;
+      }
+      // Jak w calculate: +DI/-DI tylko dla pierwszej wygładzonej świecy
+      return index === period - 1
+        ? { adx: null, plusDI, minusDI }
+        : { adx: null, plusDI: null, minusDI: null };
+    }
+
+    const adx = values['adx'] ?? null;
+    if (adx !== null && dx !== null) {
+      values['adx'] = (adx * (period - 1) + dx) / period;
+    }
+
+    return { adx: values['adx'] ?? null, plusDI, minusDI };
   }
 }
 
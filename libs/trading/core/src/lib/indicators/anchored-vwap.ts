@@ -0,0 +1,216 @@
+import { OHLCV } from '../types/ohlcv';
+import {
+  IIndicator,
+  IndicatorContext,
+  IndicatorResult,
+  MultiLineIndicatorResult,
+  ParameterDefinition,
+  ValidationResult,
+} from '../types/indicator';
+import { validateSource } from './source';
+import {
+  VWAP_BANDS_PARAMETER,
+  VWAP_SOURCE_PARAMETER,
+  VolumeUnits,
+  addToVWAP,
+  createVWAPSums,
+  getVWAPBands,
+  getVolumeUnits,
+  validateVWAPBands,
+} from './vwap';
+
+/**
+ * Punkt zakotwiczenia VWAP
+ * - time: stały moment (anchorTime)
+ * - pivot_high / pivot_low: ostatni potwierdzony szczyt / dołek swingowy
+ * - pivot: ostatni potwierdzony szczyt lub dołek
+ */
+export type VWAPAnchor = 'time' | 'pivot_high' | 'pivot_low' | 'pivot';
+
+const VWAP_ANCHORS: VWAPAnchor[] = ['time', 'pivot_high', 'pivot_low', 'pivot'];
+
+/**
+ * Anchored VWAP
+ * Średnia cena ważona wolumenem od wybranego momentu lub zdarzenia
+ */
+export class AnchoredVWAPIndicator implements IIndicator {
+  readonly name = 'AVWAP';
+  readonly description = 'Anchored VWAP - VWAP od wybranego momentu lub ostatniego pivota';
+
+  readonly parameters: ParameterDefinition[] = [
+    {
+      name: 'anchor',
+      type: 'string',
+      default: 'time',
+      options: VWAP_ANCHORS,
+      description: 'Punkt zakotwiczenia (time, pivot_high, pivot_low, pivot)',
+    },
+    {
+      name: 'anchorTime',
+      type: 'string',
+      default: '',
+      description: 'Moment zakotwiczenia (timestamp w ms lub data ISO) dla anchor = time',
+    },
+    {
+      name: 'pivotBars',
+      type: 'number',
+      default: 5,
+      min: 1,
+      max: 50,
+      description: 'Liczba świec po obu stronach pivota (potwierdzenie po pivotBars świecach)',
+    },
+    VWAP_BANDS_PARAMETER,
+    VWAP_SOURCE_PARAMETER,
+  ];
+
+  getRequiredPeriods(params: Record<string, number | string>): number {
+    const anchor = (params['anchor'] as VWAPAnchor) || 'time';
+    const pivotBars = Number(params['pivotBars']) || 5;
+    return anchor === 'time' ? 1 : pivotBars * 2 + 1;
+  }
+
+  validate(params: Record<string, number | string>): ValidationResult {
+    const errors: string[] = [];
+    const anchor = params['anchor'] as VWAPAnchor;
+    const pivotBars = Number(params['pivotBars'] ?? 5);
+
+    if (anchor && !VWAP_ANCHORS.includes(anchor)) {
+      errors.push(`Invalid anchor. Valid options: ${VWAP_ANCHORS.join(', ')}`);
+    }
+    if (Number.isNaN(parseAnchorTime(params['anchorTime']))) {
+      errors.push('Anchor time must be a timestamp in ms or an ISO date');
+    }
+    if (!Number.isInteger(pivotBars) || pivotBars < 1 || pivotBars > 50) {
+      errors.push('Pivot bars must be an integer between 1 and 50');
+    }
+
+    errors.push(...validateVWAPBands(params));
+    errors.push(...validateSource(params));
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  calculate(
+    data: OHLCV[],
+    params: Record<string, number | string>,
+    context?: IndicatorContext
+  ): IndicatorResult[] {
+    const anchor = (params['anchor'] as VWAPAnchor) || 'time';
+    const pivotBars = Number(params['pivotBars']) || 5;
+    const multiplier = Number(params['stdDev']) || 1;
+    const units = getVolumeUnits(data, params, context);
+
+    const anchors =
+      anchor === 'time'
+        ? getTimeAnchors(units, parseAnchorTime(params['anchorTime']))
+        : getPivotAnchors(data, units, anchor, pivotBars);
+
+    return calculateAnchoredVWAP(units, anchors, multiplier);
+  }
+}
+
+/**
+ * Moment zakotwiczenia z parametru (timestamp w ms lub data ISO, domyślnie początek danych)
+ */
+export function parseAnchorTime(value: number | string | undefined): number {
+  if (value === undefined || value === '') {
+    return 0;
+  }
+  return typeof value === 'string' && !/^\d+$/.test(value) ? Date.parse(value) : Number(value);
+}
+
+/**
+ * Zakotwiczenie w stałym momencie - pierwsza jednostka wolumenu od anchorTime
+ */
+function getTimeAnchors(units: VolumeUnits, anchorTime: number): number[] {
+  let first = units.timestamps.findIndex((timestamp) => timestamp >= anchorTime);
+  if (first < 0) {
+    first = units.timestamps.length;
+  }
+
+  // Przed momentem zakotwiczenia brak wartości
+  return units.ends.map((end) => (end > first ? first : -1));
+}
+
+/**
+ * Zakotwiczenie w ostatnim potwierdzonym pivocie swingowym
+ * Pivot na świecy p jest znany dopiero na świecy p + pivotBars (bez patrzenia w przyszłość)
+ */
+function getPivotAnchors(
+  data: OHLCV[],
+  units: VolumeUnits,
+  anchor: Exclude<VWAPAnchor, 'time'>,
+  pivotBars: number
+): number[] {
+  const anchors: number[] = [];
+  let current = -1;
+
+  for (let i = 0; i < data.length; i++) {
+    const pivot = i - pivotBars;
+    if (pivot >= pivotBars) {
+      const isHigh = anchor !== 'pivot_low' && isSwingPivot(data, pivot, pivotBars, 'high');
+      const isLow = anchor !== 'pivot_high' && isSwingPivot(data, pivot, pivotBars, 'low');
+      if (isHigh || isLow) {
+        current = pivot > 0 ? units.ends[pivot - 1] : 0;
+      }
+    }
+    anchors.push(current);
+  }
+
+  return anchors;
+}
+
+/**
+ * Czy świeca jest szczytem (high) lub dołkiem (low) względem pivotBars świec z obu stron
+ */
+function isSwingPivot(
+  data: OHLCV[],
+  index: number,
+  pivotBars: number,
+  type: 'high' | 'low'
+): boolean {
+  const value = data[index][type];
+  for (let j = index - pivotBars; j <= index + pivotBars; j++) {
+    if (j === index) {
+      continue;
+    }
+    if (type === 'high' ? data[j].high >= value : data[j].low <= value) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Oblicz anchored VWAP dla zakotwiczeń każdej świecy (indeks jednostki, -1 = brak)
+ * Zmiana zakotwiczenia przelicza sumy od nowego punktu
+ */
+export function calculateAnchoredVWAP(
+  units: VolumeUnits,
+  anchors: number[],
+  multiplier: number
+): MultiLineIndicatorResult[] {
+  const results: MultiLineIndicatorResult[] = [];
+  let sums = createVWAPSums();
+  let anchor = -1;
+  let next = 0; // Pierwsza jednostka jeszcze nie dodana do sum
+
+  for (let i = 0; i < units.ends.length; i++) {
+    if (anchors[i] < 0) {
+      results.push(getVWAPBands(createVWAPSums(), multiplier));
+      continue;
+    }
+    if (anchors[i] !== anchor) {
+      anchor = anchors[i];
+      sums = createVWAPSums();
+      next = anchor;
+    }
+
+    for (; next < units.ends[i]; next++) {
+      addToVWAP(sums, units.prices[next], units.volumes[next]);
+    }
+    results.push(getVWAPBands(sums, multiplier));
+  }
+
+  return results;
+}
@@ -1,5 +1,18 @@
 import { OHLCV } from '../types/ohlcv';
-import { IIndicator, IndicatorResult, ParameterDefinition, ValidationResult } from '../types/indicator';
+import {
+  IIndicator,
+  IndicatorResult,
+  IndicatorState,
+  ParameterDefinition,
+  ValidationResult,
+} from '../types/indicator';
+import {
+  CANDLE_SOURCES,
+  CANDLE_SOURCE_PARAMETER,
+  getSourceCandles,
+  validateSource,
+} from './source';
+import { createIndicatorState, nextSource, updateSmoothed } from './incremental';
 
 /**
  * Average True Range (ATR)
@@ -18,6 +31,7 @@ export class ATRIndicator implements IIndicator {
       max: 100,
       description: 'Okres ATR',
     },
+    CANDLE_SOURCE_PARAMETER,
   ];
 
   getRequiredPeriods(params: Record<string, number | string>): number {
@@ -35,12 +49,24 @@ export class ATRIndicator implements IIndicator {
       errors.push('Period must not exceed 100');
     }
 
+    errors.push(...validateSource(params, CANDLE_SOURCES));
+
     return { valid: errors.length === 0, errors };
   }
 
   calculate(data: OHLCV[], params: Record<string, number | string>): IndicatorResult[] {
     const period = Number(params['period']) || 14;
-    return calculateATR(data, period);
+    return calculateATR(getSourceCandles(data, params), period);
+  }
+
+  init(params: Record<string, number | string>): IndicatorState {
+    return createIndicatorState(params);
+  }
+
+  update(state: IndicatorState, candle: OHLCV): IndicatorResult {
+    const period = Number(state.params['period']) || 14;
+    const { candle: current, previous } = nextSource(state, candle);
+    return updateSmoothed(state, 'atr', calculateTrueRange(current, previous), period, 'smma');
   }
 }
 
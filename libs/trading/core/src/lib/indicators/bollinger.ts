@@ -2,13 +2,14 @@ import { OHLCV } from '../types/ohlcv';
 import {
   IIndicator,
   IndicatorResult,
+  IndicatorState,
   MultiLineIndicatorResult,
   ParameterDefinition,
-  PriceSource,
   ValidationResult,
-  getPrice,
 } from '../types/indicator';
+import { SOURCE_PARAMETER, getSourceValues, validateSource } from './source';
 import { calculateSMA } from './sma';
+import { createIndicatorState, nextSource, pushWindow } from './incremental';
 
 /**
  * Bollinger Bands
@@ -36,12 +37,7 @@ export class BollingerBandsIndicator implements IIndicator {
       step: 0.1,
       description: 'Mnożnik odchylenia standardowego',
     },
-    {
-      name: 'source',
-      type: 'string',
-      default: 'close',
-      description: 'Źródło danych',
-    },
+    SOURCE_PARAMETER,
   ];
 
   getRequiredPeriods(params: Record<string, number | string>): number {
@@ -60,17 +56,45 @@ export class BollingerBandsIndicator implements IIndicator {
       errors.push('Standard deviation multiplier must be positive');
     }
 
+    errors.push(...validateSource(params));
+
     return { valid: errors.length === 0, errors };
   }
 
   calculate(data: OHLCV[], params: Record<string, number | string>): IndicatorResult[] {
     const period = Number(params['period']) || 20;
     const stdDevMultiplier = Number(params['stdDev']) || 2;
-    const source = (params['source'] as PriceSource) || 'close';
-
-    const values = data.map((d) => getPrice(d, source));
+    const values = getSourceValues(data, params);
     return calculateBollingerBands(values, period, stdDevMultiplier);
   }
+
+  init(params: Record<string, number | string>): IndicatorState {
+    return createIndicatorState(params);
+  }
+
+  update(state: IndicatorState, candle: OHLCV): IndicatorResult {
+    const period = Number(state.params['period']) || 20;
+    const stdDevMultiplier = Number(state.params['stdDev']) || 2;
+    const { value } = nextSource(state, candle);
+
+    const window = pushWindow(state, 'values', value, period);
+    if (window.length < period) {
+      return { upper: null, middle: null, lower: null, bandwidth: null, percentB: null };
+    }
+
+    // Sumy od najnowszej wartości - jak w obliczeniach wsadowych
+    let sum = 0;
+    let sumSquares = 0;
+    for (let i = window.length - 1; i >= 0; i--) {
+      sum += window[i];
+      sumSquares += window[i] * window[i];
+    }
+
+    const middle = sum / period;
+    const stdDev = Math.sqrt(sumSquares / period - middle * middle);
+
+    return createBands(value, middle, stdDev, stdDevMultiplier);
+  }
 }
 
 /**
@@ -132,19 +156,31 @@ export function calculateBollingerBands(
       continue;
     }
 
-    const upper = middle + stdDevMultiplier * stdDev;
-    const lower = middle - stdDevMultiplier * stdDev;
-    const bandwidth = ((upper - lower) / middle) * 100;
-    const percentB = (values[i] - lower) / (upper - lower);
-
-    results.push({
-      upper,
-      middle,
-      lower,
-      bandwidth,
-      percentB,
-    });
+    results.push(createBands(values[i], middle, stdDev, stdDevMultiplier));
   }
 
   return results;
 }
+
+/**
+ * Wstęgi dla wartości, średniej i odchylenia standardowego
+ */
+function createBands(
+  value: number,
+  middle: number,
+  stdDev: number,
+  stdDevMultiplier: number
+): MultiLineIndicatorResult {
+  const upper = middle + stdDevMultiplier * stdDev;
+  const lower = middle - stdDevMultiplier * stdDev;
+  const bandwidth = ((upper - lower) / middle) * 100;
+  const percentB = (value - lower) / (upper - lower);
+
+  return {
+    upper,
+    middle,
+    lower,
+    bandwidth,
+    percentB,
+  };
+}
@@ -2,11 +2,12 @@ import { OHLCV } from '../types/ohlcv';
 import {
   IIndicator,
   IndicatorResult,
+  IndicatorState,
   ParameterDefinition,
-  PriceSource,
   ValidationResult,
-  getPrice,
 } from '../types/indicator';
+import { SOURCE_PARAMETER, getSourceValues, validateSource } from './source';
+import { createIndicatorState, nextSource, updateSmoothed } from './incremental';
 
 /**
  * Exponential Moving Average (EMA)
@@ -25,12 +26,7 @@ export class EMAIndicator implements IIndicator {
       max: 500,
       description: 'Okres średniej',
     },
-    {
-      name: 'source',
-      type: 'string',
-      default: 'close',
-      description: 'Źródło danych',
-    },
+    SOURCE_PARAMETER,
   ];
 
   getRequiredPeriods(params: Record<string, number | string>): number {
@@ -49,16 +45,25 @@ export class EMAIndicator implements IIndicator {
       errors.push('Period must not exceed 500');
     }
 
+    errors.push(...validateSource(params));
+
     return { valid: errors.length === 0, errors };
   }
 
   calculate(data: OHLCV[], params: Record<string, number | string>): IndicatorResult[] {
     const period = Number(params['period']) || 20;
-    const source = (params['source'] as PriceSource) || 'close';
-
-    const values = data.map((d) => getPrice(d, source));
+    const values = getSourceValues(data, params);
     return calculateEMA(values, period);
   }
+
+  init(params: Record<string, number | string>): IndicatorState {
+    return createIndicatorState(params);
+  }
+
+  update(state: IndicatorState, candle: OHLCV): IndicatorResult {
+    const period = Number(state.params['period']) || 20;
+    return updateSmoothed(state, 'ema', nextSource(state, candle).value, period, 'ema');
+  }
 }
 
 /**
@@ -0,0 +1,153 @@
+import { OHLCV } from '../types/ohlcv';
+import {
+  IIndicator,
+  IndicatorResult,
+  MultiLineIndicatorResult,
+  ParameterDefinition,
+  ValidationResult,
+} from '../types/indicator';
+import { SOURCE_PARAMETER, getSourceCloseCandles, validateSource } from './source';
+
+/**
+ * Ichimoku Kinko Hyo
+ * Linie na świecy t korzystają wyłącznie ze świec <= t:
+ * - senkouA / senkouB: chmura wyznaczona displacement świec wcześniej (przesunięcie w przód)
+ * - chikou: bieżące zamknięcie, rysowane displacement świec wstecz - punkt chikou dla świecy t
+ *   nie jest jeszcze znany, porównania z wartościami sprzed displacement świec (np. close[26])
+ */
+export class IchimokuIndicator implements IIndicator {
+  readonly name = 'ICHIMOKU';
+  readonly description = 'Ichimoku Kinko Hyo - chmura Ichimoku (trend, wsparcie i opór)';
+
+  readonly parameters: ParameterDefinition[] = [
+    {
+      name: 'tenkanPeriod',
+      type: 'number',
+      default: 9,
+      min: 1,
+      max: 100,
+      description: 'Okres linii konwersji (Tenkan-sen)',
+    },
+    {
+      name: 'kijunPeriod',
+      type: 'number',
+      default: 26,
+      min: 1,
+      max: 200,
+      description: 'Okres linii bazowej (Kijun-sen)',
+    },
+    {
+      name: 'senkouBPeriod',
+      type: 'number',
+      default: 52,
+      min: 1,
+      max: 300,
+      description: 'Okres Senkou Span B',
+    },
+    {
+      name: 'displacement',
+      type: 'number',
+      default: 26,
+      min: 1,
+      max: 200,
+      description: 'Przesunięcie chmury i linii chikou (liczba świec)',
+    },
+    SOURCE_PARAMETER,
+  ];
+
+  getRequiredPeriods(params: Record<string, number | string>): number {
+    const kijunPeriod = Number(params['kijunPeriod']) || 26;
+    const senkouBPeriod = Number(params['senkouBPeriod']) || 52;
+    const displacement = Number(params['displacement']) || 26;
+    return Math.max(kijunPeriod, senkouBPeriod) + displacement;
+  }
+
+  validate(params: Record<string, number | string>): ValidationResult {
+    const errors: string[] = [];
+    const periods: [string, number][] = [
+      ['Tenkan period', Number(params['tenkanPeriod'] ?? 9)],
+      ['Kijun period', Number(params['kijunPeriod'] ?? 26)],
+      ['Senkou B period', Number(params['senkouBPeriod'] ?? 52)],
+      ['Displacement', Number(params['displacement'] ?? 26)],
+    ];
+
+    for (const [name, value] of periods) {
+      if (!Number.isInteger(value) || value < 1) {
+        errors.push(`${name} must be an integer of at least 1`);
+      }
+    }
+
+    errors.push(...validateSource(params));
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  calculate(data: OHLCV[], params: Record<string, number | string>): IndicatorResult[] {
+    const tenkanPeriod = Number(params['tenkanPeriod']) || 9;
+    const kijunPeriod = Number(params['kijunPeriod']) || 26;
+    const senkouBPeriod = Number(params['senkouBPeriod']) || 52;
+    const displacement = Number(params['displacement']) || 26;
+
+    return calculateIchimoku(
+      getSourceCloseCandles(data, params),
+      tenkanPeriod,
+      kijunPeriod,
+      senkouBPeriod,
+      displacement
+    );
+  }
+}
+
+/**
+ * Środek zakresu (najwyższe high + najniższe low) / 2 z okresu
+ */
+function calculateMidpoints(data: OHLCV[], period: number): (number | null)[] {
+  const results: (number | null)[] = [];
+
+  for (let i = 0; i < data.length; i++) {
+    if (i < period - 1) {
+      results.push(null);
+      continue;
+    }
+
+    let highestHigh = -Infinity;
+    let lowestLow = Infinity;
+    for (let j = i - period + 1; j <= i; j++) {
+      highestHigh = Math.max(highestHigh, data[j].high);
+      lowestLow = Math.min(lowestLow, data[j].low);
+    }
+    results.push((highestHigh + lowestLow) / 2);
+  }
+
+  return results;
+}
+
+/**
+ * Oblicz Ichimoku bez patrzenia w przyszłość
+ */
+export function calculateIchimoku(
+  data: OHLCV[],
+  tenkanPeriod: number,
+  kijunPeriod: number,
+  senkouBPeriod: number,
+  displacement: number
+): MultiLineIndicatorResult[] {
+  const tenkan = calculateMidpoints(data, tenkanPeriod);
+  const kijun = calculateMidpoints(data, kijunPeriod);
+  const senkouB = calculateMidpoints(data, senkouBPeriod);
+
+  return data.map((candle, i) => {
+    // Chmura dla świecy t wyznaczona na świecy t - displacement
+    const past = i - displacement;
+    const pastTenkan = past >= 0 ? tenkan[past] : null;
+    const pastKijun = past >= 0 ? kijun[past] : null;
+
+    return {
+      tenkan: tenkan[i],
+      kijun: kijun[i],
+      senkouA: pastTenkan !== null && pastKijun !== null ? (pastTenkan + pastKijun) / 2 : null,
+      senkouB: past >= 0 ? senkouB[past] : null,
+      chikou: candle.close,
+    };
+  });
+}
@@ -0,0 +1,109 @@
+import { OHLCV } from '../types/ohlcv';
+import { IndicatorState } from '../types/indicator';
+import { getNextSourceCandle, getSourcePrice } from './source';
+
+/**
+ * Kolejna świeca przetworzona przez stan wskaźnika
+ */
+export interface SourceStep {
+  candle: OHLCV; // Świeca wybranego typu (zwykła lub Heikin-Ashi)
+  previous: OHLCV | null; // Poprzednia świeca wybranego typu
+  value: number; // Wartość źródła
+}
+
+/**
+ * Utwórz pusty stan obliczeń inkrementalnych
+ */
+export function createIndicatorState(params: Record<string, number | string>): IndicatorState {
+  return { params, count: 0, previous: null, values: {}, windows: {} };
+}
+
+/**
+ * Kopia stanu (okna i wartości pośrednie nie są współdzielone)
+ */
+export function cloneIndicatorState(state: IndicatorState): IndicatorState {
+  const windows: Record<string, number[]> = {};
+  for (const [key, window] of Object.entries(state.windows)) {
+    windows[key] = [...window];
+  }
+  return { ...state, values: { ...state.values }, windows };
+}
+
+/**
+ * Przelicz świecę na typ źródła i przesuń stan o jedną świecę
+ */
+export function nextSource(state: IndicatorState, candle: OHLCV): SourceStep {
+  const previous = state.previous;
+  const sourceCandle = getNextSourceCandle(candle, previous, state.params);
+
+  state.previous = sourceCandle;
+  state.count++;
+
+  return { candle: sourceCandle, previous, value: getSourcePrice(sourceCandle, state.params) };
+}
+
+/**
+ * Dodaj wartość do okna ostatnich wartości o podanej długości
+ */
+export function pushWindow(
+  state: IndicatorState,
+  key: string,
+  value: number,
+  size: number
+): number[] {
+  const window = state.windows[key] ?? (state.windows[key] = []);
+  window.push(value);
+  if (window.length > size) {
+    window.shift();
+  }
+  return window;
+}
+
+/**
+ * Prosta średnia z okna ostatnich wartości (null do zapełnienia okna)
+ */
+export function updateSMA(
+  state: IndicatorState,
+  key: string,
+  value: number,
+  period: number
+): number | null {
+  const window = pushWindow(state, key, value, period);
+  if (window.length < period) {
+    return null;
+  }
+  return window.reduce((sum, v) => sum + v, 0) / period;
+}
+
+/**
+ * Średnia wykładnicza (EMA) lub wygładzona Wildera (SMMA)
+ * Pierwsza wartość to SMA z pierwszych period wartości - jak w obliczeniach wsadowych
+ */
+export function updateSmoothed(
+  state: IndicatorState,
+  key: string,
+  value: number,
+  period: number,
+  type: 'ema' | 'smma'
+): number | null {
+  const count = (state.values[`${key}.count`] ?? 0) + 1;
+  state.values[`${key}.count`] = count;
+
+  if (count <= period) {
+    const sum = (state.values[`${key}.sum`] ?? 0) + value;
+    state.values[`${key}.sum`] = sum;
+    if (count < period) {
+      return null;
+    }
+    state.values[key] = sum / period;
+    return sum / period;
+  }
+
+  const previous = state.values[key] as number;
+  const next =
+    type === 'ema'
+      ? (value - previous) * (2 / (period + 1)) + previous
+      : (previous * (period - 1) + value) / period;
+  state.values[key] = next;
+  return next;
+}
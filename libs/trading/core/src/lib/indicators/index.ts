@@ -11,6 +11,15 @@ export * from './adx';
 export * from './stochastic';
 export * from './volume-sma';
 export * from './obv';
+export * from './vwap';
+export * from './anchored-vwap';
+export * from './ichimoku';
+
+// Źródło danych wskaźników (cena, Heikin-Ashi)
+export * from './source';
+
+// Obliczenia inkrementalne (live trading)
+export * from './incremental';
 
 // Rejestr wskaźników
 export * from './registry';
@@ -7,6 +7,11 @@ import { calculateATR } from './atr';
 import { calculateStochastic } from './stochastic';
 import { calculateVolumeSMA } from './volume-sma';
 import { calculateOBV } from './obv';
+import { calculateHeikinAshi } from './source';
+import { VWAPIndicator } from './vwap';
+import { AnchoredVWAPIndicator } from './anchored-vwap';
+import { calculateIchimoku } from './ichimoku';
+import { IndicatorResult, isIncrementalIndicator } from '../types/indicator';
 
 // Pomocnicza funkcja do generowania testowych danych OHLCV
 function generateTestData(count: number, startPrice = 100): OHLCV[] {
@@ -81,6 +86,9 @@ describe('IndicatorRegistry', () => {
     expect(names).toContain('STOCHASTIC');
     expect(names).toContain('VOLUME_SMA');
     expect(names).toContain('OBV');
+    expect(names).toContain('VWAP');
+    expect(names).toContain('AVWAP');
+    expect(names).toContain('ICHIMOKU');
   });
 
   it('should get indicator by name (case insensitive)', () => {
@@ -227,6 +235,252 @@ describe('OBV Indicator', () => {
   });
 });
 
+describe('Indicator source', () => {
+  const registry = IndicatorRegistry.getInstance();
+  const calculate = (
+    name: string,
+    data: OHLCV[],
+    params: Record<string, number | string>
+  ) => registry.get(name)?.calculate(data, params);
+
+  it('should calculate Heikin-Ashi candles', () => {
+    const data = createPredictableData();
+    const ha = calculateHeikinAshi(data);
+
+    expect(ha[0].open).toBeCloseTo(101, 5); // (100+102)/2
+    expect(ha[0].close).toBeCloseTo(100.5, 5); // (100+105+95+102)/4
+    expect(ha[1].open).toBeCloseTo(100.75, 5); // (101+100.5)/2
+    expect(ha[1].close).toBeCloseTo(104, 5); // (102+108+100+106)/4
+    expect(ha[1].high).toBe(108);
+    expect(ha[1].low).toBe(100);
+    expect(ha[1].volume).toBe(data[1].volume);
+  });
+
+  it('should expose and validate the source parameter on every indicator', () => {
+    // Wskaźniki z całych świec - źródło wybiera tylko typ świec
+    const candleIndicators = ['ATR', 'ADX', 'PIVOT', 'VOLUME_SMA'];
+
+    for (const indicator of registry.getAll()) {
+      const source = indicator.parameters.find(
+        (param) => param.name === 'source'
+      );
+      const defaults = Object.fromEntries(
+        indicator.parameters.map((param) => [param.name, param.default])
+      );
+      const isCandleIndicator = candleIndicators.includes(indicator.name);
+
+      expect(source?.options).toContain('ha_close');
+      expect(source?.options?.includes('hl2')).toBe(!isCandleIndicator);
+      expect(indicator.validate({ ...defaults, source: 'hl2' }).valid).toBe(
+        !isCandleIndicator
+      );
+      expect(
+        indicator.validate({ ...defaults, source: 'typical' }).errors
+      ).toContainEqual(expect.stringContaining('Invalid source'));
+    }
+  });
+
+  it('should calculate price series indicators on the selected source', () => {
+    const data = createPredictableData();
+    const hl2 = data.map((candle) => (candle.high + candle.low) / 2);
+    const haClose = calculateHeikinAshi(data).map((candle) => candle.close);
+
+    expect(calculate('SMA', data, { period: 3, source: 'hl2' })).toEqual(
+      calculateSMA(hl2, 3)
+    );
+    expect(calculate('EMA', data, { period: 3, source: 'ha_close' })).toEqual(
+      calculateEMA(haClose, 3)
+    );
+  });
+
+  it('should calculate candle indicators on Heikin-Ashi candles', () => {
+    const data = createPredictableData();
+    const ha = calculateHeikinAshi(data);
+
+    expect(calculate('ATR', data, { period: 5, source: 'ha_close' })).toEqual(
+      calculateATR(ha, 5)
+    );
+    expect(calculate('OBV', data, { source: 'ha_close' })).toEqual(
+      calculateOBV(ha)
+    );
+  });
+});
+
+describe('VWAP Indicator', () => {
+  const HOUR = 3600000;
+  const DAY = 24 * HOUR;
+  // Świeca z jedną ceną - hlc3 równe cenie
+  const candle = (timestamp: number, price: number, volume: number): OHLCV => ({
+    timestamp,
+    open: price,
+    high: price,
+    low: price,
+    close: price,
+    volume,
+  });
+  const vwapLine = (result: unknown) => (result as Record<string, number | null>)['vwap'];
+
+  it('should reset the session at the configured UTC hour', () => {
+    const start = 10 * DAY;
+    const data = [
+      candle(start, 10, 1),
+      candle(start + HOUR, 20, 3),
+      candle(start + 2 * HOUR, 30, 1),
+      candle(start + 3 * HOUR, 40, 1),
+    ];
+    const vwap = new VWAPIndicator();
+
+    const daily = vwap.calculate(data, { session: 'day', anchorHour: 0 }).map(vwapLine);
+    expect(daily[1]).toBeCloseTo(17.5, 8); // (10*1 + 20*3) / 4
+    expect(daily[3]).toBeCloseTo(140 / 6, 8); // (10 + 60 + 30 + 40) / 6
+
+    // Sesja od 02:00 UTC - trzecia świeca zaczyna nową sesję
+    const anchored = vwap.calculate(data, { session: 'day', anchorHour: 2 }).map(vwapLine);
+    expect(anchored[2]).toBe(30);
+    expect(anchored[3]).toBeCloseTo(35, 8);
+  });
+
+  it('should calculate standard deviation bands', () => {
+    const data = [candle(0, 10, 1), candle(HOUR, 20, 1)];
+    const result = new VWAPIndicator().calculate(data, { stdDev: 2 });
+
+    expect(result[1]).toEqual({ vwap: 15, upper: 25, lower: 5, deviation: 5 });
+  });
+
+  it('should use 1m candles when available', () => {
+    const data = [candle(0, 15, 4), candle(HOUR, 25, 4)];
+    const intrabar = [candle(0, 10, 3), candle(60000, 30, 1), candle(HOUR, 25, 4)];
+    const vwap = new VWAPIndicator();
+
+    const primary = vwap.calculate(data, {}).map(vwapLine);
+    const minute = vwap.calculate(data, {}, { timeframe: '1h', intrabar }).map(vwapLine);
+
+    expect(primary).toEqual([15, 20]);
+    expect(minute[0]).toBe(15); // (10*3 + 30*1) / 4
+    expect(minute[1]).toBe(20);
+
+    // Świece 1m z innymi cenami zmieniają wynik
+    intrabar[1] = candle(60000, 50, 1);
+    expect(vwapLine(vwap.calculate(data, {}, { timeframe: '1h', intrabar })[0])).toBe(20);
+  });
+
+  it('should anchor at a timestamp', () => {
+    const data = [candle(0, 10, 1), candle(HOUR, 20, 1), candle(2 * HOUR, 30, 1)];
+    const avwap = new AnchoredVWAPIndicator();
+    const result = avwap
+      .calculate(data, { anchor: 'time', anchorTime: new Date(HOUR).toISOString() })
+      .map(vwapLine);
+    const fromEpoch = avwap.calculate(data, { anchor: 'time', anchorTime: String(HOUR) });
+    const anchorTime = avwap.parameters.find((param) => param.name === 'anchorTime');
+
+    expect(result).toEqual([null, 20, 25]);
+    expect(fromEpoch.map(vwapLine)).toEqual(result);
+    expect(anchorTime?.type).toBe('string');
+  });
+
+  it('should anchor at the last confirmed pivot without lookahead', () => {
+    const prices = [20, 15, 10, 15, 20, 25, 30];
+    const data = prices.map((price, i) => candle(i * HOUR, price, 1));
+    const result = new AnchoredVWAPIndicator()
+      .calculate(data, { anchor: 'pivot_low', pivotBars: 2 })
+      .map(vwapLine);
+
+    // Dołek na świecy 2 potwierdzony dopiero na świecy 4
+    expect(result.slice(0, 4)).toEqual([null, null, null, null]);
+    expect(result[4]).toBe(15); // (10 + 15 + 20) / 3
+    expect(result[6]).toBe(20); // (10 + 15 + 20 + 25 + 30) / 5
+  });
+});
+
+describe('Ichimoku Indicator', () => {
+  it('should calculate lines and shift the cloud forward', () => {
+    const data = createPredictableData();
+    const result = calculateIchimoku(data, 2, 3, 4, 2);
+
+    expect(result[1]['tenkan']).toBe((108 + 95) / 2);
+    expect(result[2]['kijun']).toBe((110 + 95) / 2);
+    expect(result[3]['senkouA']).toBeNull();
+
+    // Chmura na świecy 5 wyznaczona na świecy 3
+    const third = result[3] as Record<string, number>;
+    expect(result[5]['senkouA']).toBe((third['tenkan'] + third['kijun']) / 2);
+    expect(result[5]['senkouB']).toBe((112 + 95) / 2);
+    expect(result[5]['chikou']).toBe(data[5].close);
+  });
+
+  it('should not use future candles', () => {
+    const registry = IndicatorRegistry.getInstance();
+    const ichimoku = registry.get('ICHIMOKU');
+    const data = generateTestData(120);
+    const full = ichimoku?.calculate(data, {}) ?? [];
+
+    for (const i of [30, 60, 77, 119]) {
+      const partial = ichimoku?.calculate(data.slice(0, i + 1), {}) ?? [];
+      expect(partial[i]).toEqual(full[i]);
+    }
+
+    // Senkou B (52) przesunięte o 26 świec
+    const senkouB = (i: number) => (full[i] as Record<string, number | null>)['senkouB'];
+    expect(senkouB(76)).toBeNull();
+    expect(senkouB(77)).toEqual(expect.any(Number));
+  });
+});
+
+describe('Incremental calculation', () => {
+  const registry = IndicatorRegistry.getInstance();
+  const data = generateTestData(200);
+
+  // Porównaj wynik inkrementalny z wsadowym (wartości i linie wieloliniowych)
+  function expectSameResult(actual: IndicatorResult, expected: IndicatorResult): void {
+    if (expected === null || typeof expected === 'number') {
+      if (expected === null) {
+        expect(actual).toBeNull();
+      } else {
+        expect(actual).toBeCloseTo(expected, 8);
+      }
+      return;
+    }
+
+    const lines = actual as Record<string, number | null>;
+    expect(Object.keys(lines).sort()).toEqual(Object.keys(expected).sort());
+    for (const [line, value] of Object.entries(expected)) {
+      expectSameResult(lines[line], value);
+    }
+  }
+
+  const cases: [string, Record<string, number | string>][] = [
+    ['SMA', { period: 20 }],
+    ['EMA', { period: 12, source: 'hlc3' }],
+    ['SMMA', { period: 33 }],
+    ['RSI', { period: 14 }],
+    ['RSI', { period: 7, source: 'ha_close' }],
+    ['ATR', { period: 14 }],
+    ['MACD', { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 }],
+    ['BOLLINGER', { period: 20, stdDev: 2 }],
+    ['ADX', { period: 14 }],
+    ['ADX', { period: 5, source: 'ha_close' }],
+    ['STOCHASTIC', { kPeriod: 14, dPeriod: 3, smooth: 3 }],
+    ['OBV', { signalPeriod: 0 }],
+    ['OBV', { signalPeriod: 10, source: 'ha_close' }],
+    ['VOLUME_SMA', { period: 20 }],
+    ['VWAP', { session: 'day', anchorHour: 2, stdDev: 2 }],
+  ];
+
+  it.each(cases)('should match batch calculation for %s %j', (name, params) => {
+    const indicator = registry.get(name);
+    if (!indicator || !isIncrementalIndicator(indicator)) {
+      throw new Error(`${name} does not support incremental calculation`);
+    }
+
+    const expected = indicator.calculate(data, params);
+    const state = indicator.init(params);
+    const actual = data.map((candle) => indicator.update(state, candle));
+
+    expect(actual.length).toBe(expected.length);
+    actual.forEach((value, i) => expectSameResult(value, expected[i]));
+  });
+});
+
 describe('Indicator Integration', () => {
   it('should work with registry', () => {
     const registry = IndicatorRegistry.getInstance();
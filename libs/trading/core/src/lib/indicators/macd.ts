@@ -2,12 +2,13 @@ import { OHLCV } from '../types/ohlcv';
 import {
   IIndicator,
   IndicatorResult,
+  IndicatorState,
   MultiLineIndicatorResult,
   ParameterDefinition,
-  PriceSource,
   ValidationResult,
-  getPrice,
 } from '../types/indicator';
+import { SOURCE_PARAMETER, getSourceValues, validateSource } from './source';
+import { createIndicatorState, nextSource, updateSmoothed } from './incremental';
 import { calculateEMA } from './ema';
 
 /**
@@ -42,12 +43,7 @@ export class MACDIndicator implements IIndicator {
       max: 50,
       description: 'Okres linii sygnału',
     },
-    {
-      name: 'source',
-      type: 'string',
-      default: 'close',
-      description: 'Źródło danych',
-    },
+    SOURCE_PARAMETER,
   ];
 
   getRequiredPeriods(params: Record<string, number | string>): number {
@@ -75,6 +71,8 @@ export class MACDIndicator implements IIndicator {
       errors.push('Signal period must be at least 1');
     }
 
+    errors.push(...validateSource(params));
+
     return { valid: errors.length === 0, errors };
   }
 
@@ -82,11 +80,31 @@ export class MACDIndicator implements IIndicator {
     const fastPeriod = Number(params['fastPeriod']) || 12;
     const slowPeriod = Number(params['slowPeriod']) || 26;
     const signalPeriod = Number(params['signalPeriod']) || 9;
-    const source = (params['source'] as PriceSource) || 'close';
-
-    const values = data.map((d) => getPrice(d, source));
+    const values = getSourceValues(data, params);
     return calculateMACD(values, fastPeriod, slowPeriod, signalPeriod);
   }
+
+  init(params: Record<string, number | string>): IndicatorState {
+    return createIndicatorState(params);
+  }
+
+  update(state: IndicatorState, candle: OHLCV): IndicatorResult {
+    const fastPeriod = Number(state.params['fastPeriod']) || 12;
+    const slowPeriod = Number(state.params['slowPeriod']) || 26;
+    const signalPeriod = Number(state.params['signalPeriod']) || 9;
+    const { value } = nextSource(state, candle);
+
+    const fast = updateSmoothed(state, 'fast', value, fastPeriod, 'ema');
+    const slow = updateSmoothed(state, 'slow', value, slowPeriod, 'ema');
+    const macd = fast !== null && slow !== null ? fast - slow : null;
+
+    // Linia sygnału liczona tylko z dostępnych wartości MACD
+    const signal =
+      macd !== null ? updateSmoothed(state, 'signal', macd, signalPeriod, 'ema') : null;
+    const histogram = macd !== null && signal !== null ? macd - signal : null;
+
+    return { macd, signal, histogram };
+  }
 }
 
 /**
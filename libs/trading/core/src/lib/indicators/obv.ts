@@ -2,9 +2,17 @@ import { OHLCV } from '../types/ohlcv';
 import {
   IIndicator,
   IndicatorResult,
+  IndicatorState,
   ParameterDefinition,
   ValidationResult,
 } from '../types/indicator';
+import {
+  SOURCE_PARAMETER,
+  getSourceCloseCandles,
+  getSourcePrice,
+  validateSource,
+} from './source';
+import { createIndicatorState, nextSource, updateSMA } from './incremental';
 
 /**
  * On Balance Volume (OBV)
@@ -25,6 +33,7 @@ export class OBVIndicator implements IIndicator {
       max: 100,
       description: 'Okres linii sygnałowej (0 = brak)',
     },
+    SOURCE_PARAMETER,
   ];
 
   getRequiredPeriods(params: Record<string, number | string>): number {
@@ -43,6 +52,8 @@ export class OBVIndicator implements IIndicator {
       errors.push('Signal period must not exceed 100');
     }
 
+    errors.push(...validateSource(params));
+
     return { valid: errors.length === 0, errors };
   }
 
@@ -51,7 +62,29 @@ export class OBVIndicator implements IIndicator {
     params: Record<string, number | string>
   ): IndicatorResult[] {
     const signalPeriod = Number(params['signalPeriod']) || 0;
-    return calculateOBV(data, signalPeriod);
+    return calculateOBV(getSourceCloseCandles(data, params), signalPeriod);
+  }
+
+  init(params: Record<string, number | string>): IndicatorState {
+    return createIndicatorState(params);
+  }
+
+  update(state: IndicatorState, candle: OHLCV): IndicatorResult {
+    const signalPeriod = Number(state.params['signalPeriod']) || 0;
+    const { candle: current, previous, value } = nextSource(state, candle);
+
+    let obv = current.volume;
+    if (previous) {
+      const prevClose = getSourcePrice(previous, state.params);
+      const prevOBV = state.values['obv'] as number;
+      obv = value > prevClose ? prevOBV + obv : value < prevClose ? prevOBV - obv : prevOBV;
+    }
+    state.values['obv'] = obv;
+
+    if (signalPeriod === 0) {
+      return obv;
+    }
+    return { obv, signal: updateSMA(state, 'signal', obv, signalPeriod) };
   }
 }
 
@@ -6,6 +6,12 @@ import {
   ParameterDefinition,
   ValidationResult,
 } from '../types/indicator';
+import {
+  CANDLE_SOURCES,
+  CANDLE_SOURCE_PARAMETER,
+  getSourceCandles,
+  validateSource,
+} from './source';
 
 /**
  * Metoda obliczania Pivot Points
@@ -27,6 +33,7 @@ export class PivotPointsIndicator implements IIndicator {
       default: 'traditional',
       description: 'Metoda obliczania (traditional, fibonacci, camarilla, woodie, demark)',
     },
+    CANDLE_SOURCE_PARAMETER,
   ];
 
   getRequiredPeriods(): number {
@@ -42,12 +49,14 @@ export class PivotPointsIndicator implements IIndicator {
       errors.push(`Invalid method. Valid options: ${validMethods.join(', ')}`);
     }
 
+    errors.push(...validateSource(params, CANDLE_SOURCES));
+
     return { valid: errors.length === 0, errors };
   }
 
   calculate(data: OHLCV[], params: Record<string, number | string>): IndicatorResult[] {
     const method = (params['method'] as PivotMethod) || 'traditional';
-    return calculatePivotPoints(data, method);
+    return calculatePivotPoints(getSourceCandles(data, params), method);
   }
 }
 
@@ -11,6 +11,9 @@ import { ADXIndicator } from './adx';
 import { StochasticIndicator } from './stochastic';
 import { VolumeSMAIndicator } from './volume-sma';
 import { OBVIndicator } from './obv';
+import { VWAPIndicator } from './vwap';
+import { AnchoredVWAPIndicator } from './anchored-vwap';
+import { IchimokuIndicator } from './ichimoku';
 
 /**
  * Rejestr wskaźników technicznych
@@ -51,6 +54,9 @@ export class IndicatorRegistry {
     this.register(new StochasticIndicator());
     this.register(new VolumeSMAIndicator());
     this.register(new OBVIndicator());
+    this.register(new VWAPIndicator());
+    this.register(new AnchoredVWAPIndicator());
+    this.register(new IchimokuIndicator());
   }
 
   /**
@@ -2,11 +2,17 @@ import { OHLCV } from '../types/ohlcv';
 import {
   IIndicator,
   IndicatorResult,
+  IndicatorState,
   ParameterDefinition,
-  PriceSource,
   ValidationResult,
-  getPrice,
 } from '../types/indicator';
+import {
+  SOURCE_PARAMETER,
+  getSourcePrice,
+  getSourceValues,
+  validateSource,
+} from './source';
+import { createIndicatorState, nextSource, updateSmoothed } from './incremental';
 
 /**
  * Relative Strength Index (RSI)
@@ -25,12 +31,7 @@ export class RSIIndicator implements IIndicator {
       max: 100,
       description: 'Okres RSI',
     },
-    {
-      name: 'source',
-      type: 'string',
-      default: 'close',
-      description: 'Źródło danych',
-    },
+    SOURCE_PARAMETER,
   ];
 
   getRequiredPeriods(params: Record<string, number | string>): number {
@@ -48,16 +49,38 @@ export class RSIIndicator implements IIndicator {
       errors.push('Period must not exceed 100');
     }
 
+    errors.push(...validateSource(params));
+
     return { valid: errors.length === 0, errors };
   }
 
   calculate(data: OHLCV[], params: Record<string, number | string>): IndicatorResult[] {
     const period = Number(params['period']) || 14;
-    const source = (params['source'] as PriceSource) || 'close';
-
-    const values = data.map((d) => getPrice(d, source));
+    const values = getSourceValues(data, params);
     return calculateRSI(values, period);
   }
+
+  init(params: Record<string, number | string>): IndicatorState {
+    return createIndicatorState(params);
+  }
+
+  update(state: IndicatorState, candle: OHLCV): IndicatorResult {
+    const period = Number(state.params['period']) || 14;
+    const { previous, value } = nextSource(state, candle);
+    if (!previous) {
+      return null;
+    }
+
+    // Średnie zysków i strat wygładzane metodą Wildera
+    const change = value - getSourcePrice(previous, state.params);
+    const avgGain = updateSmoothed(state, 'gain', change > 0 ? change : 0, period, 'smma');
+    const avgLoss = updateSmoothed(state, 'loss', change > 0 ? 0 : -change, period, 'smma');
+
+    if (avgGain === null || avgLoss === null) {
+      return null;
+    }
+    return avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss);
+  }
 }
 
 /**
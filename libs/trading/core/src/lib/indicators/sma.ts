@@ -2,11 +2,12 @@ import { OHLCV } from '../types/ohlcv';
 import {
   IIndicator,
   IndicatorResult,
+  IndicatorState,
   ParameterDefinition,
-  PriceSource,
   ValidationResult,
-  getPrice,
 } from '../types/indicator';
+import { SOURCE_PARAMETER, getSourceValues, validateSource } from './source';
+import { createIndicatorState, nextSource, updateSMA } from './incremental';
 
 /**
  * Simple Moving Average (SMA)
@@ -25,12 +26,7 @@ export class SMAIndicator implements IIndicator {
       max: 500,
       description: 'Okres średniej',
     },
-    {
-      name: 'source',
-      type: 'string',
-      default: 'close',
-      description: 'Źródło danych (open, high, low, close, hl2, hlc3, ohlc4)',
-    },
+    SOURCE_PARAMETER,
   ];
 
   getRequiredPeriods(params: Record<string, number | string>): number {
@@ -48,28 +44,23 @@ export class SMAIndicator implements IIndicator {
       errors.push('Period must not exceed 500');
     }
 
+    errors.push(...validateSource(params));
+
     return { valid: errors.length === 0, errors };
   }
 
   calculate(data: OHLCV[], params: Record<string, number | string>): IndicatorResult[] {
     const period = Number(params['period']) || 20;
-    const source = (params['source'] as PriceSource) || 'close';
-    const results: IndicatorResult[] = [];
-
-    for (let i = 0; i < data.length; i++) {
-      if (i < period - 1) {
-        results.push(null);
-        continue;
-      }
+    return calculateSMA(getSourceValues(data, params), period);
+  }
 
-      let sum = 0;
-      for (let j = 0; j < period; j++) {
-        sum += getPrice(data[i - j], source);
-      }
-      results.push(sum / period);
-    }
+  init(params: Record<string, number | string>): IndicatorState {
+    return createIndicatorState(params);
+  }
 
-    return results;
+  update(state: IndicatorState, candle: OHLCV): IndicatorResult {
+    const period = Number(state.params['period']) || 20;
+    return updateSMA(state, 'sma', nextSource(state, candle).value, period);
   }
 }
 
@@ -0,0 +1,160 @@
+import { OHLCV } from '../types/ohlcv';
+import {
+  IndicatorDataSource,
+  ParameterDefinition,
+  PriceSource,
+  getPrice,
+} from '../types/indicator';
+
+/**
+ * Ceny świecy dostępne jako źródło wskaźnika
+ */
+const PRICE_SOURCES: PriceSource[] = [
+  'open',
+  'high',
+  'low',
+  'close',
+  'volume',
+  'hl2',
+  'hlc3',
+  'ohlc4',
+];
+
+/**
+ * Wszystkie dozwolone wartości parametru 'source'
+ */
+export const INDICATOR_SOURCES: IndicatorDataSource[] = [
+  ...PRICE_SOURCES,
+  ...PRICE_SOURCES.map((source) => `ha_${source}` as IndicatorDataSource),
+];
+
+/**
+ * Typy świec dla wskaźników liczonych z całych świec (ATR, ADX, PIVOT, Volume SMA)
+ */
+export const CANDLE_SOURCES: IndicatorDataSource[] = ['close', 'ha_close'];
+
+/**
+ * Wspólna definicja parametru 'source' - dostępna w każdym wskaźniku
+ * Prefiks 'ha_' wybiera świece Heikin-Ashi, cena to wartość wskaźników z jednej serii
+ * (SMA, EMA, RSI...) i cena zamknięcia dla OBV i Stochastic
+ */
+export const SOURCE_PARAMETER: ParameterDefinition = {
+  name: 'source',
+  type: 'string',
+  default: 'close',
+  options: INDICATOR_SOURCES,
+  description: 'Źródło danych (cena świecy lub świecy Heikin-Ashi, np. hl2, ha_close)',
+};
+
+/**
+ * Parametr 'source' wskaźników liczonych z całych świec - wybiera tylko typ świec
+ * (cena źródła nie zmieniałaby obliczeń)
+ */
+export const CANDLE_SOURCE_PARAMETER: ParameterDefinition = {
+  ...SOURCE_PARAMETER,
+  options: CANDLE_SOURCES,
+  description: 'Typ świec (close - zwykłe, ha_close - Heikin-Ashi)',
+};
+
+/**
+ * Waliduj parametr 'source'
+ * @param sources - dozwolone wartości (CANDLE_SOURCES dla wskaźników z całych świec)
+ */
+export function validateSource(
+  params: Record<string, number | string>,
+  sources = INDICATOR_SOURCES
+): string[] {
+  const source = params['source'];
+  if (source === undefined || sources.includes(source as IndicatorDataSource)) {
+    return [];
+  }
+  return [`Invalid source. Valid options: ${sources.join(', ')}`];
+}
+
+/**
+ * Świece wybranego typu (zwykłe lub Heikin-Ashi)
+ */
+export function getSourceCandles(
+  data: OHLCV[],
+  params: Record<string, number | string>
+): OHLCV[] {
+  return getSource(params).startsWith('ha_') ? calculateHeikinAshi(data) : data;
+}
+
+/**
+ * Wartości źródła dla każdej świecy
+ */
+export function getSourceValues(
+  data: OHLCV[],
+  params: Record<string, number | string>
+): number[] {
+  return getSourceCandles(data, params).map((candle) => getSourcePrice(candle, params));
+}
+
+/**
+ * Wartość źródła dla świecy wybranego typu
+ */
+export function getSourcePrice(candle: OHLCV, params: Record<string, number | string>): number {
+  return getPrice(candle, getSource(params).replace(/^ha_/, '') as PriceSource);
+}
+
+/**
+ * Kolejna świeca wybranego typu (obliczenia inkrementalne)
+ * Dla Heikin-Ashi previous to poprzednia świeca Heikin-Ashi
+ */
+export function getNextSourceCandle(
+  candle: OHLCV,
+  previous: OHLCV | null,
+  params: Record<string, number | string>
+): OHLCV {
+  return getSource(params).startsWith('ha_') ? getHeikinAshiCandle(candle, previous) : candle;
+}
+
+/**
+ * Świece wybranego typu z ceną zamknięcia zastąpioną wartością źródła (OBV, Stochastic)
+ */
+export function getSourceCloseCandles(
+  data: OHLCV[],
+  params: Record<string, number | string>
+): OHLCV[] {
+  const values = getSourceValues(data, params);
+  return getSourceCandles(data, params).map((candle, i) => ({ ...candle, close: values[i] }));
+}
+
+/**
+ * Oblicz świece Heikin-Ashi (wolumen i czas bez zmian)
+ */
+export function calculateHeikinAshi(data: OHLCV[]): OHLCV[] {
+  const results: OHLCV[] = [];
+
+  for (let i = 0; i < data.length; i++) {
+    results.push(getHeikinAshiCandle(data[i], i > 0 ? results[i - 1] : null));
+  }
+
+  return results;
+}
+
+/**
+ * Świeca Heikin-Ashi na podstawie poprzedniej świecy Heikin-Ashi
+ */
+function getHeikinAshiCandle(candle: OHLCV, previous: OHLCV | null): OHLCV {
+  const close = (candle.open + candle.high + candle.low + candle.close) / 4;
+  const open = previous
+    ? (previous.open + previous.close) / 2
+    : (candle.open + candle.close) / 2;
+
+  return {
+    ...candle,
+    open,
+    high: Math.max(candle.high, open, close),
+    low: Math.min(candle.low, open, close),
+    close,
+  };
+}
+
+/**
+ * Wartość parametru 'source' (domyślnie 'close')
+ */
+function getSource(params: Record<string, number | string>): IndicatorDataSource {
+  return (params['source'] as IndicatorDataSource) || 'close';
+}
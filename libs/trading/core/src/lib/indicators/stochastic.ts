@@ -2,10 +2,13 @@ import { OHLCV } from '../types/ohlcv';
 import {
   IIndicator,
   IndicatorResult,
+  IndicatorState,
   ParameterDefinition,
   ValidationResult,
   MultiLineIndicatorResult,
 } from '../types/indicator';
+import { SOURCE_PARAMETER, getSourceCloseCandles, validateSource } from './source';
+import { createIndicatorState, nextSource, pushWindow, updateSMA } from './incremental';
 
 /**
  * Stochastic Oscillator
@@ -40,6 +43,7 @@ export class StochasticIndicator implements IIndicator {
       max: 50,
       description: 'Wygładzenie %K',
     },
+    SOURCE_PARAMETER,
   ];
 
   getRequiredPeriods(params: Record<string, number | string>): number {
@@ -65,6 +69,8 @@ export class StochasticIndicator implements IIndicator {
       errors.push('Smooth must be at least 1');
     }
 
+    errors.push(...validateSource(params));
+
     return { valid: errors.length === 0, errors };
   }
 
@@ -76,7 +82,35 @@ export class StochasticIndicator implements IIndicator {
     const dPeriod = Number(params['dPeriod']) || 3;
     const smooth = Number(params['smooth']) || 3;
 
-    return calculateStochastic(data, kPeriod, dPeriod, smooth);
+    return calculateStochastic(getSourceCloseCandles(data, params), kPeriod, dPeriod, smooth);
+  }
+
+  init(params: Record<string, number | string>): IndicatorState {
+    return createIndicatorState(params);
+  }
+
+  update(state: IndicatorState, candle: OHLCV): IndicatorResult {
+    const kPeriod = Number(state.params['kPeriod']) || 14;
+    const dPeriod = Number(state.params['dPeriod']) || 3;
+    const smooth = Number(state.params['smooth']) || 3;
+    const { candle: current, value } = nextSource(state, candle);
+
+    // Najwyższe high i najniższe low z okna kPeriod świec
+    const highs = pushWindow(state, 'high', current.high, kPeriod);
+    const lows = pushWindow(state, 'low', current.low, kPeriod);
+    if (highs.length < kPeriod) {
+      return { k: null, d: null };
+    }
+
+    const highestHigh = Math.max(...highs);
+    const lowestLow = Math.min(...lows);
+    const range = highestHigh - lowestLow;
+    const rawK = range === 0 ? 50 : ((value - lowestLow) / range) * 100;
+
+    const k = updateSMA(state, 'k', rawK, smooth);
+    const d = k !== null ? updateSMA(state, 'd', k, dPeriod) : null;
+
+    return { k, d };
   }
 }
 
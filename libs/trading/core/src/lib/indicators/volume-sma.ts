@@ -2,9 +2,17 @@ import { OHLCV } from '../types/ohlcv';
 import {
   IIndicator,
   IndicatorResult,
+  IndicatorState,
   ParameterDefinition,
   ValidationResult,
 } from '../types/indicator';
+import {
+  CANDLE_SOURCES,
+  CANDLE_SOURCE_PARAMETER,
+  getSourceCandles,
+  validateSource,
+} from './source';
+import { createIndicatorState, nextSource, updateSMA } from './incremental';
 
 /**
  * Volume Simple Moving Average
@@ -23,6 +31,7 @@ export class VolumeSMAIndicator implements IIndicator {
       max: 500,
       description: 'Okres średniej',
     },
+    CANDLE_SOURCE_PARAMETER,
   ];
 
   getRequiredPeriods(params: Record<string, number | string>): number {
@@ -40,6 +49,8 @@ export class VolumeSMAIndicator implements IIndicator {
       errors.push('Period must not exceed 500');
     }
 
+    errors.push(...validateSource(params, CANDLE_SOURCES));
+
     return { valid: errors.length === 0, errors };
   }
 
@@ -48,7 +59,16 @@ export class VolumeSMAIndicator implements IIndicator {
     params: Record<string, number | string>
   ): IndicatorResult[] {
     const period = Number(params['period']) || 20;
-    return calculateVolumeSMA(data, period);
+    return calculateVolumeSMA(getSourceCandles(data, params), period);
+  }
+
+  init(params: Record<string, number | string>): IndicatorState {
+    return createIndicatorState(params);
+  }
+
+  update(state: IndicatorState, candle: OHLCV): IndicatorResult {
+    const period = Number(state.params['period']) || 20;
+    return updateSMA(state, 'volume', nextSource(state, candle).candle.volume, period);
   }
 }
 
@@ -0,0 +1,268 @@
+import { OHLCV, buildLowerTfIndex } from '../types/ohlcv';
+import {
+  IIndicator,
+  IndicatorContext,
+  IndicatorResult,
+  IndicatorState,
+  MultiLineIndicatorResult,
+  ParameterDefinition,
+  ValidationResult,
+} from '../types/indicator';
+import { SOURCE_PARAMETER, getSourceValues, validateSource } from './source';
+import { createIndicatorState, nextSource } from './incremental';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+const WEEK_OFFSET_MS = 4 * DAY_MS; // 1970-01-01 to czwartek - tydzień zaczyna się w poniedziałek
+
+/**
+ * Okres sesji VWAP (reset sum na początku sesji)
+ */
+export type VWAPSession = 'day' | 'week';
+
+/**
+ * Parametr 'source' dla VWAP - domyślnie cena typowa (hlc3)
+ */
+export const VWAP_SOURCE_PARAMETER: ParameterDefinition = { ...SOURCE_PARAMETER, default: 'hlc3' };
+
+/**
+ * Parametr mnożnika wstęg VWAP
+ */
+export const VWAP_BANDS_PARAMETER: ParameterDefinition = {
+  name: 'stdDev',
+  type: 'number',
+  default: 1,
+  min: 0.1,
+  max: 5,
+  step: 0.1,
+  description: 'Mnożnik odchylenia standardowego wstęg',
+};
+
+/**
+ * Session VWAP
+ * Średnia cena ważona wolumenem od początku sesji (dzień lub tydzień UTC)
+ */
+export class VWAPIndicator implements IIndicator {
+  readonly name = 'VWAP';
+  readonly description = 'Volume Weighted Average Price - średnia cena ważona wolumenem sesji';
+
+  readonly parameters: ParameterDefinition[] = [
+    {
+      name: 'session',
+      type: 'string',
+      default: 'day',
+      options: ['day', 'week'],
+      description: 'Sesja (day, week)',
+    },
+    {
+      name: 'anchorHour',
+      type: 'number',
+      default: 0,
+      min: 0,
+      max: 23,
+      description: 'Godzina UTC rozpoczęcia sesji',
+    },
+    VWAP_BANDS_PARAMETER,
+    VWAP_SOURCE_PARAMETER,
+  ];
+
+  getRequiredPeriods(): number {
+    return 1;
+  }
+
+  validate(params: Record<string, number | string>): ValidationResult {
+    const errors: string[] = [];
+    const session = params['session'] as VWAPSession;
+    const anchorHour = Number(params['anchorHour'] ?? 0);
+
+    if (session && session !== 'day' && session !== 'week') {
+      errors.push('Invalid session. Valid options: day, week');
+    }
+    if (!Number.isInteger(anchorHour) || anchorHour < 0 || anchorHour > 23) {
+      errors.push('Anchor hour must be an integer between 0 and 23');
+    }
+
+    errors.push(...validateVWAPBands(params));
+    errors.push(...validateSource(params));
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  calculate(
+    data: OHLCV[],
+    params: Record<string, number | string>,
+    context?: IndicatorContext
+  ): IndicatorResult[] {
+    const session = (params['session'] as VWAPSession) || 'day';
+    const anchorHour = Number(params['anchorHour']) || 0;
+    const multiplier = Number(params['stdDev']) || 1;
+    return calculateVWAP(getVolumeUnits(data, params, context), session, anchorHour, multiplier);
+  }
+
+  init(params: Record<string, number | string>): IndicatorState {
+    return createIndicatorState({ ...params, source: params['source'] || 'hlc3' });
+  }
+
+  update(state: IndicatorState, candle: OHLCV): IndicatorResult {
+    const session = (state.params['session'] as VWAPSession) || 'day';
+    const anchorHour = Number(state.params['anchorHour']) || 0;
+    const multiplier = Number(state.params['stdDev']) || 1;
+    const { value } = nextSource(state, candle);
+
+    // Nowa sesja - zeruj sumy
+    const key = getSessionKey(candle.timestamp, session, anchorHour);
+    const values = state.values;
+    if (values['session'] !== key) {
+      Object.assign(values, createVWAPSums(), { session: key });
+    }
+
+    const sums: VWAPSums = {
+      volume: values['volume'] as number,
+      priceVolume: values['priceVolume'] as number,
+      squareVolume: values['squareVolume'] as number,
+    };
+    addToVWAP(sums, value, candle.volume);
+    Object.assign(values, sums);
+
+    return getVWAPBands(sums, multiplier);
+  }
+}
+
+/**
+ * Jednostki wolumenu dla VWAP: świece 1m (gdy dostępne) lub świece danych
+ */
+export interface VolumeUnits {
+  timestamps: number[];
+  prices: number[]; // Wartość źródła (domyślnie hlc3)
+  volumes: number[];
+  ends: number[]; // Dla każdej świecy danych: indeks za jej ostatnią jednostką
+}
+
+/**
+ * Sumy ważone wolumenem od początku sesji lub punktu zakotwiczenia
+ */
+export interface VWAPSums {
+  volume: number;
+  priceVolume: number;
+  squareVolume: number; // Suma wolumen * cena^2 (odchylenie standardowe)
+}
+
+/**
+ * Podziel dane na jednostki wolumenu
+ * Świeca bez świec 1m w swoim zakresie liczona jest w całości
+ */
+export function getVolumeUnits(
+  data: OHLCV[],
+  params: Record<string, number | string>,
+  context?: IndicatorContext
+): VolumeUnits {
+  const intrabar = context?.intrabar ?? [];
+  const index =
+    intrabar.length > 0 && context?.timeframe
+      ? buildLowerTfIndex(data, intrabar, context.timeframe)
+      : null;
+
+  const candles: OHLCV[] = [];
+  const ends: number[] = [];
+  for (let i = 0; i < data.length; i++) {
+    const range = index?.[i];
+    if (range && range.end > range.start) {
+      for (let j = range.start; j < range.end; j++) {
+        candles.push(intrabar[j]);
+      }
+    } else {
+      candles.push(data[i]);
+    }
+    ends.push(candles.length);
+  }
+
+  return {
+    timestamps: candles.map((candle) => candle.timestamp),
+    prices: getSourceValues(candles, { ...params, source: params['source'] || 'hlc3' }),
+    volumes: candles.map((candle) => candle.volume),
+    ends,
+  };
+}
+
+/**
+ * Klucz sesji dla timestampu (zmiana klucza = nowa sesja)
+ */
+export function getSessionKey(timestamp: number, session: VWAPSession, anchorHour: number): number {
+  const shifted = timestamp - anchorHour * HOUR_MS;
+  return session === 'week'
+    ? Math.floor((shifted - WEEK_OFFSET_MS) / WEEK_MS)
+    : Math.floor(shifted / DAY_MS);
+}
+
+/**
+ * Puste sumy VWAP
+ */
+export function createVWAPSums(): VWAPSums {
+  return { volume: 0, priceVolume: 0, squareVolume: 0 };
+}
+
+/**
+ * Dodaj cenę z wolumenem do sum
+ */
+export function addToVWAP(sums: VWAPSums, price: number, volume: number): void {
+  sums.volume += volume;
+  sums.priceVolume += price * volume;
+  sums.squareVolume += price * price * volume;
+}
+
+/**
+ * VWAP i wstęgi odchylenia standardowego (null przy zerowym wolumenie)
+ */
+export function getVWAPBands(sums: VWAPSums, multiplier: number): MultiLineIndicatorResult {
+  if (sums.volume <= 0) {
+    return { vwap: null, upper: null, lower: null, deviation: null };
+  }
+
+  const vwap = sums.priceVolume / sums.volume;
+  const deviation = Math.sqrt(Math.max(0, sums.squareVolume / sums.volume - vwap * vwap));
+
+  return {
+    vwap,
+    upper: vwap + multiplier * deviation,
+    lower: vwap - multiplier * deviation,
+    deviation,
+  };
+}
+
+/**
+ * Waliduj mnożnik wstęg VWAP
+ */
+export function validateVWAPBands(params: Record<string, number | string>): string[] {
+  const stdDev = Number(params['stdDev'] ?? 1);
+  return !stdDev || stdDev <= 0 ? ['Standard deviation multiplier must be positive'] : [];
+}
+
+/**
+ * Oblicz session VWAP - wartość na zamknięcie każdej świecy danych
+ */
+export function calculateVWAP(
+  units: VolumeUnits,
+  session: VWAPSession,
+  anchorHour: number,
+  multiplier: number
+): MultiLineIndicatorResult[] {
+  const results: MultiLineIndicatorResult[] = [];
+  let sums = createVWAPSums();
+  let sessionKey: number | null = null;
+  let unit = 0;
+
+  for (const end of units.ends) {
+    for (; unit < end; unit++) {
+      const key = getSessionKey(units.timestamps[unit], session, anchorHour);
+      if (key !== sessionKey) {
+        sessionKey = key;
+        sums = createVWAPSums();
+      }
+      addToVWAP(sums, units.prices[unit], units.volumes[unit]);
+    }
+    results.push(getVWAPBands(sums, multiplier));
+  }
+
+  return results;
+}
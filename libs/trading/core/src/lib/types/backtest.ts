@@ -1,4 +1,4 @@
-import { EquityPoint, Trade } from './trading';
+import { EquityPoint, Order, Trade } from './trading';
 
 /**
  * Konfiguracja backtestu
@@ -15,14 +15,85 @@ export interface BacktestConfig {
   // Koszty
   commissionPercent: number; // np. 0.0006 = 0.06%
   slippagePercent: number; // np. 0.0003 = 0.03%
+  fees?: FeeConfig; // Prowizje maker/taker, progi, opłata stała (domyślnie commissionPercent)
+  slippage?: SlippageConfig; // Model poślizgu (domyślnie stały slippagePercent)
 
   // Model wypełnienia zleceń
-  fillModel: 'optimistic' | 'pessimistic' | 'realistic';
+  fillModel: FillModel;
+
+  // Moment wykonania sygnałów (domyślnie 'same_close', nowe backtesty z API: 'next_open')
+  executionTiming?: ExecutionTiming;
+
+  // Finansowanie kontraktów perpetual
+  funding?: FundingConfig;
 
   // Źródło danych
   dataSource: 'local' | 'exchange';
 }
 
+/**
+ * Model wypełnienia zleceń gdy na jednej świecy trafiony jest więcej niż jeden poziom wyjścia
+ * - optimistic: najkorzystniejszy poziom (np. TP przed SL)
+ * - pessimistic: najgorszy poziom (np. SL przed TP)
+ * - realistic: kolejność ze świec 1m wewnątrz świecy (fallback: ścieżka O-H-L-C / O-L-H-C)
+ */
+export type FillModel = 'optimistic' | 'pessimistic' | 'realistic';
+
+/**
+ * Moment wykonania zleceń rynkowych z sygnałów strategii
+ * - same_close: na zamknięciu świecy sygnału (cena znana dopiero po jej zamknięciu - look-ahead)
+ * - next_open: na otwarciu następnej świecy
+ * - next_bar_vwap: po VWAP następnej świecy ze świec 1m (bez danych 1m: HLC3 świecy)
+ * Zlecenia limit / stop_market działają od następnej świecy niezależnie od trybu
+ */
+export type ExecutionTiming = 'same_close' | 'next_open' | 'next_bar_vwap';
+
+/**
+ * Konfiguracja prowizji
+ * Zlecenia limit wypełniane jako maker, pozostałe wypełnienia jako taker
+ */
+export interface FeeConfig {
+  makerPercent?: number; // np. 0.0002 = 0.02% (domyślnie commissionPercent)
+  takerPercent?: number; // np. 0.00055 = 0.055% (domyślnie commissionPercent)
+  fixedPerTrade?: number; // Stała opłata za każde wypełnienie (waluta konta)
+  tiers?: FeeTier[]; // Progi wg wolumenu z okna tierWindowDays - nadpisują maker/taker
+  tierWindowDays?: number; // Domyślnie 30
+}
+
+/**
+ * Próg prowizji - obowiązuje od minVolume wolumenu (wartość wypełnień w walucie konta)
+ */
+export interface FeeTier {
+  minVolume: number;
+  makerPercent: number;
+  takerPercent: number;
+}
+
+/**
+ * Model poślizgu cenowego zleceń rynkowych
+ * - fixed: slippagePercent ceny
+ * - volume: slippagePercent + impactFactor * udział zlecenia w wolumenie świecy (max maxPercent)
+ * - atr: atrFraction * ATR (bez ATR: jak fixed)
+ */
+export interface SlippageConfig {
+  model: SlippageModel;
+  impactFactor?: number; // Dla volume (domyślnie 0.1)
+  maxPercent?: number; // Dla volume - górny limit jako ułamek ceny (np. 0.01 = 1%)
+  atrFraction?: number; // Dla atr (domyślnie 0.1)
+}
+
+export type SlippageModel = 'fixed' | 'volume' | 'atr';
+
+/**
+ * Konfiguracja rozliczania funding rate
+ * Rozliczenia wg zapisanej historii stawek, a bez historii co intervalHours po defaultRate
+ */
+export interface FundingConfig {
+  enabled: boolean;
+  intervalHours?: number; // Domyślnie 8
+  defaultRate?: number; // Stawka bez historii (domyślnie 0.0001 = 0.01%)
+}
+
 /**
  * Status backtestu
  */
@@ -74,6 +145,9 @@ export interface BacktestMetrics {
   finalCapital: number;
   peakCapital: number;
   totalCommission: number;
+  totalFunding: number; // Suma funding (ujemna = zapłacona)
+  ambiguousExits: number; // Wyjścia z kilkoma poziomami trafionymi na tej samej świecy
+  liquidations: number; // Pozycje zamknięte przymusowo (likwidacja)
 }
 
 /**
@@ -90,6 +164,9 @@ export interface BacktestResult {
   metrics?: BacktestMetrics;
   trades: Trade[];
   equityCurve: EquityPoint[];
+  orders?: Order[]; // Zlecenia limit / stop_market wraz z ich statusem
+  haltEvents?: RiskHaltEvent[]; // Wstrzymania handlu przez limity ryzyka
+  executionTiming?: ExecutionTiming; // Tryb wykonania użyty w backtestcie
 
   // Metadata
   startedAt?: Date;
@@ -102,6 +179,40 @@ export interface BacktestResult {
   processedCandles: number;
 }
 
+/**
+ * Wynik backtestu portfelowego (wiele symboli, wspólny kapitał)
+ * metrics / trades / equityCurve dotyczą całego portfela
+ */
+export interface PortfolioBacktestResult extends BacktestResult {
+  symbols: string[];
+  symbolResults: Record<string, SymbolBacktestResult>;
+}
+
+/**
+ * Wynik jednego symbolu w backtestcie portfelowym
+ * Equity = kapitał początkowy portfela + wynik symbolu
+ */
+export interface SymbolBacktestResult {
+  symbol: string;
+  metrics: BacktestMetrics;
+  trades: Trade[];
+  equityCurve: EquityPoint[];
+}
+
+/**
+ * Wstrzymanie handlu przez limit ryzyka
+ * - max_daily_loss: brak nowych wejść do końca dnia UTC (resumesAt)
+ * - max_drawdown: brak nowych wejść do końca backtestu
+ */
+export interface RiskHaltEvent {
+  timestamp: number;
+  type: 'max_daily_loss' | 'max_drawdown';
+  value: number; // Strata dzienna / drawdown w chwili zatrzymania (%)
+  limit: number; // Skonfigurowany limit (%)
+  resumesAt?: number; // Wznowienie handlu (tylko max_daily_loss)
+  closedPositions: number; // Pozycje zamknięte przy zatrzymaniu
+}
+
 /**
  * Progress backtestu (dla WebSocket)
  */
@@ -1,4 +1,4 @@
-import { OHLCV } from './ohlcv';
+import { OHLCV, Timeframe } from './ohlcv';
 
 /**
  * Wynik obliczeń wskaźnika
@@ -27,9 +27,18 @@ export interface ParameterDefinition {
   min?: number;
   max?: number;
   step?: number;
+  options?: string[]; // Dozwolone wartości parametru tekstowego (lista wyboru w UI)
   description?: string;
 }
 
+/**
+ * Dodatkowe dane dla obliczeń wskaźnika
+ */
+export interface IndicatorContext {
+  timeframe?: Timeframe; // Timeframe przekazanych świec
+  intrabar?: OHLCV[]; // Świece 1m z zakresu danych (np. dokładniejszy VWAP)
+}
+
 /**
  * Wynik walidacji
  */
@@ -43,6 +52,11 @@ export interface ValidationResult {
  */
 export type PriceSource = 'open' | 'high' | 'low' | 'close' | 'volume' | 'hl2' | 'hlc3' | 'ohlc4';
 
+/**
+ * Źródło danych wskaźnika (parametr 'source'): cena świecy lub świecy Heikin-Ashi ('ha_close')
+ */
+export type IndicatorDataSource = PriceSource | `ha_${PriceSource}`;
+
 /**
  * Funkcja pobierająca cenę ze świecy
  */
@@ -86,17 +100,42 @@ export interface IIndicator {
   getRequiredPeriods(params: Record<string, number | string>): number;
 
   /** Oblicz wartość wskaźnika */
-  calculate(data: OHLCV[], params: Record<string, number | string>): IndicatorResult[];
+  calculate(
+    data: OHLCV[],
+    params: Record<string, number | string>,
+    context?: IndicatorContext
+  ): IndicatorResult[];
 
   /** Walidacja parametrów */
   validate(params: Record<string, number | string>): ValidationResult;
+
+  /** Utwórz stan obliczeń inkrementalnych (opcjonalne - live trading) */
+  init?(params: Record<string, number | string>): IndicatorState;
+
+  /** Dolicz kolejną świecę do stanu i zwróć wartość wskaźnika dla tej świecy */
+  update?(state: IndicatorState, candle: OHLCV): IndicatorResult;
+}
+
+/**
+ * Wskaźnik z obliczeniami inkrementalnymi
+ */
+export type IncrementalIndicator = IIndicator & Required<Pick<IIndicator, 'init' | 'update'>>;
+
+/**
+ * Czy wskaźnik obsługuje obliczenia inkrementalne
+ */
+export function isIncrementalIndicator(indicator: IIndicator): indicator is IncrementalIndicator {
+  return typeof indicator.init === 'function' && typeof indicator.update === 'function';
 }
 
 /**
  * Stan wskaźnika (dla obliczeń inkrementalnych)
+ * Rozmiar nie zależy od długości historii - okna mają najwyżej długość okresu wskaźnika
  */
 export interface IndicatorState {
-  indicatorId: string;
-  lastCalculatedIndex: number;
-  cache: Record<string, number[]>;
+  params: Record<string, number | string>;
+  count: number; // Liczba przetworzonych świec
+  previous: OHLCV | null; // Poprzednia świeca źródła (zwykła lub Heikin-Ashi)
+  values: Record<string, number | null>; // Wartości pośrednie (średnie, sumy)
+  windows: Record<string, number[]>; // Okna ostatnich wartości
 }
@@ -63,6 +63,14 @@ export function timeframeToMs(timeframe: Timeframe): number {
   return TIMEFRAME_TO_MINUTES[timeframe] * 60 * 1000;
 }
 
+/**
+ * Stawka finansowania (funding rate) kontraktu perpetual
+ */
+export interface FundingRate {
+  timestamp: number; // Moment rozliczenia (Unix timestamp w ms)
+  rate: number; // np. 0.0001 = 0.01% (dodatnia - long płaci short)
+}
+
 /**
  * Dane dla wielu timeframe'ów
  */
@@ -128,3 +136,36 @@ export function buildHigherTfIndex(
   
   return result;
 }
+
+/**
+ * Zbuduj indeks świec niższego TF (np. 1m) zawartych w każdej świecy głównego TF
+ * Zwraca zakres [start, end) w tablicy lowerTfData dla każdej świecy primaryData
+ */
+export function buildLowerTfIndex(
+  primaryData: OHLCV[],
+  lowerTfData: OHLCV[],
+  primaryTf: Timeframe
+): { start: number; end: number }[] {
+  const tfMs = timeframeToMs(primaryTf);
+  const result: { start: number; end: number }[] = [];
+
+  let ltfIndex = 0;
+
+  for (const candle of primaryData) {
+    const candleEnd = candle.timestamp + tfMs;
+
+    // Pomiń świece niższego TF sprzed bieżącej świecy
+    while (ltfIndex < lowerTfData.length && lowerTfData[ltfIndex].timestamp < candle.timestamp) {
+      ltfIndex++;
+    }
+
+    const start = ltfIndex;
+    while (ltfIndex < lowerTfData.length && lowerTfData[ltfIndex].timestamp < candleEnd) {
+      ltfIndex++;
+    }
+
+    result.push({ start, end: ltfIndex });
+  }
+
+  return result;
+}
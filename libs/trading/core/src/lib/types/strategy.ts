@@ -24,10 +24,15 @@ export type ExitReason =
   | 'trailing_stop'
   | 'signal'
   | 'manual'
-  | 'timeout';
+  | 'timeout'
+  | 'liquidation'
+  | 'risk_limit'
+  | 'opposite_signal';
 
 /**
  * Definicja wskaźnika w strategii
+ * source: cena (domyślnie 'close'), id innego wskaźnika (także linia 'macd.histogram')
+ * lub id zmiennej obliczeniowej
  */
 export interface IndicatorDefinition {
   id: string; // Unikalny identyfikator w ramach strategii
@@ -48,6 +53,13 @@ export interface ComputedVariable {
 
 /**
  * Typ warunku
+ * Warunki czasowe (params.bars = N świec, stan per warunek i symbol):
+ * - crossed_above_within / crossed_below_within: przecięcie w ciągu ostatnich N świec
+ * - true_for: warunek params.condition spełniony przez N kolejnych świec
+ * - true_count_in: warunek params.condition spełniony w co najmniej params.count z N świec
+ * - percent_change_above / percent_change_below: zmiana left w % względem N świec wstecz
+ *   powyżej / poniżej right
+ * - is_rising / is_falling z params.bars > 1: wzrost / spadek na każdej z N ostatnich świec
  */
 export type ConditionType =
   | 'greater_than'
@@ -58,7 +70,13 @@ export type ConditionType =
   | 'crosses_above'
   | 'crosses_below'
   | 'is_rising'
-  | 'is_falling';
+  | 'is_falling'
+  | 'crossed_above_within'
+  | 'crossed_below_within'
+  | 'true_for'
+  | 'true_count_in'
+  | 'percent_change_above'
+  | 'percent_change_below';
 
 /**
  * Pojedynczy warunek
@@ -67,7 +85,7 @@ export interface Condition {
   type: ConditionType;
   left: string; // Referencja do wskaźnika/zmiennej/ceny
   right: string | number; // Wartość lub referencja
-  params?: Record<string, number | string>; // Dodatkowe parametry
+  params?: Record<string, number | string>; // Dodatkowe parametry (np. bars, count, condition)
 }
 
 /**
@@ -84,6 +102,48 @@ export interface ConditionGroup {
 export interface SignalDefinition {
   conditions: ConditionGroup;
   filters?: ConditionGroup; // Opcjonalne filtry (np. trend)
+  order?: EntryOrderConfig; // Typ zlecenia wejścia (domyślnie market)
+}
+
+/**
+ * Konfiguracja zlecenia wejścia
+ * - limit: wejście po cenie price lub lepszej (np. long na pivot.S1)
+ * - stop_market: wejście po przebiciu ceny price (breakout)
+ */
+export interface EntryOrderConfig {
+  type: 'market' | 'limit' | 'stop_market';
+  price?: string | number; // Referencja (np. 'pivot.S1') lub wartość; domyślnie close
+  offsetPercent?: number; // Przesunięcie ceny zlecenia w % (np. -0.1 = 0.1% niżej)
+  expiryBars?: number; // Ważność zlecenia w świecach (domyślnie 1)
+}
+
+/**
+ * Obsługa sygnału wejścia przeciwnego do otwartej pozycji
+ * - ignore: pomiń sygnał
+ * - close: zamknij otwartą pozycję bez otwierania przeciwnej
+ * - reverse: zamknij i otwórz przeciwną na tej samej świecy
+ * - hedge: otwórz przeciwną obok istniejącej (long i short jednocześnie, maxOpenPositions >= 2)
+ */
+export type OppositeSignalMode = 'ignore' | 'close' | 'reverse' | 'hedge';
+
+/**
+ * Ograniczenia wejść - te same w backteście i live (StrategyExecutor)
+ */
+export interface EntryRulesConfig {
+  cooldownBars?: number; // Liczba świec bez wejścia po świecy zamknięcia pozycji
+  cooldownAfterLossOnly?: boolean; // Cooldown tylko po stratnej pozycji
+  maxTradesPerDay?: number; // Limit wejść w dniu UTC
+  maxTradesPerWeek?: number; // Limit wejść w tygodniu UTC (od poniedziałku)
+  reentryReset?: ReentryResetConfig; // Warunki odblokowania wejścia w tym samym kierunku
+}
+
+/**
+ * Po zamknięciu pozycji wejście w tym samym kierunku zablokowane,
+ * dopóki warunek danej strony nie zostanie spełniony na zamknięciu świecy
+ */
+export interface ReentryResetConfig {
+  long?: ConditionGroup;
+  short?: ConditionGroup;
 }
 
 /**
@@ -93,48 +153,172 @@ export interface ExitSignalDefinition {
   stopLoss?: StopLossConfig;
   takeProfit?: TakeProfitConfig;
   trailingStop?: TrailingStopConfig;
-  signalExit?: SignalDefinition; // Wyjście na sygnał
-  timeout?: number; // Maksymalny czas w pozycji (minuty)
+  signalExit?: SignalDefinition; // Wyjście na sygnał (obie strony)
+  signalExitLong?: SignalDefinition; // Wyjście z pozycji long (zastępuje signalExit)
+  signalExitShort?: SignalDefinition; // Wyjście z pozycji short (zastępuje signalExit)
+  timeout?: number | TimeoutConfig; // Maksymalny czas w pozycji (minuty) lub pełna konfiguracja
+}
+
+/**
+ * Konfiguracja wyjścia czasowego
+ * Limit w minutach i/lub świecach - wyjście po przekroczeniu pierwszego z nich
+ */
+export interface TimeoutConfig {
+  minutes?: number;
+  bars?: number; // Liczba świec głównego timeframe'u
+  onlyIfLosing?: boolean; // Zamknij tylko stratną pozycję
+  belowRMultiple?: number; // Zamknij tylko gdy wynik < X R (R = odległość wejścia od początkowego SL)
 }
 
 /**
  * Konfiguracja Stop Loss
+ * Dla typów 'pivot' i 'indicator' value to bufor w % za poziomem (dalej od wejścia)
  */
-export interface StopLossConfig {
-  type: 'fixed_percent' | 'fixed_price' | 'atr_multiple' | 'pivot';
+export interface StopLossConfig extends LevelReferenceConfig {
+  type: 'fixed_percent' | 'fixed_price' | 'atr_multiple' | 'pivot' | 'indicator';
   value: number;
   atrPeriod?: number; // Dla typu atr_multiple
 }
 
 /**
  * Konfiguracja Take Profit
+ * Dla typów 'pivot' i 'indicator' value to bufor w % przed poziomem (bliżej wejścia)
+ * Drabinka (ladder) zastępuje pojedynczy poziom - type/value są wtedy pomijane,
+ * a część pozycji ponad sumę sizePercent zamyka SL, trailing stop lub sygnał
  */
-export interface TakeProfitConfig {
-  type: 'fixed_percent' | 'fixed_price' | 'atr_multiple' | 'risk_reward' | 'pivot';
+export interface TakeProfitConfig extends LevelReferenceConfig {
+  type: 'fixed_percent' | 'fixed_price' | 'atr_multiple' | 'risk_reward' | 'pivot' | 'indicator';
   value: number;
   atrPeriod?: number;
+  ladder?: TakeProfitTarget[]; // Częściowe realizacje zysku (np. 50% na 1R, 30% na 2R)
+  moveStopToBreakeven?: boolean; // Przesuń SL na cenę wejścia po pierwszym celu
+}
+
+/**
+ * Cel częściowej realizacji zysku - rMultiple albo percent
+ */
+export interface TakeProfitTarget {
+  rMultiple?: number; // Wielokrotność ryzyka (odległości początkowego SL)
+  percent?: number; // % od ceny wejścia
+  sizePercent: number; // % początkowej wielkości pozycji zamykany na celu
+}
+
+/**
+ * Poziom SL/TP odczytywany ze wskaźnika w chwili wejścia
+ * - pivot: poziom wskaźnika PIVOT dla longa (np. 'S2'), dla shorta lustrzany (S2 → R2)
+ * - indicator: dowolna referencja (np. 'bb.lower', 'sma50', zmienna)
+ */
+export interface LevelReferenceConfig {
+  level?: PivotLevel; // Dla typu pivot
+  indicator?: string; // Id wskaźnika PIVOT (domyślnie pierwszy PIVOT w strategii)
+  reference?: string; // Dla typu indicator
+  shortReference?: string; // Referencja dla shorta (domyślnie reference)
 }
 
+/**
+ * Poziom Pivot Points
+ */
+export type PivotLevel =
+  | 'PP'
+  | 'S1'
+  | 'S2'
+  | 'S3'
+  | 'S4'
+  | 'S5'
+  | 'R1'
+  | 'R2'
+  | 'R3'
+  | 'R4'
+  | 'R5';
+
 /**
  * Konfiguracja Trailing Stop
+ * - percent: X% od ekstremum ceny od wejścia
+ * - atr: ATR × atrMultiple od ekstremum ceny od wejścia
+ * - chandelier: ATR × atrMultiple od najwyższego high / najniższego low z chandelierPeriod świec
+ * - indicator: wzdłuż linii wskaźnika (np. pod SMMA), trailPercent jako bufor
  */
 export interface TrailingStopConfig {
   enabled: boolean;
-  activationPercent?: number; // Aktywacja po X% zysku
+  type?: TrailingStopType; // Domyślnie 'percent'
+  activationPercent?: number; // Aktywacja po X% zysku (domyślnie 2 dla percent, 0 dla pozostałych)
   trailPercent?: number; // Odległość trailing stop
   atrMultiple?: number;
+  chandelierPeriod?: number; // Dla typu chandelier (domyślnie 22)
+  reference?: string; // Dla typu indicator (np. 'smma33')
+  shortReference?: string; // Referencja dla shorta (domyślnie reference)
+  breakevenClamp?: boolean; // Nie cofaj stopu poniżej wejścia (domyślnie true dla percent)
 }
 
+/**
+ * Typ trailing stop
+ */
+export type TrailingStopType = 'percent' | 'atr' | 'chandelier' | 'indicator';
+
 /**
  * Konfiguracja zarządzania ryzykiem
  */
 export interface RiskManagementConfig {
   riskPerTrade: number; // Ryzyko na transakcję (% kapitału)
-  maxPositionSize: number; // Maksymalna wielkość pozycji (% kapitału)
+  maxPositionSize: number; // Maksymalny depozyt pozycji (% kapitału)
   maxOpenPositions: number; // Maksymalna liczba otwartych pozycji
-  maxDailyLoss?: number; // Maksymalna dzienna strata (%)
-  maxDrawdown?: number; // Maksymalny drawdown (%)
+  maxDailyLoss?: number; // Maksymalna dzienna strata (%) - blokuje nowe wejścia do końca dnia UTC
+  maxDrawdown?: number; // Maksymalny drawdown (%) - zatrzymuje handel do końca backtestu
+  closeOnMaxDrawdown?: boolean; // Zamknij otwarte pozycje po przekroczeniu maxDrawdown
   leverage?: number; // Dźwignia
+  marginMode?: MarginMode; // Tryb depozytu (domyślnie 'isolated')
+  initialMarginRate?: number; // Depozyt początkowy (% wartości pozycji, domyślnie 100 / leverage)
+  maintenanceMarginRate?: number; // Depozyt utrzymaniowy (% wartości pozycji, domyślnie 0.5)
+  pyramiding?: PyramidingConfig; // Dokładanie do pozycji / siatka zleceń
+  sizing?: PositionSizingConfig; // Sposób wyznaczania wielkości pozycji (domyślnie 'risk')
+}
+
+/**
+ * Tryb wyznaczania wielkości pozycji
+ * - risk: riskPerTrade % kapitału na odległość SL
+ * - fixed_notional: stała wartość pozycji
+ * - fixed_fraction: wartość pozycji jako % equity
+ * - volatility: ruch o 1 ATR / 1 odchylenie standardowe zmiany ceny = targetVolatility % equity
+ * - kelly: ułamek Kelly (z ostatnich transakcji) jako ryzyko na odległość SL
+ */
+export type PositionSizingMode = 'risk' | 'fixed_notional' | 'fixed_fraction' | 'volatility' | 'kelly';
+
+/**
+ * Konfiguracja wielkości pozycji
+ * Wynik każdego trybu ograniczany przez maxPositionSize i skalowany przy piramidowaniu
+ */
+export interface PositionSizingConfig {
+  mode: PositionSizingMode;
+  defaultStopPercent?: number; // risk / kelly bez SL - zakładana odległość stopu (domyślnie 2%)
+  notional?: number; // fixed_notional - wartość pozycji w walucie konta
+  fraction?: number; // fixed_fraction - % equity
+  targetVolatility?: number; // volatility - % equity na jedną jednostkę zmienności
+  volatilitySource?: 'atr' | 'stdev'; // volatility - domyślnie 'atr'
+  volatilityPeriod?: number; // volatility 'stdev' - okres (domyślnie 20)
+  kellyFraction?: number; // kelly - mnożnik pełnego Kelly (domyślnie 0.5)
+  kellyLookback?: number; // kelly - liczba ostatnich transakcji (domyślnie 50)
+  kellyMinTrades?: number; // kelly - poniżej sizing 'risk' (domyślnie 20)
+}
+
+/**
+ * Tryb depozytu dla kontraktów perpetual
+ * - isolated: każda pozycja zabezpieczona tylko własnym depozytem
+ * - cross: cały wolny kapitał konta zabezpiecza wszystkie pozycje
+ */
+export type MarginMode = 'isolated' | 'cross';
+
+/**
+ * Konfiguracja piramidowania (wiele pozycji na symbolu, limit: maxOpenPositions)
+ * - averaging: kolejne wejścia tylko po gorszej cenie (siatka z uśrednianiem)
+ * - scaling: kolejne wejścia tylko po lepszej cenie (dokładanie do zysku)
+ * - any: w obu kierunkach
+ */
+export interface PyramidingConfig {
+  enabled: boolean;
+  mode?: 'averaging' | 'scaling' | 'any'; // Domyślnie 'any'
+  minDistancePercent?: number; // Min. odległość od ostatniego wejścia (%)
+  sizeMultiplier?: number; // Mnożnik wielkości kolejnego poziomu (np. 1.5)
+  exitMode?: 'individual' | 'all'; // Zamykanie nóg osobno lub wszystkich razem (domyślnie 'individual')
 }
 
 /**
@@ -177,6 +361,8 @@ export interface StrategySchema {
   entrySignals: {
     long?: SignalDefinition;
     short?: SignalDefinition;
+    oppositeSignal?: OppositeSignalMode; // Sygnał przeciwny do pozycji (domyślnie 'ignore')
+    rules?: EntryRulesConfig; // Cooldown, limity liczby transakcji, ponowne wejścia
   };
 
   // Sygnały wyjścia
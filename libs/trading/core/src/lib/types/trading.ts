@@ -1,4 +1,10 @@
-import { ExitReason, OrderType, PositionSide } from './strategy';
+import {
+  ExitReason,
+  OrderType,
+  PositionSide,
+  PositionSizingMode,
+  TrailingStopType,
+} from './strategy';
 
 /**
  * Pojedyncze zlecenie
@@ -15,10 +21,23 @@ export interface Order {
   filledAt?: number;
   filledPrice?: number;
   commission?: number;
+  expiresAt?: number; // Timestamp świecy, po której niewypełnione zlecenie wygasa
+  cancelledAt?: number;
+  cancelReason?: OrderCancelReason;
 }
 
 export type OrderStatus = 'pending' | 'filled' | 'cancelled' | 'rejected';
 
+/**
+ * Powód anulowania zlecenia
+ */
+export type OrderCancelReason =
+  | 'expired'
+  | 'opposite_signal'
+  | 'replaced'
+  | 'end_of_backtest'
+  | 'risk_limit';
+
 /**
  * Otwarta pozycja
  */
@@ -30,6 +49,7 @@ export interface Position {
   size: number;
   entryTime: number;
   stopLoss?: number;
+  initialStopLoss?: number; // SL w chwili otwarcia (ryzyko 1R)
   takeProfit?: number;
   trailingStop?: {
     active: boolean;
@@ -37,11 +57,63 @@ export interface Position {
     lowestPrice?: number;
     currentStop?: number;
     // Konfiguracja z strategii
+    type?: TrailingStopType;
     activationPercent?: number; // Aktywacja po X% zysku
     trailPercent?: number; // Trail distance jako %
+    atrMultiple?: number;
+    breakevenClamp?: boolean;
   };
   unrealizedPnl?: number;
   unrealizedPnlPercent?: number;
+  maxFavorableExcursion?: number; // Największy niezrealizowany zysk w % od wejścia (MFE)
+  entryLevel?: number; // Numer poziomu przy piramidowaniu (0 = pierwsze wejście)
+  averageEntryPrice?: number; // Średnia cena wejścia wszystkich nóg tej strony
+  leverage?: number; // Dźwignia pozycji
+  margin?: number; // Zablokowany depozyt początkowy
+  liquidationPrice?: number; // Cena likwidacji (cross: przy obecnym stanie pozostałych pozycji)
+  funding?: number; // Suma rozliczonego funding (ujemna = zapłacona)
+  initialSize?: number; // Wielkość w chwili otwarcia (przed częściowymi zamknięciami)
+  takeProfitTargets?: TakeProfitTargetState[]; // Cele drabinki TP
+  moveStopToBreakeven?: boolean; // SL na cenę wejścia po pierwszym celu
+  entryFee?: number; // Prowizja wejścia (rozliczana przy zamknięciu)
+  entrySlippage?: number; // Koszt poślizgu wejścia (w walucie)
+  sizing?: PositionSizingInfo; // Jak wyznaczono wielkość pozycji
+}
+
+/**
+ * Sposób wyznaczenia wielkości pozycji
+ */
+export interface PositionSizingInfo {
+  mode: PositionSizingMode;
+  reason: SizingReason;
+  size: number; // Wielkość po ograniczeniach
+  requestedSize: number; // Wielkość wyznaczona przez tryb (przed maxPositionSize)
+}
+
+/**
+ * Powód wielkości pozycji
+ * - default_stop: brak SL - ryzyko liczone od defaultStopPercent
+ * - volatility_unavailable / kelly_warmup: brak danych - użyty sizing 'risk'
+ * - max_position_size: wielkość ograniczona przez maxPositionSize
+ */
+export type SizingReason =
+  | 'risk'
+  | 'default_stop'
+  | 'fixed_notional'
+  | 'fixed_fraction'
+  | 'volatility'
+  | 'volatility_unavailable'
+  | 'kelly'
+  | 'kelly_warmup'
+  | 'max_position_size';
+
+/**
+ * Stan celu częściowej realizacji zysku pozycji
+ */
+export interface TakeProfitTargetState {
+  price: number;
+  size: number; // Wielkość zamykana na celu (w jednostkach)
+  filled: boolean;
 }
 
 /**
@@ -58,10 +130,20 @@ export interface Trade {
   exitTime: number;
   pnl: number; // Profit & Loss w jednostkach waluty
   pnlPercent: number; // P&L w procentach
-  commission: number;
+  commission: number; // Prowizje wejścia i wyjścia (entryFee + exitFee)
+  entryFee?: number;
+  exitFee?: number;
+  slippage?: number; // Koszt poślizgu wejścia i wyjścia (w walucie, zawarty w pnl)
+  sizing?: PositionSizingInfo; // Wielkość całej pozycji (trade może być częściowym zamknięciem)
   netPnl: number; // P&L po prowizjach
   exitReason: ExitReason;
   holdingTime: number; // Czas trwania pozycji w ms
+  ambiguousExit?: boolean; // Kilka poziomów wyjścia na jednej świecy - rozstrzygnięte przez fillModel
+  entryLevel?: number; // Numer poziomu przy piramidowaniu
+  averageEntryPrice?: number; // Średnia cena wejścia nóg w chwili zamknięcia
+  funding?: number; // Funding rozliczony w trakcie trwania pozycji (wliczony w netPnl)
+  positionId: string; // Pozycja, z której pochodzi trade (wspólna dla częściowych zamknięć)
+  partial?: boolean; // Częściowe zamknięcie - pozycja pozostała otwarta
 }
 
 /**
@@ -76,6 +158,8 @@ export interface Portfolio {
   totalPnl: number;
   totalPnlPercent: number;
   totalCommission: number;
+  marginUsed: number; // Suma depozytów początkowych otwartych pozycji
+  totalFunding: number; // Suma rozliczonego funding
 }
 
 /**
@@ -87,6 +171,10 @@ export interface Signal {
   timestamp: number;
   reason?: string;
   metadata?: Record<string, unknown>;
+  // Zlecenie wejścia (domyślnie market po cenie price)
+  orderType?: OrderType;
+  orderPrice?: number; // Cena zlecenia limit / stop_market
+  expiryBars?: number; // Ważność zlecenia w świecach
 }
 
 /**
@@ -98,4 +186,6 @@ export interface EquityPoint {
   drawdown: number;
   drawdownPercent: number;
   openPositions: number;
+  marginUsed?: number; // Zablokowany depozyt
+  marginUsagePercent?: number; // Depozyt jako % equity
 }